@@ -1,21 +1,65 @@
 import React, { useState, useEffect } from 'react';
-import { SiteStatus, SearchResult, ChatMessage, BrowserTab, CourtVerdict } from './types';
-import { searchWeb, chatWithSiteOwner, generatePageContent, judgeCourtCase } from './services/geminiService';
-import { Browser } from './components/Browser';
+import { SiteStatus, SearchResult, BulkAction, BulkOperation, NewsItem, ReactionAction, ReactionRequest, ScoreChange, CareerMeters, DelistedDomain, ChatMessage, BrowserTab, CourtCase, CourtCaseFile, CourtInstance, HearingTurn, ScheduledAppeal, OwnerProfile, OwnerInteractionKind, NegotiationOutcome, Prescription, PrescriptionAction, CachedSiteData, CareerScore, CampaignState, ShiftReport, EvidenceItem, RestrictionRule, BlockingMethod, EvasionState, ThrottleLevel, StatusActor, StatusAuditEntry, HistoryEntry } from './types';
+import { searchWeb, chatWithSiteOwner, conductHearing, judgeCourtCase, generateReactions, listProviders, getActiveProvider, setActiveProvider, ModelProviderId } from './services/geminiService';
+import { Browser, EvidenceCapture } from './components/Browser';
 import { RKNPanel } from './components/RKNPanel';
 import { ChatWindow } from './components/ChatWindow';
 import { CourtWindow } from './components/CourtWindow';
+import { CareerHUD } from './components/CareerHUD';
+import { CollateralReportWindow } from './components/CollateralReportWindow';
+import { DocketWindow } from './components/DocketWindow';
+import { ShiftBar } from './components/ShiftBar';
+import { ShiftReportWindow } from './components/ShiftReportWindow';
+import { AuditLogWindow } from './components/AuditLogWindow';
+import { ComplianceDiffWindow } from './components/ComplianceDiffWindow';
+import { PrescriptionWindow } from './components/PrescriptionWindow';
+import { PrescriptionListWindow } from './components/PrescriptionListWindow';
+import { CommandPalette } from './components/CommandPalette';
+import { BulkEnforcementWindow } from './components/BulkEnforcementWindow';
+import { ShortcutsWindow } from './components/ShortcutsWindow';
+import { NewsFeedWindow } from './components/NewsFeedWindow';
+import { createCareerScore, scoreEvent, applyScoreChange, getCareerOutcome, ScoringEvent } from './services/scoring';
+import { findMatchingRule, upsertRule, removeRule, resolveSiteStatus, rulePatternFor, RULE_KIND_LABELS } from './services/restrictionRules';
+import { getTransitionError, createAuditEntry, citeEvidenceLaws } from './services/statusMachine';
+import { COURT_INSTANCES, createCourtCase, findOpenCase, getLastHearing, getNextInstance, decideOwnerEscalation, createHearingTurn, setCaseTranscript, recordHearing, closeCourtCase, findOverdueCases } from './services/courts';
+import { BLOCKING_METHODS, DEFAULT_BLOCKING_METHOD, isBlockLeaking } from './services/blockingMethods';
+import { resolveHostingForUrl, findCoHostedSites, buildCollateralReport } from './services/hosting';
+import { INTERNAL_PAGES, isInternalUrl, buildRegistry, buildStats, appendHistory } from './services/internalPages';
+import { createOwnerProfile, recordOwnerInteraction } from './services/ownerPersona';
+import { planAppeal, scheduleAppeal, decideInterimAccess, isWithinFilingWindow, APPEAL_TICK_MS } from './services/appeals';
+import { createPageLoader, getLoadDelay } from './services/pageLoader';
+import { recordQuery, filterDelisted, isDelisted, delistDomain, relistDomain } from './services/search';
+import { createPrescription, updatePrescription, getPrescriptionProgress, hasOverduePrescription, PRESCRIPTION_ACTION_LABELS } from './services/prescriptions';
+import { createComplianceCheck, decideReinstatement, completeComplianceCheck } from './services/compliance';
+import { COUNTER_OFFER_MS, GEO_BLOCK_ERROR, createCounterOffer, removeElements, composeLegalBasis } from './services/negotiation';
+import { planThrottledLoad, renderPartialPage, getMediaProgress, DEFAULT_THROTTLE_LEVEL } from './services/throttling';
+import { createEvasionState, advanceEvasion, registerBlock, traceMirror, findMirror, getMirrorsOf, resolveOrigin, buildMirrorSite, injectMirrorResults, EVASION_TICK_MS } from './services/evasion';
+import { HotkeyAction, HotkeyBindings, DEFAULT_HOTKEYS, HOTKEY_ACTION_LABELS, formatKeyEvent, findHotkeyAction, rebindHotkey, mergeHotkeys, isTypingTarget } from './services/hotkeys';
+import { PaletteCommand } from './services/commandPalette';
+import { BULK_ACTION_LABELS, BulkContext, BulkSettings, previewBulkAction, revertBulkRules, diffRules, getUndoableOperation } from './services/bulkEnforcement';
+import { getReactionApproval, appendNews } from './services/newsFeed';
+import { estimatePopularity } from './services/siteProfile';
+import { planViolations } from './services/violations';
+import { createCampaignState, getDirectiveForShift, startShift, finishShift, judgeShiftAction, recordShiftAction, getShiftTimeLeft } from './services/campaign';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
-interface CachedSiteData {
-  url: string;
-  title: string;
-  content: string | null;
-  status: SiteStatus;
-  chatHistory: ChatMessage[];
-  lastVisited: number;
-}
+const createSiteRecord = (url: string): CachedSiteData => ({
+  url,
+  title: new URL(url).hostname,
+  content: null,
+  violations: [],
+  evidence: [],
+  hosting: resolveHostingForUrl(url),
+  status: SiteStatus.NORMAL,
+  chatHistory: [],
+  auditLog: [],
+  geoBlocked: false,
+  counterOffer: null,
+  legalBasisRequested: false,
+  compliance: null,
+  lastVisited: Date.now()
+});
 
 export default function App() {
   // --- PERSISTENT STORAGE ---
@@ -23,7 +67,12 @@ export default function App() {
     if (typeof window !== 'undefined') {
         try {
             const saved = localStorage.getItem('rkn_site_db');
-            return saved ? JSON.parse(saved) : {};
+            if (!saved) return {};
+            // Entries saved by older versions lack the fields added since.
+            const parsed: Record<string, CachedSiteData> = JSON.parse(saved);
+            return Object.fromEntries(
+                Object.entries(parsed).map(([url, site]) => [url, { ...createSiteRecord(url), ...site }])
+            );
         } catch (e) {
             console.error("Failed to load cache", e);
             return {};
@@ -38,14 +87,7 @@ export default function App() {
 
   const updateCache = (url: string, data: Partial<CachedSiteData>) => {
       setSiteCache(prev => {
-          const existing = prev[url] || {
-              url,
-              title: new URL(url).hostname,
-              content: null,
-              status: SiteStatus.NORMAL,
-              chatHistory: [],
-              lastVisited: Date.now()
-          };
+          const existing = prev[url] || createSiteRecord(url);
           return { 
               ...prev, 
               [url]: { ...existing, ...data, lastVisited: Date.now() } 
@@ -53,6 +95,249 @@ export default function App() {
       });
   };
 
+  const getSiteRecord = (url: string): CachedSiteData => siteCache[url] || createSiteRecord(url);
+
+  // --- STATUS AUDIT ---
+  const appendAuditEntry = (url: string, entry: StatusAuditEntry) => {
+      setSiteCache(prev => {
+          const existing = prev[url] || createSiteRecord(url);
+          return { ...prev, [url]: { ...existing, auditLog: [...existing.auditLog, entry] } };
+      });
+  };
+
+  // Tells the inspector why an action is refused; true if it was.
+  const rejectTransition = (from: SiteStatus, to: SiteStatus, actor: StatusActor): boolean => {
+      const error = getTransitionError(from, to, actor);
+      if (error) alert(error);
+      return !!error;
+  };
+
+  // --- RESTRICTION RULES ---
+  const [rules, setRules] = useState<RestrictionRule[]>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_rules');
+            return saved ? JSON.parse(saved) : [];
+        } catch (e) {
+            console.error("Failed to load rules", e);
+        }
+    }
+    return [];
+  });
+
+  useEffect(() => {
+    localStorage.setItem('rkn_rules', JSON.stringify(rules));
+  }, [rules]);
+
+  // Actions pass the rule set they just wrote, since state updates land on the next render.
+  const getEffectiveStatus = (url: string, ruleSet: RestrictionRule[] = rules): SiteStatus =>
+    resolveSiteStatus(getSiteRecord(url).status, findMatchingRule(ruleSet, url));
+
+  const getBlockingMethod = (url: string, ruleSet: RestrictionRule[] = rules): BlockingMethod =>
+    findMatchingRule(ruleSet, url)?.method || DEFAULT_BLOCKING_METHOD;
+
+  const getThrottleLevel = (url: string, ruleSet: RestrictionRule[] = rules): ThrottleLevel =>
+    findMatchingRule(ruleSet, url)?.throttle || DEFAULT_THROTTLE_LEVEL;
+
+  const createRule = (target: Pick<RestrictionRule, 'kind' | 'pattern'>, status: SiteStatus, sourceUrl: string, settings: Pick<RestrictionRule, 'method' | 'throttle'> = {}): RestrictionRule => ({
+    ...target,
+    ...settings,
+    id: generateId(),
+    status,
+    sourceUrl,
+    createdAt: Date.now()
+  });
+
+  // Every host the inspector has seen so far, from visits and search results.
+  const getKnownHosts = (): string[] => Array.from(new Set(
+    [...Object.keys(siteCache), ...searchResults.map(r => r.url)].map(url => {
+        try {
+            return new URL(url).hostname;
+        } catch (e) {
+            return '';
+        }
+    }).filter(Boolean)
+  ));
+
+  // --- CAREER SCORE ---
+  const [career, setCareer] = useState<CareerScore>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_career');
+            return saved ? JSON.parse(saved) : createCareerScore();
+        } catch (e) {
+            console.error("Failed to load career", e);
+        }
+    }
+    return createCareerScore();
+  });
+
+  useEffect(() => {
+    localStorage.setItem('rkn_career', JSON.stringify(career));
+  }, [career]);
+
+  const isFired = getCareerOutcome(career) === 'FIRED';
+
+  // Bulk operations pass `quiet` and draw one round of coverage for the whole batch.
+  const recordScore = (event: ScoringEvent, { quiet = false }: { quiet?: boolean } = {}): ScoreChange => {
+    const change = scoreEvent(event);
+    setCareer(prev => applyScoreChange(prev, change));
+    if (event.type !== 'SHIFT_REPORT') {
+        recordShiftEvent(event);
+        if (!quiet) reactToEvent(event);
+    }
+    return change;
+  };
+
+  // --- CAMPAIGN ---
+  const [campaign, setCampaign] = useState<CampaignState>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_campaign');
+            return saved ? JSON.parse(saved) : createCampaignState();
+        } catch (e) {
+            console.error("Failed to load campaign", e);
+        }
+    }
+    return createCampaignState();
+  });
+  const [isStartingShift, setIsStartingShift] = useState(false);
+  const [shiftReport, setShiftReport] = useState<ShiftReport | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem('rkn_campaign', JSON.stringify(campaign));
+  }, [campaign]);
+
+  const recordShiftEvent = (event: Exclude<ScoringEvent, { type: 'SHIFT_REPORT' }>) => {
+    const shift = campaign.activeShift;
+    if (!shift) return;
+
+    if (event.type === 'VERDICT') {
+        if (event.verdict === 'OVERTURN') {
+            setCampaign(prev => recordShiftAction(prev, { url: event.site.url, action: 'OVERTURNED', verdict: 'OVERTURNED', timestamp: Date.now() }));
+        }
+        return;
+    }
+    // A broken promise is the owner's doing, not an action the inspector took this shift.
+    if (event.type === 'REINSTATED') return;
+
+    // For the directive a concession is compliance obtained by negotiation, like a removal.
+    const action = event.type === 'CONCESSION' ? 'CONTENT_REMOVED' : event.type;
+    const verdict = judgeShiftAction(shift.directive, event.site, action);
+    setCampaign(prev => recordShiftAction(prev, { url: event.site.url, action, verdict, timestamp: Date.now() }));
+  };
+
+  const handleStartShift = async () => {
+    setIsStartingShift(true);
+    const directive = getDirectiveForShift(campaign.nextShiftNumber);
+    const targets = await searchWeb(directive.searchQuery);
+    setCampaign(prev => startShift(prev, targets));
+    setIsStartingShift(false);
+  };
+
+  const handleFinishShift = () => {
+    if (!campaign.activeShift) return;
+    const finished = finishShift(campaign);
+    const report = finished.reports[0];
+    setCampaign(finished);
+    recordScore({ type: 'SHIFT_REPORT', report });
+    setShiftReport(report);
+  };
+
+  // The shift ends on its own once the time budget runs out.
+  useEffect(() => {
+    if (!campaign.activeShift) return;
+    const timer = setInterval(() => {
+        if (campaign.activeShift && getShiftTimeLeft(campaign.activeShift) === 0) handleFinishShift();
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [campaign.activeShift]);
+
+  // --- EVASION ---
+  const [evasion, setEvasion] = useState<EvasionState>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_evasion');
+            return saved ? JSON.parse(saved) : createEvasionState();
+        } catch (e) {
+            console.error("Failed to load evasion state", e);
+        }
+    }
+    return createEvasionState();
+  });
+  const [evasionClock, setEvasionClock] = useState(0);
+
+  useEffect(() => {
+    localStorage.setItem('rkn_evasion', JSON.stringify(evasion));
+  }, [evasion]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setEvasionClock(c => c + 1), EVASION_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Each tick runs against the latest state; owners of blocked sites respond in their own time.
+  useEffect(() => {
+    if (evasionClock === 0) return;
+
+    const candidates = [...rules.map(r => r.sourceUrl || ''), ...Object.keys(siteCache)].filter(Boolean);
+    const blockedOrigins = Array.from(new Set(
+        candidates
+            .filter(url => getEffectiveStatus(url) === SiteStatus.BLOCKED)
+            .map(url => resolveOrigin(evasion, url))
+    ));
+
+    const { state, newMirrors } = advanceEvasion(evasion, blockedOrigins);
+    setEvasion(state);
+    if (newMirrors.length > 0) {
+        setSiteCache(prev => ({
+            ...prev,
+            ...Object.fromEntries(newMirrors.map(m => [m.url, buildMirrorSite(m, prev[m.originUrl] || createSiteRecord(m.originUrl))]))
+        }));
+    }
+  }, [evasionClock]);
+
+  // Site owners, keyed by the host of the original site so mirrors answer as the same owner.
+  const [ownerProfiles, setOwnerProfiles] = useState<Record<string, OwnerProfile>>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_owner_profiles');
+            return saved ? JSON.parse(saved) : {};
+        } catch (e) {
+            console.error("Failed to load owner profiles", e);
+        }
+    }
+    return {};
+  });
+
+  useEffect(() => {
+    localStorage.setItem('rkn_owner_profiles', JSON.stringify(ownerProfiles));
+  }, [ownerProfiles]);
+
+  const getOwnerProfile = (url: string): OwnerProfile => {
+    const origin = resolveOrigin(evasion, url);
+    return ownerProfiles[new URL(origin).hostname] || createOwnerProfile(origin);
+  };
+
+  // Generating the profile on first contact fixes it for the rest of the game.
+  const ensureOwnerProfile = (url: string) => {
+    const origin = resolveOrigin(evasion, url);
+    const host = new URL(origin).hostname;
+    setOwnerProfiles(prev => prev[host] ? prev : { ...prev, [host]: createOwnerProfile(origin) });
+  };
+
+  const recordOwnerEvent = (url: string, kind: OwnerInteractionKind) => {
+    const origin = resolveOrigin(evasion, url);
+    const host = new URL(origin).hostname;
+    setOwnerProfiles(prev => ({ ...prev, [host]: recordOwnerInteraction(prev[host] || createOwnerProfile(origin), kind, url) }));
+  };
+
+  const handleTraceOrigin = () => {
+    const active = getActiveTab();
+    if (isInternalUrl(active.url)) return;
+    setEvasion(prev => traceMirror(prev, active.url));
+  };
+
   // --- BROWSER STATE ---
   const [tabs, setTabs] = useState<BrowserTab[]>([
     {
@@ -73,16 +358,333 @@ export default function App() {
   // Search State
   const [isSearching, setIsSearching] = useState(false);
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [hiddenResultCount, setHiddenResultCount] = useState(0);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchHistory, setSearchHistory] = useState<string[]>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_search_history');
+            return saved ? JSON.parse(saved) : [];
+        } catch (e) {
+            console.error("Failed to load search history", e);
+        }
+    }
+    return [];
+  });
+
+  useEffect(() => {
+    localStorage.setItem('rkn_search_history', JSON.stringify(searchHistory));
+  }, [searchHistory]);
+
+  // Domains the search engine no longer shows, at RKN's request
+  const [delisted, setDelisted] = useState<DelistedDomain[]>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_delisted');
+            return saved ? JSON.parse(saved) : [];
+        } catch (e) {
+            console.error("Failed to load delisted domains", e);
+        }
+    }
+    return [];
+  });
+
+  useEffect(() => {
+    localStorage.setItem('rkn_delisted', JSON.stringify(delisted));
+  }, [delisted]);
   
+  // Browsing history across all tabs
+  const [browsingHistory, setBrowsingHistory] = useState<HistoryEntry[]>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_history');
+            return saved ? JSON.parse(saved) : [];
+        } catch (e) {
+            console.error("Failed to load history", e);
+        }
+    }
+    return [];
+  });
+
+  useEffect(() => {
+    localStorage.setItem('rkn_history', JSON.stringify(browsingHistory));
+  }, [browsingHistory]);
+
   // Chat State
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [isChatTyping, setIsChatTyping] = useState(false);
 
   // Court State
-  const [isCourtOpen, setIsCourtOpen] = useState(false);
-  const [currentVerdict, setCurrentVerdict] = useState<CourtVerdict | null>(null);
+  const [courtCases, setCourtCases] = useState<CourtCase[]>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_court_cases');
+            if (!saved) return [];
+            // Cases saved before hearings were transcribed have no transcripts.
+            const parsed: CourtCase[] = JSON.parse(saved);
+            return parsed.map(c => ({
+                ...c,
+                transcript: c.transcript || [],
+                hearings: c.hearings.map(h => ({ ...h, transcript: h.transcript || [] }))
+            }));
+        } catch (e) {
+            console.error("Failed to load court cases", e);
+        }
+    }
+    return [];
+  });
+  const [activeCaseId, setActiveCaseId] = useState<string | null>(null);
   const [isCourtLoading, setIsCourtLoading] = useState(false);
 
+  useEffect(() => {
+    localStorage.setItem('rkn_court_cases', JSON.stringify(courtCases));
+  }, [courtCases]);
+
+  const activeCase = courtCases.find(c => c.id === activeCaseId) || null;
+
+  // Appeals the owners are still preparing; the inspector learns of them when they are filed.
+  const [scheduledAppeals, setScheduledAppeals] = useState<ScheduledAppeal[]>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_scheduled_appeals');
+            return saved ? JSON.parse(saved) : [];
+        } catch (e) {
+            console.error("Failed to load scheduled appeals", e);
+        }
+    }
+    return [];
+  });
+  const [appealClock, setAppealClock] = useState(0);
+  const [isDocketOpen, setIsDocketOpen] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem('rkn_scheduled_appeals', JSON.stringify(scheduledAppeals));
+  }, [scheduledAppeals]);
+
+  // Formal prescriptions issued to owners, in the order they were registered.
+  const [prescriptions, setPrescriptions] = useState<Prescription[]>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_prescriptions');
+            return saved ? JSON.parse(saved) : [];
+        } catch (e) {
+            console.error("Failed to load prescriptions", e);
+        }
+    }
+    return [];
+  });
+  const [isPrescriptionFormOpen, setIsPrescriptionFormOpen] = useState(false);
+  const [isPrescriptionListOpen, setIsPrescriptionListOpen] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem('rkn_prescriptions', JSON.stringify(prescriptions));
+  }, [prescriptions]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setAppealClock(c => c + 1), APPEAL_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Files complaints whose time has come and rules against RKN where it let the term run out.
+  useEffect(() => {
+    if (appealClock === 0) return;
+    const now = Date.now();
+
+    const due = scheduledAppeals.filter(a => a.fileAt <= now);
+    if (due.length > 0) {
+        setScheduledAppeals(prev => prev.filter(a => a.fileAt > now));
+        // A site unblocked in the meantime has nothing left to appeal.
+        const filed = due.filter(a =>
+            isWithinFilingWindow(a, now) &&
+            getEffectiveStatus(a.siteUrl) === SiteStatus.BLOCKED &&
+            !findOpenCase(courtCases, a.siteUrl)
+        );
+        const nextCases = filed.reduce((cases, appeal) => [
+            ...cases,
+            createCourtCase(cases, appeal.siteUrl, appeal.siteTitle, decideInterimAccess(getOwnerProfile(appeal.siteUrl), getSiteRecord(appeal.siteUrl).evidence.length))
+        ], courtCases);
+        setCourtCases(nextCases);
+        filed.forEach(appeal => fileAppeal(appeal, nextCases));
+    }
+
+    // Owners deliver on accepted offers when their term is up; unanswered ones lapse.
+    Object.keys(siteCache).forEach(url => {
+        const offer = getSiteRecord(url).counterOffer;
+        if (!offer || offer.deadline > now) return;
+        if (offer.status === 'ACCEPTED') {
+            const fulfilled: Partial<CachedSiteData> = { counterOffer: { ...offer, status: 'FULFILLED' } };
+            if (!applyContentRemoval(url, `Владелец выполнил встречное предложение: ${offer.terms}`, fulfilled)) {
+                updateCache(url, fulfilled);
+            }
+        } else if (offer.status === 'PENDING') {
+            updateCache(url, { counterOffer: { ...offer, status: 'EXPIRED' } });
+            noteOwnerConcession(url, 'Встречное предложение владельца осталось без ответа');
+        }
+    });
+
+    // Owners answer prescriptions on their own schedule; compliance is carried out on the spot.
+    const progressed = prescriptions
+        .map(p => ({ prescription: p, status: getPrescriptionProgress(p, now) }))
+        .filter(({ prescription, status }) => status !== prescription.status);
+    if (progressed.length > 0) {
+        setPrescriptions(prev => progressed.reduce((list, { prescription, status }) => updatePrescription(list, prescription.id, status), prev));
+        progressed.forEach(({ prescription, status }) => {
+            const { siteUrl, registryNumber } = prescription;
+            if (status === 'OVERDUE') {
+                noteOwnerConcession(siteUrl, `Предписание № ${registryNumber} не исполнено в установленный срок`);
+            } else if (status === 'COMPLIED' && prescription.requiredAction === 'RESTRICT_ACCESS') {
+                applyGeoBlock(siteUrl, `Владелец исполнил предписание № ${registryNumber}: доступ из России закрыт`);
+            } else if (status === 'COMPLIED') {
+                applyContentRemoval(siteUrl, `Владелец исполнил предписание № ${registryNumber}`);
+            }
+        });
+    }
+
+    // Rules change with every check, so only one page is revisited per tick.
+    const dueCheck = Object.keys(siteCache).find(url => {
+        const check = getSiteRecord(url).compliance;
+        return check?.status === 'PENDING' && check.dueAt <= now;
+    });
+    if (dueCheck) runComplianceCheck(dueCheck);
+
+    // A case the inspector is in court for is being attended, even if its hearing has not opened yet.
+    // Each ruling builds on the rules the previous one left, so no lifted block is lost.
+    findOverdueCases(courtCases, now).filter(c => c.id !== activeCaseId).reduce((ruleSet, courtCase) =>
+        resolveCourtCase(courtCase, 'OVERTURN', 'Суд: представитель РКН не явился в установленный срок, блокировка отменена', ruleSet),
+        rules
+    );
+  }, [appealClock]);
+
+  // Evidence State
+  const [isEvidenceMode, setIsEvidenceMode] = useState(false);
+
+  // Collateral Report State
+  const [isCollateralReportOpen, setIsCollateralReportOpen] = useState(false);
+
+  // Audit Log State
+  const [isAuditLogOpen, setIsAuditLogOpen] = useState(false);
+
+  // Compliance Diff State
+  const [isComplianceOpen, setIsComplianceOpen] = useState(false);
+
+  // Model Provider State
+  const [providerId, setProviderId] = useState<ModelProviderId>(() => getActiveProvider().id);
+
+  const handleProviderChange = (id: ModelProviderId) => {
+    setActiveProvider(id);
+    setProviderId(id);
+  };
+
+  // Bulk Enforcement State
+  const [bulkOperations, setBulkOperations] = useState<BulkOperation[]>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_bulk_operations');
+            return saved ? JSON.parse(saved) : [];
+        } catch (e) {
+            console.error("Failed to load bulk operations", e);
+        }
+    }
+    return [];
+  });
+  const [isBulkOpen, setIsBulkOpen] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem('rkn_bulk_operations', JSON.stringify(bulkOperations));
+  }, [bulkOperations]);
+
+  // News Feed State
+  const [newsFeed, setNewsFeed] = useState<NewsItem[]>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_news_feed');
+            return saved ? JSON.parse(saved) : [];
+        } catch (e) {
+            console.error("Failed to load news feed", e);
+        }
+    }
+    return [];
+  });
+  const [newsSeenAt, setNewsSeenAt] = useState<number>(() => {
+    if (typeof window !== 'undefined') {
+        return Number(localStorage.getItem('rkn_news_seen_at')) || 0;
+    }
+    return 0;
+  });
+  const [isNewsOpen, setIsNewsOpen] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem('rkn_news_feed', JSON.stringify(newsFeed));
+  }, [newsFeed]);
+
+  useEffect(() => {
+    localStorage.setItem('rkn_news_seen_at', String(newsSeenAt));
+  }, [newsSeenAt]);
+
+  // The press covers what the inspector did to a site; the coverage then moves public approval.
+  const getReactionRequest = (site: CachedSiteData, action: ReactionAction, blockedSites: number): ReactionRequest => ({
+    siteUrl: site.url,
+    siteTitle: site.title || new URL(site.url).hostname,
+    action,
+    popularity: estimatePopularity(site.url),
+    guilty: site.violations.length > 0,
+    priorActions: site.auditLog.filter(entry => entry.actor === 'INSPECTOR').length,
+    blockedSites
+  });
+
+  const publishReactions = async (request: ReactionRequest, reason: string) => {
+    const items = await generateReactions(request);
+    if (items.length === 0) return;
+
+    setNewsFeed(prev => appendNews(prev, items));
+    const approval = getReactionApproval(items);
+    if (approval !== 0) {
+        setCareer(prev => applyScoreChange(prev, { timestamp: Date.now(), reason, delta: { approval } }));
+    }
+  };
+
+  const reactToEvent = (event: Exclude<ScoringEvent, { type: 'SHIFT_REPORT' }>) => {
+    let action: ReactionAction;
+    if (event.type === 'VERDICT') {
+        if (event.verdict !== 'OVERTURN') return;
+        action = 'COURT_LOSS';
+    } else if (event.type === 'CONCESSION' || event.type === 'REINSTATED') {
+        return;
+    } else {
+        action = event.type;
+    }
+
+    // Scores are recorded before the new rule is saved, so a block counts itself in.
+    const blockedSites = rules.filter(rule => rule.status === SiteStatus.BLOCKED).length + (action === 'BLOCK' ? 1 : 0);
+    publishReactions(getReactionRequest(event.site, action, blockedSites), `Общественная реакция: ${new URL(event.site.url).hostname}`);
+  };
+
+  const handleOpenNews = () => {
+    setIsNewsOpen(true);
+    setNewsSeenAt(Date.now());
+  };
+
+  // Keyboard State
+  const [hotkeys, setHotkeys] = useState<HotkeyBindings>(() => {
+    if (typeof window !== 'undefined') {
+        try {
+            const saved = localStorage.getItem('rkn_hotkeys');
+            return saved ? mergeHotkeys(JSON.parse(saved)) : DEFAULT_HOTKEYS;
+        } catch (e) {
+            console.error("Failed to load hotkeys", e);
+            return DEFAULT_HOTKEYS;
+        }
+    }
+    return DEFAULT_HOTKEYS;
+  });
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [addressFocusRequest, setAddressFocusRequest] = useState(0);
+
+  useEffect(() => {
+    localStorage.setItem('rkn_hotkeys', JSON.stringify(hotkeys));
+  }, [hotkeys]);
+
   // --- TAB HELPERS ---
 
   const getActiveTab = () => tabs.find(t => t.id === activeTabId)!;
@@ -116,6 +718,7 @@ export default function App() {
 
   const handleCloseTab = (id: string) => {
     if (tabs.length === 1) return;
+    pageLoader.cancel(id);
     const newTabs = tabs.filter(t => t.id !== id);
     setTabs(newTabs);
     if (activeTabId === id) {
@@ -123,126 +726,130 @@ export default function App() {
     }
   };
 
-  const handleNavigate = async (url: string, newTabId?: string) => {
-    const targetTabId = newTabId || activeTabId;
-    const targetTab = tabs.find(t => t.id === targetTabId);
-    if (!targetTab) return;
-
-    if (url === 'about:home') {
-        updateTab(targetTabId, {
-            url: 'about:home',
-            title: 'Новая вкладка',
-            content: null,
-            error: null,
-            history: [...targetTab.history.slice(0, targetTab.historyIndex + 1), 'about:home'],
-            historyIndex: targetTab.historyIndex + 1
-        });
+  // --- PAGE LOADING ---
+
+  const [pageLoader] = useState(createPageLoader);
+
+  /**
+   * The single way a tab receives content. A newer load for the same tab
+   * supersedes this one, and anything it produces afterwards is dropped.
+   * Actions pass the site record and rules they just wrote, since state updates land on the next render.
+   */
+  const loadPage = async (tabId: string, url: string, options: { site?: CachedSiteData; ruleSet?: RestrictionRule[]; status?: SiteStatus; cases?: CourtCase[] } = {}) => {
+    const ticket = pageLoader.begin(tabId);
+
+    if (isInternalUrl(url)) {
+        const title = url === 'about:home' ? 'Новая вкладка' : INTERNAL_PAGES[url]?.title || url;
+        updateTab(tabId, { url, title, isLoading: false, content: null, error: null, blockingMethod: null, mediaLoad: null, status: SiteStatus.NORMAL });
         return;
     }
 
-    const cachedSite = siteCache[url];
-    
-    updateTab(targetTabId, {
+    ensureOwnerProfile(url);
+    const ruleSet = options.ruleSet || rules;
+    const site = options.site || getSiteRecord(url);
+    const status = options.status || resolveSiteStatus(site.status, findMatchingRule(ruleSet, url));
+
+    updateTab(tabId, {
         url,
-        title: cachedSite ? cachedSite.title : url,
+        title: site.title,
         isLoading: true,
         error: null,
-        status: cachedSite ? cachedSite.status : SiteStatus.NORMAL,
-        chatHistory: cachedSite ? cachedSite.chatHistory : [],
-        history: [...targetTab.history.slice(0, targetTab.historyIndex + 1), url],
-        historyIndex: targetTab.historyIndex + 1
+        blockingMethod: null,
+        mediaLoad: null,
+        status,
+        chatHistory: site.chatHistory
     });
 
-    setIsChatOpen(false);
-
-    const currentStatus = cachedSite ? cachedSite.status : SiteStatus.NORMAL;
-    const isBlocked = currentStatus === SiteStatus.BLOCKED;
-    const isSlowed = currentStatus === SiteStatus.SLOWED;
+    // Under appeal the block holds unless the court granted access as an interim measure.
+    const isUnreachable = status === SiteStatus.BLOCKED
+        || (status === SiteStatus.UNDER_APPEAL && !findOpenCase(options.cases || courtCases, url)?.interimAccess);
+    if (isUnreachable) {
+        const method = getBlockingMethod(url, ruleSet);
+        // No method stops everyone; a leaking block lets the page through, marked as such.
+        if (status !== SiteStatus.BLOCKED || !isBlockLeaking(method)) {
+            if (await pageLoader.wait(tabId, ticket, BLOCKING_METHODS[method].delayMs)) {
+                updateTab(tabId, { isLoading: false, error: BLOCKING_METHODS[method].errorCode, blockingMethod: method });
+            }
+            return;
+        }
+        updateTab(tabId, { blockingMethod: method });
+    }
 
-    if (isBlocked) {
-        setTimeout(() => {
-            updateTab(targetTabId, {
-                isLoading: false,
-                error: 'ERR_CONNECTION_RESET'
-            });
-        }, 800);
+    if (site.geoBlocked) {
+        if (await pageLoader.wait(tabId, ticket, getLoadDelay(true))) {
+            updateTab(tabId, { isLoading: false, error: GEO_BLOCK_ERROR });
+        }
         return;
     }
 
-    if (cachedSite && cachedSite.content) {
-        setTimeout(() => {
-            updateTab(targetTabId, {
-                isLoading: false,
-                content: cachedSite.content,
-                title: cachedSite.title
-            });
-        }, isSlowed ? 5000 : 300);
-        return;
+    const startedAt = Date.now();
+    let html = site.content;
+    let title = site.title;
+
+    if (!html) {
+        try {
+            title = new URL(url).hostname;
+            // The owner's removal is a fact about the page, whatever rule now covers it.
+            const page = await pageLoader.generate(url, title, site.status === SiteStatus.CONTENT_REMOVED);
+            html = page.html;
+            updateCache(url, { content: html, violations: page.violations, title });
+        } catch (e) {
+            if (pageLoader.isCurrent(tabId, ticket)) {
+                updateTab(tabId, { isLoading: false, error: 'ERR_CONNECTION_TIMED_OUT' });
+            }
+            return;
+        }
     }
 
-    const delay = isSlowed ? 15000 : 1000;
+    // Time spent generating counts towards the load delay.
+    const readyAt = startedAt + getLoadDelay(!!site.content);
 
-    try {
-        const title = new URL(url).hostname;
-        const html = await generatePageContent(url, title, currentStatus === SiteStatus.CONTENT_REMOVED);
-        
-        updateCache(url, {
-            content: html,
-            title: title,
-            status: SiteStatus.NORMAL 
-        });
+    if (status !== SiteStatus.SLOWED) {
+        if (await pageLoader.wait(tabId, ticket, Math.max(0, readyAt - Date.now()))) {
+            updateTab(tabId, { isLoading: false, content: html, title });
+        }
+        return;
+    }
+
+    // Over a throttled line the text arrives first and media trickles in after it.
+    const plan = planThrottledLoad(url, html, getThrottleLevel(url, ruleSet));
+    // The media strip stays up while blocks are in flight or after some have timed out.
+    const mediaLoadAfter = (arrived: number) => {
+        const progress = getMediaProgress(plan, arrived);
+        return progress.loaded === progress.total ? null : progress;
+    };
 
-        setTimeout(() => {
-            updateTab(targetTabId, {
-                isLoading: false,
-                content: html,
-                title: title
-            });
-        }, delay);
+    if (!await pageLoader.wait(tabId, ticket, Math.max(0, readyAt + plan.textMs - Date.now()))) return;
+    updateTab(tabId, { isLoading: false, content: renderPartialPage(html, plan, 0), title, mediaLoad: mediaLoadAfter(0) });
 
-    } catch (e) {
-        setTimeout(() => {
-            updateTab(targetTabId, {
-                isLoading: false,
-                error: 'ERR_CONNECTION_TIMED_OUT'
-            });
-        }, 1000);
+    const arrivals = plan.mediaMs.filter((ms): ms is number => ms !== null);
+    for (let i = 0; i < arrivals.length; i++) {
+        if (!await pageLoader.wait(tabId, ticket, Math.max(0, readyAt + arrivals[i] - Date.now()))) return;
+        updateTab(tabId, { content: renderPartialPage(html, plan, i + 1), mediaLoad: mediaLoadAfter(i + 1) });
     }
   };
 
-  const reloadTab = async () => {
-      const tab = getActiveTab();
-      if (tab.url === 'about:home') return;
-      
-      const cachedSite = siteCache[tab.url];
-      const currentStatus = cachedSite ? cachedSite.status : tab.status;
-
-      updateActiveTab({ isLoading: true, error: null, status: currentStatus });
-      
-      const isBlocked = currentStatus === SiteStatus.BLOCKED;
-      const isSlowed = currentStatus === SiteStatus.SLOWED;
+  const handleNavigate = (url: string, newTabId?: string) => {
+    const targetTabId = newTabId || activeTabId;
+    const targetTab = tabs.find(t => t.id === targetTabId);
+    if (!targetTab) return Promise.resolve();
 
-      if (isBlocked) {
-          setTimeout(() => updateActiveTab({ isLoading: false, error: 'ERR_CONNECTION_RESET' }), 800);
-          return;
-      }
+    updateTab(targetTabId, {
+        history: [...targetTab.history.slice(0, targetTab.historyIndex + 1), url],
+        historyIndex: targetTab.historyIndex + 1
+    });
+    if (!isInternalUrl(url)) {
+        setIsChatOpen(false);
+        setBrowsingHistory(prev => appendHistory(prev, { url, title: getSiteRecord(url).title, tabId: targetTabId, visitedAt: Date.now() }));
+    }
 
-      if (cachedSite && cachedSite.content) {
-          setTimeout(() => {
-              updateActiveTab({ isLoading: false, content: cachedSite.content });
-          }, isSlowed ? 5000 : 500);
-          return;
-      }
+    return loadPage(targetTabId, url);
+  };
 
-      try {
-        const html = await generatePageContent(tab.url, new URL(tab.url).hostname, currentStatus === SiteStatus.CONTENT_REMOVED);
-        updateCache(tab.url, { content: html });
-        setTimeout(() => {
-            updateActiveTab({ isLoading: false, content: html });
-        }, isSlowed ? 15000 : 1000);
-      } catch (e) {
-          updateActiveTab({ isLoading: false, error: 'ERR_FAILED' });
-      }
+  const reloadTab = () => {
+    const tab = getActiveTab();
+    if (isInternalUrl(tab.url)) return;
+    loadPage(tab.id, tab.url);
   };
 
   const handleSearch = async (query: string) => {
@@ -253,8 +860,12 @@ export default function App() {
     }
     
     setSearchResults([]);
+    setSearchQuery(query);
+    setSearchHistory(prev => recordQuery(prev, query));
     const data = await searchWeb(query);
-    setSearchResults(data);
+    const { visible, hiddenCount } = filterDelisted(injectMirrorResults(data, evasion, siteCache, query), delisted);
+    setSearchResults(visible);
+    setHiddenResultCount(hiddenCount);
     setIsSearching(false);
   };
 
@@ -262,13 +873,8 @@ export default function App() {
     const tab = getActiveTab();
     if (tab.historyIndex > 0) {
         const newIndex = tab.historyIndex - 1;
-        const prevUrl = tab.history[newIndex];
-        updateActiveTab({ historyIndex: newIndex, url: prevUrl });
-        if (prevUrl === 'about:home') {
-            updateActiveTab({ content: null, error: null, title: 'Новая вкладка' });
-        } else {
-            reloadContentForUrl(prevUrl, tab.id);
-        }
+        updateActiveTab({ historyIndex: newIndex });
+        loadPage(tab.id, tab.history[newIndex]);
     }
   };
 
@@ -276,119 +882,599 @@ export default function App() {
     const tab = getActiveTab();
     if (tab.historyIndex < tab.history.length - 1) {
         const newIndex = tab.historyIndex + 1;
-        const nextUrl = tab.history[newIndex];
-        updateActiveTab({ historyIndex: newIndex, url: nextUrl });
-        if (nextUrl === 'about:home') {
-            updateActiveTab({ content: null, error: null, title: 'Новая вкладка' });
-        } else {
-            reloadContentForUrl(nextUrl, tab.id);
-        }
+        updateActiveTab({ historyIndex: newIndex });
+        loadPage(tab.id, tab.history[newIndex]);
     }
   };
 
-  const reloadContentForUrl = async (url: string, tabId: string) => {
-     const tab = tabs.find(t => t.id === tabId);
-     if (!tab) return;
-     
-     const cachedSite = siteCache[url];
-     const currentStatus = cachedSite ? cachedSite.status : tab.status;
-
-     updateTab(tabId, { isLoading: true, error: null, status: currentStatus });
-     
-     if (currentStatus === SiteStatus.BLOCKED) {
-         setTimeout(() => updateTab(tabId, { isLoading: false, error: 'ERR_CONNECTION_RESET' }), 500);
-         return;
-     }
-
-     if (cachedSite && cachedSite.content) {
-         setTimeout(() => {
-             updateTab(tabId, { isLoading: false, content: cachedSite.content, title: cachedSite.title });
-         }, currentStatus === SiteStatus.SLOWED ? 5000 : 200);
-         return;
-     }
+  // --- RKN ACTIONS ---
 
-     try {
-         const html = await generatePageContent(url, new URL(url).hostname, currentStatus === SiteStatus.CONTENT_REMOVED);
-         updateCache(url, { content: html });
-         setTimeout(() => {
-             updateTab(tabId, { isLoading: false, content: html, title: new URL(url).hostname });
-         }, currentStatus === SiteStatus.SLOWED ? 15000 : 1000);
-     } catch (e) {
-         updateTab(tabId, { isLoading: false, error: 'ERR_LOAD' });
-     }
+  // Visited sites other than the targets whose status a rule change moves get it on record.
+  const noteBystanders = (urls: string[], nextRules: RestrictionRule[], reason: string) => {
+    Object.keys(siteCache)
+      .filter(url => !urls.includes(url))
+      .forEach(url => {
+        const from = getEffectiveStatus(url);
+        const to = getEffectiveStatus(url, nextRules);
+        if (from === to || getTransitionError(from, to, 'SYSTEM')) return;
+        appendAuditEntry(url, createAuditEntry(from, to, 'SYSTEM', reason));
+      });
   };
 
-  // --- RKN ACTIONS ---
+  const handleBlock = (target: Pick<RestrictionRule, 'kind' | 'pattern'>, method: BlockingMethod) => {
+    const active = getActiveTab();
+    if(isInternalUrl(active.url) || isFired) return;
+
+    const site = getSiteRecord(active.url);
+
+    // Routers drop packets by address, so an IP block can never be narrower than one address.
+    const isAddressRule = target.kind === 'IP_ADDRESS' || target.kind === 'SUBNET';
+    const effectiveTarget = method === BlockingMethod.IP && !isAddressRule
+        ? { kind: 'IP_ADDRESS' as const, pattern: site.hosting.ip }
+        : target;
+
+    const host = new URL(active.url).hostname;
+    const collateralHosts = effectiveTarget.kind === 'IP_ADDRESS' || effectiveTarget.kind === 'SUBNET'
+        ? findCoHostedSites(getKnownHosts(), effectiveTarget.kind === 'IP_ADDRESS' ? { ip: effectiveTarget.pattern } : { subnet: effectiveTarget.pattern })
+            .filter(h => h !== host)
+        : [];
+
+    const nextRules = upsertRule(rules, createRule(effectiveTarget, SiteStatus.BLOCKED, active.url, { method }));
+    const previousStatus = getEffectiveStatus(active.url);
+    const blockedStatus = getEffectiveStatus(active.url, nextRules);
+    if (rejectTransition(previousStatus, blockedStatus, 'INSPECTOR')) return;
+
+    recordScore({ type: 'BLOCK', site, method, collateralHosts, vpnAdoption: evasion.vpnAdoption, prescriptionOverdue: hasOverduePrescription(prescriptions, active.url) });
+    setEvasion(prev => registerBlock(prev, active.url));
+    setRules(nextRules);
+    appendAuditEntry(active.url, createAuditEntry(
+        previousStatus,
+        blockedStatus,
+        'INSPECTOR',
+        `Блокировка (${RULE_KIND_LABELS[effectiveTarget.kind]}: ${effectiveTarget.pattern}), метод: ${BLOCKING_METHODS[method].label}`,
+        citeEvidenceLaws(site)
+    ));
+
+    // Neighbours on the same address or under the same pattern go dark with it.
+    noteBystanders([active.url], nextRules, `Попал под блокировку (${RULE_KIND_LABELS[effectiveTarget.kind]}: ${effectiveTarget.pattern}), выставленную против ${host}`);
+
+    // The owner's lawyers need time; the complaint arrives later, if at all.
+    recordOwnerEvent(active.url, 'BLOCK');
+    const appeal = blockedStatus === SiteStatus.BLOCKED ? planAppeal(getOwnerProfile(active.url), active.url, site.title) : null;
+    if (appeal) setScheduledAppeals(prev => scheduleAppeal(prev, appeal));
+
+    updateActiveTab({ status: blockedStatus });
+    loadPage(active.id, active.url, { status: blockedStatus, ruleSet: nextRules });
+  };
 
-  const handleBlock = () => {
+  // Delisting leaves the site reachable; it only stops turning up in search.
+  const handleToggleDelisting = () => {
     const active = getActiveTab();
-    if(active.url === 'about:home') return;
+    if (isInternalUrl(active.url) || isFired) return;
+
+    const site = getSiteRecord(active.url);
+    const host = new URL(active.url).hostname;
+    const status = getEffectiveStatus(active.url);
+    if (isDelisted(delisted, active.url)) {
+        setDelisted(prev => relistDomain(prev, active.url));
+        appendAuditEntry(active.url, createAuditEntry(status, status, 'INSPECTOR', `Домен ${host} возвращен в поисковую выдачу`));
+        return;
+    }
 
-    // 40% chance of appeal immediately on block
-    const willAppeal = Math.random() < 0.4;
-    const newStatus = willAppeal ? SiteStatus.UNDER_APPEAL : SiteStatus.BLOCKED;
+    setDelisted(prev => delistDomain(prev, active.url));
+    recordScore({ type: 'DELIST', site });
+    appendAuditEntry(active.url, createAuditEntry(status, status, 'INSPECTOR', `Домен ${host} исключен из поисковой выдачи`, citeEvidenceLaws(site)));
+    recordOwnerEvent(active.url, 'DELISTED');
+  };
+
+  const handleSlow = (target: Pick<RestrictionRule, 'kind' | 'pattern'>, throttle: ThrottleLevel) => {
+    const active = getActiveTab();
+    if(isInternalUrl(active.url) || isFired) return;
+
+    const nextRules = upsertRule(rules, createRule(target, SiteStatus.SLOWED, active.url, { throttle }));
+    const previousStatus = getEffectiveStatus(active.url);
+    const newStatus = getEffectiveStatus(active.url, nextRules);
+    if (rejectTransition(previousStatus, newStatus, 'INSPECTOR')) return;
+
+    const site = getSiteRecord(active.url);
+    recordScore({ type: 'SLOW', site, throttle });
+    recordOwnerEvent(active.url, 'SLOWDOWN');
+    setRules(nextRules);
+    appendAuditEntry(active.url, createAuditEntry(
+        previousStatus,
+        newStatus,
+        'INSPECTOR',
+        `Замедление на ${throttle}% (${RULE_KIND_LABELS[target.kind]}: ${target.pattern})`,
+        citeEvidenceLaws(site)
+    ));
+    noteBystanders([active.url], nextRules, `Попал под замедление (${RULE_KIND_LABELS[target.kind]}: ${target.pattern}), выставленное против ${new URL(active.url).hostname}`);
 
-    updateCache(active.url, { status: newStatus });
     updateActiveTab({ status: newStatus });
-    reloadContentForUrl(active.url, active.id);
-    
-    if (willAppeal) {
-        alert("Владелец сайта подал экстренную апелляцию в Верховный Цифровой Суд!");
-    }
+    loadPage(active.id, active.url, { status: newStatus, ruleSet: nextRules });
   };
 
-  const handleSlow = () => {
+  const handleUnrestrict = () => {
     const active = getActiveTab();
-    if(active.url === 'about:home') return;
+    if(isInternalUrl(active.url) || isFired) return;
+
+    // Lifts the rule shown in the panel; a broader rule may still apply afterwards.
+    const matched = findMatchingRule(rules, active.url);
+    const nextRules = matched ? removeRule(rules, matched.id) : rules;
+
+    const site = getSiteRecord(active.url);
+    // Sites restricted before the rule engine carry the restriction in their own status.
+    const siteStatus = site.status === SiteStatus.BLOCKED || site.status === SiteStatus.SLOWED ? SiteStatus.NORMAL : site.status;
+    const previousStatus = getEffectiveStatus(active.url);
+    const newStatus = resolveSiteStatus(siteStatus, findMatchingRule(nextRules, active.url));
+    if (rejectTransition(previousStatus, newStatus, 'INSPECTOR')) return;
+
+    recordScore({ type: 'UNRESTRICT', site });
+    setRules(nextRules);
+    if (siteStatus !== site.status) updateCache(active.url, { status: siteStatus });
+    appendAuditEntry(active.url, createAuditEntry(
+        previousStatus,
+        newStatus,
+        'INSPECTOR',
+        matched ? `Снято правило (${RULE_KIND_LABELS[matched.kind]}: ${matched.pattern})` : 'Сняты ограничения доступа'
+    ));
+    if (matched) noteBystanders([active.url], nextRules, `Снято правило (${RULE_KIND_LABELS[matched.kind]}: ${matched.pattern}), действовавшее и на этот ресурс`);
 
-    updateCache(active.url, { status: SiteStatus.SLOWED });
-    updateActiveTab({ status: SiteStatus.SLOWED });
-    reloadContentForUrl(active.url, active.id);
+    updateActiveTab({ status: newStatus });
+    loadPage(active.id, active.url, { status: newStatus, ruleSet: nextRules });
   };
 
-  const handleUnrestrict = () => {
+  // --- EVIDENCE ---
+
+  const handleCaptureEvidence = (capture: EvidenceCapture) => {
     const active = getActiveTab();
-    if(active.url === 'about:home') return;
+    if (isInternalUrl(active.url)) return;
 
-    updateCache(active.url, { status: SiteStatus.NORMAL });
-    updateActiveTab({ status: SiteStatus.NORMAL });
-    reloadContentForUrl(active.url, active.id);
+    const item: EvidenceItem = {
+        ...capture,
+        id: generateId(),
+        url: active.url,
+        capturedAt: Date.now()
+    };
+    updateCache(active.url, { evidence: [...getSiteRecord(active.url).evidence, item] });
   };
 
   // --- COURT ACTIONS ---
 
+  const buildCaseFile = (courtCase: CourtCase, instance: CourtInstance, transcript: HearingTurn[]): CourtCaseFile => {
+    const site = getSiteRecord(courtCase.siteUrl);
+    return {
+        siteTitle: courtCase.siteTitle,
+        siteUrl: courtCase.siteUrl,
+        siteContent: site.content || "Empty content",
+        chatHistory: site.chatHistory,
+        evidence: site.evidence,
+        instance,
+        priorHearings: courtCase.hearings,
+        transcript,
+        owner: getOwnerProfile(courtCase.siteUrl),
+        prescriptions: prescriptions.filter(p => p.siteUrl === courtCase.siteUrl && p.status !== 'WITHDRAWN')
+    };
+  };
+
+  // Opens the hearing at the next instance up with the lawyer's opening argument.
+  const openHearing = async (courtCase: CourtCase) => {
+    const instance = getNextInstance(courtCase);
+    if (!instance) return;
+
+    setIsCourtLoading(true);
+    const turns = await conductHearing(buildCaseFile(courtCase, instance, []));
+    setCourtCases(prev => setCaseTranscript(prev, courtCase.id, turns));
+    setIsCourtLoading(false);
+  };
+
+  // After the inspector's closing statement the judge retires and the ruling is filed.
+  const handleHearingStatement = async (text: string, evidenceId: string | null, isClosing: boolean) => {
+    if (!activeCase) return;
+    const instance = getNextInstance(activeCase);
+    if (!instance) return;
+
+    const transcript = [...activeCase.transcript, createHearingTurn('INSPECTOR', text, evidenceId, isClosing)];
+    setCourtCases(prev => setCaseTranscript(prev, activeCase.id, transcript));
+    setIsCourtLoading(true);
+
+    const reply = await conductHearing(buildCaseFile(activeCase, instance, transcript));
+    const fullTranscript = [...transcript, ...reply];
+    setCourtCases(prev => setCaseTranscript(prev, activeCase.id, fullTranscript));
+    if (!isClosing) {
+        setIsCourtLoading(false);
+        return;
+    }
+
+    const verdict = await judgeCourtCase(buildCaseFile(activeCase, instance, fullTranscript));
+    setCourtCases(prev => recordHearing(prev, activeCase.id, {
+        instance,
+        verdict,
+        transcript: fullTranscript,
+        ownerWillEscalate: verdict.verdict === 'UPHOLD' && decideOwnerEscalation(getOwnerProfile(activeCase.siteUrl), instance),
+        decidedAt: Date.now()
+    }));
+    setIsCourtLoading(false);
+  };
+
+  const fileAppeal = (appeal: ScheduledAppeal, cases: CourtCase[]) => {
+    const courtCase = findOpenCase(cases, appeal.siteUrl);
+    const site = { ...getSiteRecord(appeal.siteUrl), status: SiteStatus.UNDER_APPEAL };
+    updateCache(appeal.siteUrl, { status: SiteStatus.UNDER_APPEAL });
+    appendAuditEntry(appeal.siteUrl, createAuditEntry(
+        SiteStatus.BLOCKED,
+        SiteStatus.UNDER_APPEAL,
+        'OWNER',
+        courtCase?.interimAccess
+            ? `Владелец обжаловал блокировку (дело №${courtCase.caseNumber}); суд восстановил доступ до вынесения решения`
+            : `Владелец обжаловал блокировку в суде${courtCase ? ` (дело №${courtCase.caseNumber})` : ''}`
+    ));
+    recordOwnerEvent(appeal.siteUrl, 'APPEAL');
+    tabs.filter(t => t.url === appeal.siteUrl).forEach(t => loadPage(t.id, appeal.siteUrl, { site, status: SiteStatus.UNDER_APPEAL, cases }));
+  };
+
+  const openCourtCase = async (courtCase: CourtCase) => {
+    setIsDocketOpen(false);
+    setActiveCaseId(courtCase.id);
+    // A case left between hearings resumes at the instance it reached.
+    if (courtCase.hearings.length === 0 && courtCase.transcript.length === 0) await openHearing(courtCase);
+  };
+
   const handleOpenCourt = async () => {
     const active = getActiveTab();
     if (active.status !== SiteStatus.UNDER_APPEAL) return;
 
-    setIsCourtOpen(true);
-    setIsCourtLoading(true);
-    setCurrentVerdict(null);
+    const existing = findOpenCase(courtCases, active.url);
+    const courtCase = existing || createCourtCase(courtCases, active.url, active.title);
+    if (!existing) setCourtCases(prev => [...prev, courtCase]);
+    await openCourtCase(courtCase);
+  };
 
-    const verdict = await judgeCourtCase(
-        active.title, 
-        active.content || "Empty content", 
-        active.chatHistory
-    );
+  const handleEscalate = async () => {
+    if (activeCase) await openHearing(activeCase);
+  };
 
-    setCurrentVerdict(verdict);
-    setIsCourtLoading(false);
+  // Executes a final ruling: the block stays or goes, and every tab showing the site reloads.
+  // Returns the rules after the ruling, for callers resolving several cases at once.
+  const resolveCourtCase = (courtCase: CourtCase, finalVerdict: 'UPHOLD' | 'OVERTURN', reason: string, ruleSet: RestrictionRule[] = rules): RestrictionRule[] => {
+    const url = courtCase.siteUrl;
+    const matched = findMatchingRule(ruleSet, url);
+    const isBlockedByRule = matched?.status === SiteStatus.BLOCKED;
+
+    let nextRules = ruleSet;
+    if (finalVerdict === 'UPHOLD' && !isBlockedByRule) {
+        nextRules = upsertRule(ruleSet, createRule({ kind: 'EXACT_URL', pattern: url }, SiteStatus.BLOCKED, url, { method: DEFAULT_BLOCKING_METHOD }));
+    } else if (finalVerdict === 'OVERTURN' && matched && isBlockedByRule) {
+        nextRules = removeRule(ruleSet, matched.id);
+    }
+    setRules(nextRules);
+
+    const site = getSiteRecord(url);
+    const newStatus = resolveSiteStatus(SiteStatus.NORMAL, findMatchingRule(nextRules, url));
+    recordScore({ type: 'VERDICT', verdict: finalVerdict, site });
+    updateCache(url, { status: SiteStatus.NORMAL });
+    appendAuditEntry(url, createAuditEntry(SiteStatus.UNDER_APPEAL, newStatus, 'COURT', reason, citeEvidenceLaws(site)));
+    setCourtCases(prev => closeCourtCase(prev, courtCase.id, finalVerdict));
+    recordOwnerEvent(url, finalVerdict === 'OVERTURN' ? 'COURT_WIN' : 'COURT_LOSS');
+
+    tabs.filter(t => t.url === url).forEach(t => loadPage(t.id, url, { site: { ...site, status: SiteStatus.NORMAL }, status: newStatus, ruleSet: nextRules }));
+    return nextRules;
   };
 
   const handleCourtClose = (finalVerdict: 'UPHOLD' | 'OVERTURN') => {
+    if (!activeCase) return;
+    const lastHearing = getLastHearing(activeCase);
+    resolveCourtCase(
+        activeCase,
+        finalVerdict,
+        `${lastHearing ? `${COURT_INSTANCES[lastHearing.instance].title}, ${lastHearing.verdict.judgeName}` : 'Суд'}: ${finalVerdict === 'UPHOLD' ? 'блокировка признана законной' : 'блокировка отменена'}`
+    );
+    setActiveCaseId(null);
+  };
+
+  // The owner's promise only counts if the site is in a state where content can still come down.
+  const applyContentRemoval = (url: string, reason: string, extra: Partial<CachedSiteData> = {}): boolean => {
+    const previousStatus = getEffectiveStatus(url);
+    const removedStatus = resolveSiteStatus(SiteStatus.CONTENT_REMOVED, findMatchingRule(rules, url));
+    if (getTransitionError(previousStatus, removedStatus, 'OWNER')) return false;
+
+    const site = getSiteRecord(url);
+    recordScore({ type: 'CONTENT_REMOVED', site });
+    appendAuditEntry(url, createAuditEntry(previousStatus, removedStatus, 'OWNER', reason, citeEvidenceLaws(site)));
+    recordOwnerEvent(url, 'CONTENT_REMOVED');
+
+    const updates: Partial<CachedSiteData> = {
+      ...extra,
+      status: SiteStatus.CONTENT_REMOVED,
+      content: null,
+      compliance: site.content ? createComplianceCheck(site.content, site.violations) : site.compliance
+    };
+    updateCache(url, updates);
+    tabs.filter(t => t.url === url).forEach(t => loadPage(t.id, url, { site: { ...site, ...updates }, status: removedStatus }));
+    return true;
+  };
+
+  // Records something the owner did that leaves the site's status as it was.
+  const noteOwnerConcession = (url: string, reason: string) => {
+    const status = getEffectiveStatus(url);
+    appendAuditEntry(url, createAuditEntry(status, status, 'OWNER', reason));
+  };
+
+  /**
+   * Revisits a page the owner promised to clean up. Material found back on it
+   * voids the agreement and the site is blocked without waiting for the inspector.
+   */
+  const runComplianceCheck = (url: string) => {
+    const site = getSiteRecord(url);
+    const check = site.compliance;
+    if (!check) return;
+
+    const owner = getOwnerProfile(url);
+    if (!decideReinstatement(owner)) {
+        updateCache(url, { compliance: completeComplianceCheck(check, site.content ?? '', false) });
+        noteOwnerConcession(url, 'Проверка исполнения: удаленные материалы не восстановлены');
+        return;
+    }
+
+    const restored: Partial<CachedSiteData> = {
+        content: check.snapshot,
+        violations: check.snapshotViolations,
+        compliance: completeComplianceCheck(check, check.snapshot, true)
+    };
+    recordOwnerEvent(url, 'REINSTATED');
+
+    const nextRules = upsertRule(rules, createRule({ kind: 'EXACT_URL', pattern: url }, SiteStatus.BLOCKED, url, { method: DEFAULT_BLOCKING_METHOD }));
+    const previousStatus = getEffectiveStatus(url);
+    const blockedStatus = getEffectiveStatus(url, nextRules);
+    // A site already in court keeps its status; the finding still goes on record.
+    if (getTransitionError(previousStatus, blockedStatus, 'SYSTEM')) {
+        updateCache(url, restored);
+        noteOwnerConcession(url, 'Проверка исполнения: владелец вернул удаленные материалы');
+        return;
+    }
+
+    const updates: Partial<CachedSiteData> = { ...restored, status: SiteStatus.NORMAL };
+    const reinstated = { ...site, ...updates };
+    updateCache(url, updates);
+    setRules(nextRules);
+    setEvasion(prev => registerBlock(prev, url));
+    appendAuditEntry(url, createAuditEntry(
+        previousStatus,
+        blockedStatus,
+        'SYSTEM',
+        'Проверка исполнения: владелец вернул удаленные материалы, доступ ограничен автоматически',
+        citeEvidenceLaws(site)
+    ));
+    recordScore({ type: 'REINSTATED', site: reinstated });
+    const appeal = planAppeal(owner, url, site.title);
+    if (appeal) setScheduledAppeals(prev => scheduleAppeal(prev, appeal));
+
+    tabs.filter(t => t.url === url).forEach(t => loadPage(t.id, url, { site: reinstated, status: blockedStatus, ruleSet: nextRules }));
+  };
+
+  const applyGeoBlock = (url: string, reason: string) => {
+    const site = getSiteRecord(url);
+    updateCache(url, { geoBlocked: true });
+    noteOwnerConcession(url, reason);
+    recordScore({ type: 'CONCESSION', site, concession: 'GEO_BLOCK' });
+    recordOwnerEvent(url, 'GEO_BLOCK');
+    tabs.filter(t => t.url === url).forEach(t => loadPage(t.id, url, { site: { ...site, geoBlocked: true } }));
+  };
+
+  const applyNegotiationOutcome = (tabId: string, url: string, outcome: NegotiationOutcome) => {
+    const site = getSiteRecord(url);
+    switch (outcome.kind) {
+      case 'FULL_REMOVAL':
+        applyContentRemoval(url, 'Владелец удалил спорные материалы по требованию инспектора');
+        return;
+      case 'PARTIAL_REMOVAL': {
+        const violations = site.violations.filter(v => !outcome.removedElementIds.includes(v.elementId));
+        if (violations.length === 0) {
+          applyContentRemoval(url, 'Владелец удалил спорные материалы по требованию инспектора');
+          return;
+        }
+        const updates: Partial<CachedSiteData> = {
+          violations,
+          content: site.content ? removeElements(site.content, outcome.removedElementIds) : null,
+          compliance: site.content ? createComplianceCheck(site.content, site.violations) : site.compliance
+        };
+        updateCache(url, updates);
+        noteOwnerConcession(url, `Владелец удалил часть материалов (${outcome.removedElementIds.length} из ${site.violations.length})`);
+        recordScore({ type: 'CONCESSION', site, concession: 'PARTIAL_REMOVAL' });
+        recordOwnerEvent(url, 'PARTIAL_REMOVAL');
+        loadPage(tabId, url, { site: { ...site, ...updates } });
+        return;
+      }
+      case 'GEO_BLOCK':
+        applyGeoBlock(url, 'Владелец закрыл доступ к сайту для пользователей из России');
+        return;
+      case 'COUNTER_OFFER':
+        updateCache(url, { counterOffer: createCounterOffer(outcome.offerTerms || '') });
+        noteOwnerConcession(url, `Владелец выдвинул встречное предложение: ${outcome.offerTerms}`);
+        recordOwnerEvent(url, 'COUNTER_OFFER');
+        return;
+      case 'LAWYER_THREAT':
+        noteOwnerConcession(url, 'Владелец отказался выполнять требование и пригрозил судом');
+        recordOwnerEvent(url, 'LAWYER_THREAT');
+        return;
+      case 'LEGAL_BASIS_REQUEST':
+        updateCache(url, { legalBasisRequested: true });
+        noteOwnerConcession(url, 'Владелец запросил правовое основание требования');
+        return;
+    }
+  };
+
+  const handleIssuePrescription = (lawArticle: string, requiredAction: PrescriptionAction, term: number) => {
     const active = getActiveTab();
-    const newStatus = finalVerdict === 'UPHOLD' ? SiteStatus.BLOCKED : SiteStatus.NORMAL;
-    
-    updateCache(active.url, { status: newStatus });
-    updateActiveTab({ status: newStatus });
-    
-    setIsCourtOpen(false);
-    reloadContentForUrl(active.url, active.id);
+    if (isInternalUrl(active.url) || isFired) return;
+
+    const site = getSiteRecord(active.url);
+    const prescription = createPrescription(prescriptions, getOwnerProfile(active.url), site, lawArticle, requiredAction, term);
+    setPrescriptions(prev => [...prev, prescription]);
+    const status = getEffectiveStatus(active.url);
+    appendAuditEntry(active.url, createAuditEntry(
+        status,
+        status,
+        'INSPECTOR',
+        `Выдано предписание № ${prescription.registryNumber}: ${PRESCRIPTION_ACTION_LABELS[requiredAction].toLowerCase()}`,
+        lawArticle
+    ));
+    recordOwnerEvent(active.url, 'PRESCRIPTION');
+    setIsPrescriptionFormOpen(false);
+    setIsPrescriptionListOpen(true);
+  };
+
+  // --- BULK ENFORCEMENT ---
+
+  // Pasted URLs may never have been opened; their violations are known before the page is generated.
+  const getAssessedSite = (url: string): CachedSiteData => {
+    const site = getSiteRecord(url);
+    return site.content === null ? { ...site, violations: planViolations(url, site.status === SiteStatus.CONTENT_REMOVED) } : site;
+  };
+
+  const getBulkContext = (): BulkContext => ({
+    rules,
+    getSite: getAssessedSite,
+    getOwner: getOwnerProfile,
+    knownHosts: getKnownHosts(),
+    vpnAdoption: evasion.vpnAdoption,
+    prescriptions
+  });
+
+  // Every open tab whose status the new rule set changes, plus the targets themselves, shows the result.
+  const reloadAffectedTabs = (urls: string[], nextRules: RestrictionRule[], siteStatus: Record<string, SiteStatus>) => {
+    tabs
+      .filter(t => !isInternalUrl(t.url))
+      .filter(t => urls.includes(t.url) || getEffectiveStatus(t.url) !== getEffectiveStatus(t.url, nextRules))
+      .forEach(t => {
+        const site = getSiteRecord(t.url);
+        loadPage(t.id, t.url, { ruleSet: nextRules, site: siteStatus[t.url] ? { ...site, status: siteStatus[t.url] } : site });
+      });
+  };
+
+  // Visited sites outside the batch that an address-wide rule catches or releases.
+  const handleBulkApply = (urls: string[], action: BulkAction, settings: BulkSettings) => {
+    if (isFired) return;
+    const appliedAt = Date.now();
+    const preview = previewBulkAction(urls, action, settings, getBulkContext(), appliedAt);
+    const rows = preview.rows.filter(row => !row.error);
+    if (rows.length === 0) return;
+
+    const issued: Prescription[] = [];
+    const scoreChanges: ScoreChange[] = [];
+    const previousSiteStatus: Record<string, SiteStatus> = {};
+    const nextSiteStatus: Record<string, SiteStatus> = {};
+
+    rows.forEach(row => {
+      const site = getSiteRecord(row.url);
+      if (row.event) scoreChanges.push(recordScore(row.event, { quiet: true }));
+      if (row.siteStatus) {
+        previousSiteStatus[row.url] = site.status;
+        nextSiteStatus[row.url] = row.siteStatus;
+        updateCache(row.url, { status: row.siteStatus });
+      }
+
+      let reason = '';
+      switch (action) {
+        case 'BLOCK': {
+          reason = `Массовая блокировка, метод: ${BLOCKING_METHODS[settings.method].label}`;
+          setEvasion(prev => registerBlock(prev, row.url));
+          recordOwnerEvent(row.url, 'BLOCK');
+          const appeal = planAppeal(getOwnerProfile(row.url), row.url, site.title, appliedAt);
+          if (appeal) setScheduledAppeals(prev => scheduleAppeal(prev, appeal));
+          break;
+        }
+        case 'SLOW':
+          reason = `Массовое замедление на ${settings.throttle}%`;
+          recordOwnerEvent(row.url, 'SLOWDOWN');
+          break;
+        case 'UNRESTRICT':
+          reason = 'Массовое снятие ограничений';
+          break;
+        case 'PRESCRIPTION': {
+          const prescription = createPrescription([...prescriptions, ...issued], getOwnerProfile(row.url), site, settings.lawArticle, settings.requiredAction, settings.term, appliedAt);
+          issued.push(prescription);
+          reason = `Выдано предписание № ${prescription.registryNumber}: ${PRESCRIPTION_ACTION_LABELS[settings.requiredAction].toLowerCase()}`;
+          recordOwnerEvent(row.url, 'PRESCRIPTION');
+          break;
+        }
+      }
+      appendAuditEntry(row.url, createAuditEntry(row.from, row.to, 'INSPECTOR', reason, action === 'PRESCRIPTION' ? settings.lawArticle : citeEvidenceLaws(site)));
+    });
+
+    const targets = rows.map(row => row.url);
+    noteBystanders(targets, preview.nextRules, `Затронут массовой мерой «${BULK_ACTION_LABELS[action]}»`);
+    setRules(preview.nextRules);
+    if (issued.length > 0) setPrescriptions(prev => [...prev, ...issued]);
+    setBulkOperations(prev => [...prev, {
+      id: generateId(),
+      action,
+      urls: targets,
+      appliedAt,
+      ...diffRules(rules, preview.nextRules),
+      previousSiteStatus,
+      prescriptionIds: issued.map(p => p.id),
+      scoreChanges,
+      undoneAt: null
+    }]);
+    reloadAffectedTabs(targets, preview.nextRules, nextSiteStatus);
+
+    // The press writes about the batch through its best-known site.
+    if (action !== 'PRESCRIPTION') {
+      const headliner = targets.reduce((best, url) => estimatePopularity(url) > estimatePopularity(best) ? url : best);
+      publishReactions(
+        getReactionRequest(getAssessedSite(headliner), action, preview.nextRules.filter(rule => rule.status === SiteStatus.BLOCKED).length),
+        `Общественная реакция: массовая мера «${BULK_ACTION_LABELS[action]}» (${targets.length} рес.)`
+      );
+    }
+  };
+
+  /**
+   * Rolls a bulk operation back as a whole: its rules, site statuses, prescriptions
+   * still pending (withdrawn, keeping their numbers), the appeals it provoked and the
+   * scores its actions earned. Owners
+   * remember being targeted, mirrors already spawned stay up, and the press coverage
+   * is out already, so the approval it cost is not given back.
+   */
+  const handleBulkUndo = (operationId: string) => {
+    const operation = getUndoableOperation(bulkOperations);
+    if (!operation || operation.id !== operationId || isFired) return;
+
+    const nextRules = revertBulkRules(rules, operation);
+    const restoredStatus = (url: string) => operation.previousSiteStatus[url] || getSiteRecord(url).status;
+    const transitions = operation.urls.map(url => ({
+      url,
+      from: getEffectiveStatus(url),
+      to: resolveSiteStatus(restoredStatus(url), findMatchingRule(nextRules, url))
+    }));
+    // A site taken to court since can only be released by the court.
+    if (transitions.some(t => rejectTransition(t.from, t.to, 'INSPECTOR'))) return;
+
+    const label = BULK_ACTION_LABELS[operation.action];
+    const withdrawn = prescriptions.filter(p => operation.prescriptionIds.includes(p.id) && p.status !== 'COMPLIED');
+    transitions.forEach(({ url, from, to }) => {
+      if (operation.previousSiteStatus[url]) updateCache(url, { status: operation.previousSiteStatus[url] });
+      const prescription = withdrawn.find(p => p.siteUrl === url);
+      if (from !== to) appendAuditEntry(url, createAuditEntry(from, to, 'INSPECTOR', `Отмена массовой меры «${label}»`));
+      if (prescription) appendAuditEntry(url, createAuditEntry(to, to, 'INSPECTOR', `Предписание № ${prescription.registryNumber} отозвано`));
+    });
+    noteBystanders(operation.urls, nextRules, `Отмена массовой меры «${label}»`);
+
+    setRules(nextRules);
+    setPrescriptions(prev => withdrawn.reduce((list, w) => updatePrescription(list, w.id, 'WITHDRAWN'), prev));
+    setScheduledAppeals(prev => prev.filter(a => !(operation.urls.includes(a.siteUrl) && a.blockedAt === operation.appliedAt)));
+    const delta = operation.scoreChanges.reduce<Partial<CareerMeters>>((sum, change) => ({
+      approval: (sum.approval || 0) - (change.delta.approval || 0),
+      compliance: (sum.compliance || 0) - (change.delta.compliance || 0),
+      budget: (sum.budget || 0) - (change.delta.budget || 0)
+    }), {});
+    setCareer(prev => applyScoreChange(prev, { timestamp: Date.now(), reason: `Отмена массовой меры «${label}» (${operation.urls.length} рес.)`, delta }));
+    setBulkOperations(prev => prev.map(op => op.id === operation.id ? { ...op, undoneAt: Date.now() } : op));
+    reloadAffectedTabs(operation.urls, nextRules, operation.previousSiteStatus);
   };
 
   const handleChatSendMessage = async (text: string) => {
     const tab = getActiveTab();
-    if (tab.url === 'about:home') return;
+    if (isInternalUrl(tab.url)) return;
 
     const currentHistory = tab.chatHistory;
     const newHistory = [
@@ -401,7 +1487,8 @@ export default function App() {
     
     setIsChatTyping(true);
 
-    const { reply, agreedToRemove } = await chatWithSiteOwner(tab.url, newHistory, text);
+    if (currentHistory.length === 0) recordOwnerEvent(tab.url, 'NEGOTIATION');
+    const { reply, outcome } = await chatWithSiteOwner(tab.url, newHistory, text, getOwnerProfile(tab.url), getSiteRecord(tab.url).violations);
     setIsChatTyping(false);
 
     const finalHistory = [
@@ -409,75 +1496,364 @@ export default function App() {
       { role: 'model', text: reply, timestamp: Date.now() } as ChatMessage
     ];
 
-    let statusUpdates: Partial<CachedSiteData> = { chatHistory: finalHistory };
-    if (agreedToRemove) {
-        statusUpdates.status = SiteStatus.CONTENT_REMOVED;
-        statusUpdates.content = null; 
-    }
+    updateCache(tab.url, { chatHistory: finalHistory });
+    updateActiveTab({ chatHistory: finalHistory });
+    applyNegotiationOutcome(tab.id, tab.url, outcome);
+  };
+
+  const handleSendLegalBasis = () => {
+    const tab = getActiveTab();
+    updateCache(tab.url, { legalBasisRequested: false });
+    handleChatSendMessage(composeLegalBasis(getSiteRecord(tab.url).evidence));
+  };
 
-    updateCache(tab.url, statusUpdates);
-    updateActiveTab({ 
-        chatHistory: finalHistory,
-        ...(agreedToRemove ? { status: SiteStatus.CONTENT_REMOVED } : {})
+  const handleCounterOfferAnswer = (accepted: boolean) => {
+    const tab = getActiveTab();
+    const offer = getSiteRecord(tab.url).counterOffer;
+    if (!offer || offer.status !== 'PENDING') return;
+
+    // Accepting starts the clock on the owner delivering what was offered.
+    updateCache(tab.url, {
+      counterOffer: accepted
+        ? { ...offer, status: 'ACCEPTED', deadline: Date.now() + COUNTER_OFFER_MS }
+        : { ...offer, status: 'REJECTED' }
     });
-    
-    if (agreedToRemove) {
-        reloadContentForUrl(tab.url, tab.id);
+    noteOwnerConcession(tab.url, accepted ? `Инспектор принял встречное предложение: ${offer.terms}` : 'Инспектор отклонил встречное предложение');
+  };
+
+  // --- KEYBOARD ---
+
+  /**
+   * Runs a bound action the way its button would, doing nothing where the button
+   * would be disabled. Block and slowdown have no panel selection to read, so they
+   * take the whole domain with the default method.
+   */
+  const runHotkeyAction = (action: HotkeyAction) => {
+    const active = getActiveTab();
+    const isWebPage = !isInternalUrl(active.url);
+    const isLocked = active.status === SiteStatus.UNDER_APPEAL;
+    const hostTarget = { kind: 'HOST' as const, pattern: isWebPage ? rulePatternFor('HOST', active.url) : '' };
+
+    switch (action) {
+      case 'OPEN_PALETTE':
+        setIsPaletteOpen(open => !open);
+        break;
+      case 'SHOW_SHORTCUTS':
+        setIsShortcutsOpen(true);
+        break;
+      case 'SLOW':
+        if (isWebPage && !isLocked && active.status !== SiteStatus.SLOWED) handleSlow(hostTarget, DEFAULT_THROTTLE_LEVEL);
+        break;
+      case 'BLOCK':
+        if (isWebPage && !isLocked && active.status !== SiteStatus.BLOCKED) handleBlock(hostTarget, DEFAULT_BLOCKING_METHOD);
+        break;
+      case 'CONTACT':
+        if (isWebPage && !isLocked) setIsChatOpen(true);
+        break;
+      case 'UNRESTRICT':
+        if (active.status === SiteStatus.BLOCKED || active.status === SiteStatus.SLOWED) handleUnrestrict();
+        break;
+      case 'OPEN_COURT':
+        handleOpenCourt();
+        break;
+      case 'NEW_TAB':
+        handleNewTab();
+        break;
+      case 'CLOSE_TAB':
+        handleCloseTab(active.id);
+        break;
+      case 'BACK':
+        handleBack();
+        break;
+      case 'FORWARD':
+        handleForward();
+        break;
+      case 'FOCUS_ADDRESS':
+        setAddressFocusRequest(n => n + 1);
+        break;
     }
   };
 
+  // Re-attached every render so the handler sees current tabs and rules.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isShortcutsOpen) return;
+      const combo = formatKeyEvent(e);
+      const action = combo ? findHotkeyAction(hotkeys, combo) : null;
+      // The open palette keeps the keyboard, except for the shortcut that closes it.
+      if (!action || (isPaletteOpen && action !== 'OPEN_PALETTE')) return;
+      // Plain keys are left to whatever is being typed.
+      if (!e.ctrlKey && !e.metaKey && !e.altKey && isTypingTarget(e.target)) return;
+      e.preventDefault();
+      runHotkeyAction(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const buildPaletteCommands = (): PaletteCommand[] => {
+    const actions: HotkeyAction[] = ['SLOW', 'BLOCK', 'CONTACT', 'UNRESTRICT', 'OPEN_COURT', 'NEW_TAB', 'CLOSE_TAB', 'BACK', 'FORWARD', 'FOCUS_ADDRESS', 'SHOW_SHORTCUTS'];
+    const actionIcons: Partial<Record<HotkeyAction, string>> = {
+      SLOW: 'fa-gauge-high', BLOCK: 'fa-ban', CONTACT: 'fa-comments', UNRESTRICT: 'fa-check', OPEN_COURT: 'fa-gavel',
+      NEW_TAB: 'fa-plus', CLOSE_TAB: 'fa-xmark', BACK: 'fa-arrow-left', FORWARD: 'fa-arrow-right', FOCUS_ADDRESS: 'fa-i-cursor', SHOW_SHORTCUTS: 'fa-keyboard'
+    };
+    const windows: { label: string; icon: string; open: () => void }[] = [
+      { label: 'Судебные дела', icon: 'fa-scale-balanced', open: () => setIsDocketOpen(true) },
+      { label: 'Предписания', icon: 'fa-file-signature', open: () => setIsPrescriptionListOpen(true) },
+      { label: 'Массовые меры', icon: 'fa-layer-group', open: () => setIsBulkOpen(true) },
+      { label: 'Лента новостей', icon: 'fa-newspaper', open: handleOpenNews },
+      { label: 'Сопутствующий ущерб', icon: 'fa-burst', open: () => setIsCollateralReportOpen(true) }
+    ];
+
+    return [
+      ...actions.map(action => ({
+        id: `action:${action}`,
+        section: 'ACTION' as const,
+        label: HOTKEY_ACTION_LABELS[action],
+        detail: hotkeys[action],
+        icon: actionIcons[action] || 'fa-bolt',
+        run: () => runHotkeyAction(action)
+      })),
+      ...windows.map(w => ({ id: `window:${w.label}`, section: 'ACTION' as const, label: w.label, detail: '', icon: w.icon, run: w.open })),
+      ...tabs.map(tab => ({
+        id: `tab:${tab.id}`,
+        section: 'TAB' as const,
+        label: tab.url === 'about:home' ? 'Новая вкладка' : tab.title || tab.url,
+        detail: tab.url,
+        icon: INTERNAL_PAGES[tab.url]?.icon || 'fa-window-maximize',
+        run: () => setActiveTabId(tab.id)
+      })),
+      ...buildRegistry(rules, siteCache, delisted)
+        .filter(entry => entry.sourceUrl)
+        .map(entry => ({
+          id: `registry:${entry.id}`,
+          section: 'REGISTRY' as const,
+          label: entry.resource,
+          detail: `${entry.scope} · ${entry.measure}`,
+          icon: 'fa-book',
+          run: () => handleNavigate(entry.sourceUrl!)
+        })),
+      ...Object.entries(INTERNAL_PAGES).map(([url, page]) => ({
+        id: `page:${url}`,
+        section: 'PAGE' as const,
+        label: page.title,
+        detail: url,
+        icon: page.icon,
+        run: () => handleNavigate(url)
+      }))
+    ];
+  };
+
   const activeTab = getActiveTab();
+  const isActiveInternal = isInternalUrl(activeTab.url);
 
   return (
     <div className="h-screen w-screen bg-gray-50 flex overflow-hidden font-sans">
       
       <div className="flex-1 flex flex-col h-full relative z-0 p-2">
-        <Browser 
-            tabs={tabs}
-            activeTabId={activeTabId}
-            onSwitchTab={setActiveTabId}
-            onCloseTab={handleCloseTab}
-            onNewTab={handleNewTab}
-            onNavigate={handleNavigate}
-            onBack={handleBack}
-            onForward={handleForward}
-            onReload={reloadTab}
-            onSearch={handleSearch}
-            isSearching={isSearching}
-            searchResults={searchResults}
+        <ShiftBar
+            campaign={campaign}
+            isStarting={isStartingShift}
+            onStartShift={handleStartShift}
+            onFinishShift={handleFinishShift}
+            onOpenTarget={(url) => handleNavigate(url)}
         />
+        <div className="flex-1 min-h-0">
+          <Browser 
+              tabs={tabs}
+              activeTabId={activeTabId}
+              onSwitchTab={setActiveTabId}
+              onCloseTab={handleCloseTab}
+              onNewTab={handleNewTab}
+              onNavigate={handleNavigate}
+              onBack={handleBack}
+              onForward={handleForward}
+              onReload={reloadTab}
+              onSearch={handleSearch}
+              isSearching={isSearching}
+              searchResults={searchResults}
+              searchQuery={searchQuery}
+              searchHistory={searchHistory}
+              hiddenResultCount={hiddenResultCount}
+              getResultStatus={(url) => getEffectiveStatus(url)}
+              isEvidenceMode={isEvidenceMode}
+              onCaptureEvidence={handleCaptureEvidence}
+              internalPageData={{
+                  registry: buildRegistry(rules, siteCache, delisted),
+                  history: browsingHistory,
+                  stats: buildStats(siteCache, rules, campaign, evasion.vpnAdoption)
+              }}
+              hotkeys={hotkeys}
+              addressFocusRequest={addressFocusRequest}
+              onOpenPalette={() => setIsPaletteOpen(true)}
+              onOpenShortcuts={() => setIsShortcutsOpen(true)}
+          />
+        </div>
       </div>
 
-      <RKNPanel 
-        currentUrl={activeTab.url === 'about:home' ? '' : activeTab.url}
-        currentStatus={activeTab.status}
-        onBlock={handleBlock}
-        onSlow={handleSlow}
-        onContact={() => setIsChatOpen(true)}
-        onUnrestrict={handleUnrestrict}
-        onOpenCourt={handleOpenCourt}
-      />
-
-      {isChatOpen && activeTab.url !== 'about:home' && (
+      <div className="flex flex-col h-full z-50">
+        <CareerHUD score={career} vpnAdoption={evasion.vpnAdoption} onRestart={() => setCareer(createCareerScore())} />
+        <RKNPanel 
+          currentUrl={isActiveInternal ? '' : activeTab.url}
+          currentStatus={activeTab.status}
+          matchedRule={isActiveInternal ? null : findMatchingRule(rules, activeTab.url)}
+          onBlock={handleBlock}
+          onSlow={handleSlow}
+          onContact={() => setIsChatOpen(true)}
+          onUnrestrict={handleUnrestrict}
+          onOpenCourt={handleOpenCourt}
+          courtCase={isActiveInternal ? null : findOpenCase(courtCases, activeTab.url)}
+          docketCount={courtCases.filter(c => c.finalVerdict === null).length}
+          onOpenDocket={() => setIsDocketOpen(true)}
+          isDelisted={!isActiveInternal && isDelisted(delisted, activeTab.url)}
+          onToggleDelisting={handleToggleDelisting}
+          onIssuePrescription={() => setIsPrescriptionFormOpen(true)}
+          prescriptionCount={prescriptions.filter(p => p.status === 'ISSUED' || p.status === 'ACKNOWLEDGED').length}
+          hasOverduePrescription={!isActiveInternal && hasOverduePrescription(prescriptions, activeTab.url)}
+          onOpenPrescriptions={() => setIsPrescriptionListOpen(true)}
+          onOpenBulk={() => setIsBulkOpen(true)}
+          unreadNewsCount={newsFeed.filter(item => item.publishedAt > newsSeenAt).length}
+          onOpenNews={handleOpenNews}
+          auditCount={isActiveInternal ? 0 : getSiteRecord(activeTab.url).auditLog.length}
+          onOpenAuditLog={() => setIsAuditLogOpen(true)}
+          compliance={isActiveInternal ? null : getSiteRecord(activeTab.url).compliance}
+          onOpenCompliance={() => setIsComplianceOpen(true)}
+          isEvidenceMode={isEvidenceMode}
+          evidenceCount={isActiveInternal ? 0 : getSiteRecord(activeTab.url).evidence.length}
+          onToggleEvidenceMode={() => setIsEvidenceMode(mode => !mode)}
+          collateralCount={buildCollateralReport(rules, getKnownHosts()).reduce((sum, entry) => sum + entry.affectedHosts.length, 0)}
+          onOpenCollateralReport={() => setIsCollateralReportOpen(true)}
+          mirror={isActiveInternal ? null : findMirror(evasion, activeTab.url)}
+          tracedMirrors={isActiveInternal ? [] : getMirrorsOf(evasion, resolveOrigin(evasion, activeTab.url)).filter(m => m.traced && m.url !== activeTab.url)}
+          onTraceOrigin={handleTraceOrigin}
+          onOpenUrl={(url) => handleNavigate(url)}
+          providers={listProviders()}
+          activeProviderId={providerId}
+          onProviderChange={handleProviderChange}
+          hotkeys={hotkeys}
+        />
+      </div>
+
+      {isChatOpen && !isActiveInternal && (
         <ChatWindow 
-            ownerName={new URL(activeTab.url).hostname}
+            owner={getOwnerProfile(activeTab.url)}
             messages={activeTab.chatHistory}
             onSendMessage={handleChatSendMessage}
             onClose={() => setIsChatOpen(false)}
             isTyping={isChatTyping}
+            counterOffer={getSiteRecord(activeTab.url).counterOffer}
+            onAnswerOffer={handleCounterOfferAnswer}
+            legalBasisRequested={getSiteRecord(activeTab.url).legalBasisRequested}
+            evidenceCount={getSiteRecord(activeTab.url).evidence.length}
+            onSendLegalBasis={handleSendLegalBasis}
         />
       )}
 
-      {isCourtOpen && (
+      {isDocketOpen && (
+        <DocketWindow
+            cases={courtCases.filter(c => c.finalVerdict === null)}
+            onOpenCase={openCourtCase}
+            onOpenUrl={(url) => { setIsDocketOpen(false); handleNavigate(url); }}
+            onClose={() => setIsDocketOpen(false)}
+        />
+      )}
+
+      {activeCase && (
         <CourtWindow 
-            siteTitle={activeTab.title}
-            verdict={currentVerdict}
-            chatHistory={activeTab.chatHistory}
+            courtCase={activeCase}
+            chatHistory={getSiteRecord(activeCase.siteUrl).chatHistory}
+            evidence={getSiteRecord(activeCase.siteUrl).evidence}
+            onStatement={handleHearingStatement}
+            onAdjourn={() => setActiveCaseId(null)}
+            onEscalate={handleEscalate}
             onClose={handleCourtClose}
             isLoading={isCourtLoading}
         />
       )}
 
+      {isCollateralReportOpen && (
+        <CollateralReportWindow
+            entries={buildCollateralReport(rules, getKnownHosts())}
+            visitedHosts={Object.keys(siteCache).map(url => new URL(url).hostname)}
+            onClose={() => setIsCollateralReportOpen(false)}
+        />
+      )}
+
+      {isAuditLogOpen && !isActiveInternal && (
+        <AuditLogWindow
+            siteUrl={activeTab.url}
+            entries={getSiteRecord(activeTab.url).auditLog}
+            onClose={() => setIsAuditLogOpen(false)}
+        />
+      )}
+
+      {isComplianceOpen && !isActiveInternal && getSiteRecord(activeTab.url).compliance && (
+        <ComplianceDiffWindow
+            siteUrl={activeTab.url}
+            check={getSiteRecord(activeTab.url).compliance!}
+            currentContent={getSiteRecord(activeTab.url).content}
+            onClose={() => setIsComplianceOpen(false)}
+        />
+      )}
+
+      {isPrescriptionFormOpen && !isActiveInternal && (
+        <PrescriptionWindow
+            siteUrl={activeTab.url}
+            siteTitle={getSiteRecord(activeTab.url).title}
+            owner={getOwnerProfile(activeTab.url)}
+            evidenceLaws={getSiteRecord(activeTab.url).evidence.map(e => e.lawArticle)}
+            onIssue={handleIssuePrescription}
+            onClose={() => setIsPrescriptionFormOpen(false)}
+        />
+      )}
+
+      {isPrescriptionListOpen && (
+        <PrescriptionListWindow
+            prescriptions={prescriptions}
+            getOwner={getOwnerProfile}
+            onOpenUrl={(url) => { setIsPrescriptionListOpen(false); handleNavigate(url); }}
+            onClose={() => setIsPrescriptionListOpen(false)}
+        />
+      )}
+
+      {shiftReport && (
+        <ShiftReportWindow report={shiftReport} onClose={() => setShiftReport(null)} />
+      )}
+
+      {isBulkOpen && (
+        <BulkEnforcementWindow
+            registry={buildRegistry(rules, siteCache, delisted)}
+            searchResults={searchResults}
+            operations={bulkOperations}
+            getPreview={(urls, action, settings) => previewBulkAction(urls, action, settings, getBulkContext())}
+            onApply={handleBulkApply}
+            onUndo={handleBulkUndo}
+            onClose={() => setIsBulkOpen(false)}
+        />
+      )}
+
+      {isNewsOpen && (
+        <NewsFeedWindow
+            items={newsFeed}
+            seenAt={newsSeenAt}
+            onOpenUrl={(url) => { setIsNewsOpen(false); handleNavigate(url); }}
+            onClose={() => setIsNewsOpen(false)}
+        />
+      )}
+
+      {isShortcutsOpen && (
+        <ShortcutsWindow
+            bindings={hotkeys}
+            onRebind={(action, combo) => setHotkeys(prev => rebindHotkey(prev, action, combo))}
+            onReset={() => setHotkeys(DEFAULT_HOTKEYS)}
+            onClose={() => setIsShortcutsOpen(false)}
+        />
+      )}
+
+      {isPaletteOpen && (
+        <CommandPalette commands={buildPaletteCommands()} onClose={() => setIsPaletteOpen(false)} />
+      )}
+
     </div>
   );
 }
\ No newline at end of file
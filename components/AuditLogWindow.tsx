@@ -0,0 +1,60 @@
+import React from 'react';
+import { StatusAuditEntry, StatusActor } from '../types';
+import { STATUS_LABELS, STATUS_ACTOR_LABELS } from '../services/statusMachine';
+
+interface AuditLogWindowProps {
+  siteUrl: string;
+  entries: StatusAuditEntry[];
+  onClose: () => void;
+}
+
+const actorColors: Record<StatusActor, string> = {
+  INSPECTOR: 'bg-red-100 text-red-700',
+  OWNER: 'bg-blue-100 text-blue-700',
+  COURT: 'bg-purple-100 text-purple-700',
+  SYSTEM: 'bg-gray-200 text-gray-700'
+};
+
+export const AuditLogWindow: React.FC<AuditLogWindowProps> = ({ siteUrl, entries, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-2xl max-h-[80vh] rounded shadow-2xl overflow-hidden font-sans flex flex-col">
+        <div className="bg-gray-900 text-white p-4">
+            <h2 className="font-bold tracking-wider">ЖУРНАЛ ИЗМЕНЕНИЙ СТАТУСА</h2>
+            <p className="text-xs text-gray-400 font-mono truncate">{siteUrl}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 text-sm">
+            {entries.length === 0 ? (
+                <p className="text-center text-gray-500 italic">Статус ресурса не менялся.</p>
+            ) : (
+                <ol className="space-y-3">
+                    {[...entries].reverse().map(entry => (
+                        <li key={entry.id} className="border-l-4 border-gray-300 pl-3">
+                            <div className="flex items-center justify-between text-xs text-gray-500">
+                                <span className={`px-2 py-0.5 rounded font-bold ${actorColors[entry.actor]}`}>{STATUS_ACTOR_LABELS[entry.actor]}</span>
+                                <span className="font-mono">{new Date(entry.timestamp).toLocaleString('ru-RU')}</span>
+                            </div>
+                            <div className="font-mono text-xs mt-1">
+                                {STATUS_LABELS[entry.from]} → <span className="font-bold">{STATUS_LABELS[entry.to]}</span>
+                            </div>
+                            <p className="mt-1">{entry.reason}</p>
+                            <p className="text-xs text-gray-500 mt-0.5">{entry.lawArticle ? `Основание: ${entry.lawArticle}` : 'Без ссылки на закон'}</p>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+
+        <div className="p-4 bg-gray-100 flex justify-end">
+            <button
+                onClick={onClose}
+                className="bg-gray-900 text-white px-6 py-2 rounded font-bold hover:bg-gray-700 transition-colors uppercase text-sm"
+            >
+                Закрыть
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,20 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { BrowserTab, SiteStatus, SearchResult } from '../types';
+import { BrowserTab, SiteStatus, SearchResult, SearchResultKind, ViolationCategory } from '../types';
+import { VIOLATION_LABELS, VIOLATION_LAWS } from '../services/violations';
+import { BLOCKING_METHODS } from '../services/blockingMethods';
+import { INTERNAL_PAGES, isInternalUrl } from '../services/internalPages';
+import { InternalPage, InternalPageData } from './InternalPages';
+import { GEO_BLOCK_ERROR } from '../services/negotiation';
+import { SEARCH_RESULT_KIND_LABELS, SEARCH_RESULT_KIND_ICONS, countPages, getPage } from '../services/search';
+import { STATUS_LABELS } from '../services/statusMachine';
+import { HotkeyBindings } from '../services/hotkeys';
+
+export interface EvidenceCapture {
+  elementId: string | null;
+  htmlSnippet: string;
+  text: string;
+  lawArticle: string;
+}
 
 interface BrowserProps {
   tabs: BrowserTab[];
@@ -14,8 +29,32 @@ interface BrowserProps {
   onSearch: (query: string) => void; // Triggered from the internal search page
   isSearching: boolean; // For the search page spinner
   searchResults: SearchResult[]; // For the search page results
+  searchQuery: string;
+  searchHistory: string[];
+  hiddenResultCount: number; // Results dropped because their domain was delisted
+  getResultStatus: (url: string) => SiteStatus;
+  isEvidenceMode: boolean;
+  onCaptureEvidence: (capture: EvidenceCapture) => void;
+  internalPageData: InternalPageData;
+  hotkeys: HotkeyBindings;
+  addressFocusRequest: number; // Bumped to move focus to the address bar
+  onOpenPalette: () => void;
+  onOpenShortcuts: () => void;
 }
 
+const RESULT_STATUS_COLORS: Record<SiteStatus, string> = {
+  [SiteStatus.NORMAL]: 'bg-green-100 text-green-700',
+  [SiteStatus.SLOWED]: 'bg-yellow-100 text-yellow-700',
+  [SiteStatus.BLOCKED]: 'bg-red-100 text-red-700',
+  [SiteStatus.CONTENT_REMOVED]: 'bg-blue-100 text-blue-700',
+  [SiteStatus.UNDER_APPEAL]: 'bg-purple-100 text-purple-700'
+};
+
+const MAX_SNIPPET_LENGTH = 2000;
+const MAX_TEXT_LENGTH = 500;
+const EVIDENCE_OUTLINE = '2px dashed #dc2626';
+
+
 export const Browser: React.FC<BrowserProps> = ({
   tabs,
   activeTabId,
@@ -28,12 +67,53 @@ export const Browser: React.FC<BrowserProps> = ({
   onReload,
   onSearch,
   isSearching,
-  searchResults
+  searchResults,
+  searchQuery,
+  searchHistory,
+  hiddenResultCount,
+  getResultStatus,
+  isEvidenceMode,
+  onCaptureEvidence,
+  internalPageData,
+  hotkeys,
+  addressFocusRequest,
+  onOpenPalette,
+  onOpenShortcuts
 }) => {
   const activeTab = tabs.find(t => t.id === activeTabId) || tabs[0];
   const [addressBarInput, setAddressBarInput] = useState(activeTab?.url || "");
   const [progress, setProgress] = useState(0);
   const viewportRef = useRef<HTMLDivElement>(null);
+  const addressBarRef = useRef<HTMLInputElement>(null);
+  const [queryInput, setQueryInput] = useState(searchQuery);
+  const [resultKind, setResultKind] = useState<SearchResultKind | 'ALL'>('ALL');
+  const [resultPage, setResultPage] = useState(0);
+
+  // A new search starts over from the first page of all results.
+  useEffect(() => {
+    setQueryInput(searchQuery);
+    setResultKind('ALL');
+    setResultPage(0);
+  }, [searchResults]);
+
+  const filteredResults = resultKind === 'ALL' ? searchResults : searchResults.filter(r => r.kind === resultKind);
+  const pageCount = countPages(filteredResults.length);
+  const highlightedRef = useRef<HTMLElement | null>(null);
+  const [pendingEvidence, setPendingEvidence] = useState<Omit<EvidenceCapture, 'lawArticle'> | null>(null);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+
+  const clearHighlight = () => {
+    if (highlightedRef.current) {
+        highlightedRef.current.style.outline = '';
+        highlightedRef.current = null;
+    }
+  };
+
+  // Leaving evidence mode or the page drops any pending capture.
+  useEffect(() => {
+    clearHighlight();
+    setPendingEvidence(null);
+  }, [isEvidenceMode, activeTab?.id, activeTab?.url]);
 
   // Sync address bar when active tab or its URL changes
   useEffect(() => {
@@ -44,6 +124,10 @@ export const Browser: React.FC<BrowserProps> = ({
     }
   }, [activeTab?.id, activeTab?.url]);
 
+  useEffect(() => {
+    if (addressFocusRequest > 0) addressBarRef.current?.focus();
+  }, [addressFocusRequest]);
+
   // Fake progress bar logic
   useEffect(() => {
     let interval: ReturnType<typeof setInterval>;
@@ -64,8 +148,10 @@ export const Browser: React.FC<BrowserProps> = ({
       let url = addressBarInput.trim();
       if (!url) return;
       
-      // Basic heuristic: if it has no dot and spaces, it's a search
-      if (!url.includes('.') || url.includes(' ')) {
+      // Internal pages go straight through; otherwise, no dot or a space means a search
+      if (isInternalUrl(url)) {
+        onNavigate(url);
+      } else if (!url.includes('.') || url.includes(' ')) {
         onSearch(url); // This will trigger search results in the current tab (conceptually)
       } else {
         if (!url.startsWith('http')) url = 'https://' + url;
@@ -93,8 +179,36 @@ export const Browser: React.FC<BrowserProps> = ({
     }
   };
 
+  // Evidence is captured at the level of a meaningful block, not a stray inline tag.
+  const findEvidenceElement = (target: HTMLElement) =>
+    (target.closest('div, section, article, li, a, p, h1, h2, h3, h4, img') as HTMLElement | null) || target;
+
+  const handleContentMouseOver = (e: React.MouseEvent) => {
+    if (!isEvidenceMode || pendingEvidence) return;
+    const element = findEvidenceElement(e.target as HTMLElement);
+    if (element === highlightedRef.current) return;
+    clearHighlight();
+    element.style.outline = EVIDENCE_OUTLINE;
+    highlightedRef.current = element;
+  };
+
   const handleContentClick = (e: React.MouseEvent) => {
     const target = e.target as HTMLElement;
+
+    if (isEvidenceMode) {
+        e.preventDefault();
+        if (pendingEvidence) return;
+        const element = findEvidenceElement(target);
+        // Ids above the page itself belong to the browser chrome, not the site.
+        const identified = element.closest('[id]') as HTMLElement | null;
+        clearHighlight();
+        setPendingEvidence({
+            elementId: identified && viewportRef.current?.contains(identified) ? identified.id : null,
+            htmlSnippet: element.outerHTML.substring(0, MAX_SNIPPET_LENGTH),
+            text: element.innerText.trim().substring(0, MAX_TEXT_LENGTH)
+        });
+        return;
+    }
     
     // 1. Check for Anchor
     const anchor = target.closest('a');
@@ -139,7 +253,7 @@ export const Browser: React.FC<BrowserProps> = ({
                 : 'bg-transparent text-gray-600 hover:bg-gray-200'
             }`}
           >
-            <i className={`fas ${tab.url === 'about:home' ? 'fa-search' : 'fa-globe'} text-gray-400`}></i>
+            <i className={`fas ${tab.url === 'about:home' ? 'fa-search' : INTERNAL_PAGES[tab.url]?.icon || 'fa-globe'} text-gray-400`}></i>
             <span className="truncate flex-1 font-medium">
               {tab.url === 'about:home' ? 'Новая вкладка' : tab.title || tab.url}
             </span>
@@ -167,6 +281,7 @@ export const Browser: React.FC<BrowserProps> = ({
         <div className="flex gap-1 text-gray-600">
             <button 
                 onClick={onBack} 
+                title={`Назад (${hotkeys.BACK})`}
                 disabled={activeTab.historyIndex <= 0}
                 className="w-8 h-8 hover:bg-gray-100 rounded-full flex items-center justify-center disabled:opacity-30 transition-colors"
             >
@@ -174,6 +289,7 @@ export const Browser: React.FC<BrowserProps> = ({
             </button>
             <button 
                 onClick={onForward} 
+                title={`Вперёд (${hotkeys.FORWARD})`}
                 disabled={activeTab.historyIndex >= activeTab.history.length - 1}
                 className="w-8 h-8 hover:bg-gray-100 rounded-full flex items-center justify-center disabled:opacity-30 transition-colors"
             >
@@ -200,9 +316,11 @@ export const Browser: React.FC<BrowserProps> = ({
                 activeTab.url.startsWith('https') ? 'text-green-600' : 'text-gray-400'
             }`}>
                 {activeTab.status === SiteStatus.BLOCKED ? <i className="fas fa-ban"></i> : 
-                 activeTab.url === 'about:home' ? <i className="fas fa-search"></i> : <i className="fas fa-lock"></i>}
+                 activeTab.url === 'about:home' ? <i className="fas fa-search"></i> :
+                 isInternalUrl(activeTab.url) ? <i className="fas fa-shield-halved"></i> : <i className="fas fa-lock"></i>}
             </div>
             <input 
+                ref={addressBarRef}
                 type="text"
                 value={addressBarInput}
                 onChange={(e) => setAddressBarInput(e.target.value)}
@@ -213,9 +331,52 @@ export const Browser: React.FC<BrowserProps> = ({
             />
         </div>
 
-        {/* Browser Menu placeholder */}
-        <div className="w-8 h-8 hover:bg-gray-100 rounded-full flex items-center justify-center cursor-pointer text-gray-600">
-            <i className="fas fa-ellipsis-vertical"></i>
+        {/* Browser Menu */}
+        <div className="relative">
+            <button
+                onClick={() => setIsMenuOpen(open => !open)}
+                className="w-8 h-8 hover:bg-gray-100 rounded-full flex items-center justify-center text-gray-600 transition-colors"
+            >
+                <i className="fas fa-ellipsis-vertical"></i>
+            </button>
+            {isMenuOpen && (
+                <div className="absolute right-0 top-10 w-56 bg-white border border-gray-200 rounded-lg shadow-xl py-1 z-40 text-sm">
+                    <button
+                        onClick={() => { setIsMenuOpen(false); onNewTab(); }}
+                        className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center gap-3"
+                    >
+                        <i className="fas fa-plus w-4 text-gray-500"></i>
+                        <span className="flex-1">Новая вкладка</span>
+                        <span className="text-xs text-gray-400 font-mono">{hotkeys.NEW_TAB}</span>
+                    </button>
+                    <button
+                        onClick={() => { setIsMenuOpen(false); onOpenPalette(); }}
+                        className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center gap-3"
+                    >
+                        <i className="fas fa-terminal w-4 text-gray-500"></i>
+                        <span className="flex-1">Палитра команд</span>
+                        <span className="text-xs text-gray-400 font-mono">{hotkeys.OPEN_PALETTE}</span>
+                    </button>
+                    <button
+                        onClick={() => { setIsMenuOpen(false); onOpenShortcuts(); }}
+                        className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center gap-3"
+                    >
+                        <i className="fas fa-keyboard w-4 text-gray-500"></i>
+                        <span className="flex-1">Сочетания клавиш</span>
+                        <span className="text-xs text-gray-400 font-mono">{hotkeys.SHOW_SHORTCUTS}</span>
+                    </button>
+                    <div className="border-t border-gray-100 my-1"></div>
+                    {Object.entries(INTERNAL_PAGES).map(([url, page]) => (
+                        <button
+                            key={url}
+                            onClick={() => { setIsMenuOpen(false); onNavigate(url); }}
+                            className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center gap-3"
+                        >
+                            <i className={`fas ${page.icon} w-4 text-gray-500`}></i>{page.title}
+                        </button>
+                    ))}
+                </div>
+            )}
         </div>
 
         {/* Loading Line */}
@@ -258,16 +419,32 @@ export const Browser: React.FC<BrowserProps> = ({
                         </div>
                         <input 
                             type="text" 
+                            value={queryInput}
+                            onChange={(e) => setQueryInput(e.target.value)}
                             className="w-full p-3 pl-10 rounded-full border border-gray-200 shadow-sm focus:shadow-md focus:outline-none focus:ring-1 focus:ring-gray-200 transition-shadow"
                             placeholder="Поиск в интернете..."
                             onKeyDown={(e) => {
-                                if (e.key === 'Enter') {
-                                    onSearch((e.target as HTMLInputElement).value);
+                                if (e.key === 'Enter' && queryInput.trim()) {
+                                    onSearch(queryInput.trim());
                                 }
                             }}
                         />
                     </div>
 
+                    {searchHistory.length > 0 && (
+                        <div className="mt-3 flex flex-wrap justify-center gap-2 max-w-xl mx-auto">
+                            {searchHistory.map(query => (
+                                <button
+                                    key={query}
+                                    onClick={() => onSearch(query)}
+                                    className="px-3 py-1 rounded-full bg-gray-100 hover:bg-gray-200 text-xs text-gray-600"
+                                >
+                                    <i className="fas fa-clock-rotate-left mr-1 text-gray-400"></i>{query}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Search Results */}
                     {isSearching && (
                         <div className="mt-8">
@@ -276,46 +453,121 @@ export const Browser: React.FC<BrowserProps> = ({
                     )}
 
                     {!isSearching && searchResults.length > 0 && (
-                        <div className="mt-8 w-full text-left space-y-6 max-w-2xl mx-auto">
-                            {searchResults.map((result, idx) => (
-                                <div key={idx} className="group font-sans">
-                                    <div className="flex items-center gap-2 mb-1 text-sm text-gray-700">
-                                        <div className="bg-gray-100 rounded-full w-6 h-6 flex items-center justify-center text-xs">
-                                            <i className="fas fa-globe text-gray-500"></i>
+                        <div className="mt-8 w-full text-left max-w-2xl mx-auto">
+                            <div className="flex gap-4 border-b border-gray-200 mb-6 text-sm">
+                                {(['ALL', ...Object.keys(SEARCH_RESULT_KIND_LABELS)] as (SearchResultKind | 'ALL')[]).map(kind => (
+                                    <button
+                                        key={kind}
+                                        onClick={() => { setResultKind(kind); setResultPage(0); }}
+                                        className={`pb-2 -mb-px border-b-2 ${resultKind === kind ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-500 hover:text-gray-800'}`}
+                                    >
+                                        {kind === 'ALL' ? 'Все' : SEARCH_RESULT_KIND_LABELS[kind]}
+                                    </button>
+                                ))}
+                            </div>
+
+                            <div className="space-y-6">
+                                {getPage(filteredResults, resultPage).map((result, idx) => {
+                                    const status = getResultStatus(result.url);
+                                    return (
+                                        <div key={`${result.url}-${idx}`} className="group font-sans">
+                                            <div className="flex items-center gap-2 mb-1 text-sm text-gray-700">
+                                                <div className="bg-gray-100 rounded-full w-6 h-6 flex items-center justify-center text-xs">
+                                                    <i className={`fas ${SEARCH_RESULT_KIND_ICONS[result.kind]} text-gray-500`}></i>
+                                                </div>
+                                                <span className="truncate">{result.url}</span>
+                                                {status !== SiteStatus.NORMAL && (
+                                                    <span className={`px-2 py-0.5 rounded text-[10px] font-bold whitespace-nowrap ${RESULT_STATUS_COLORS[status]}`}>
+                                                        {STATUS_LABELS[status]}
+                                                    </span>
+                                                )}
+                                            </div>
+                                            <h3 
+                                                onClick={() => onNavigate(result.url)}
+                                                className="text-xl text-blue-800 hover:underline cursor-pointer visited:text-purple-900 font-medium"
+                                            >
+                                                {result.title}
+                                            </h3>
+                                            <p className="text-gray-600 text-sm mt-1 leading-relaxed">
+                                                {result.snippet}
+                                            </p>
                                         </div>
-                                        <span className="truncate">{result.url}</span>
-                                    </div>
-                                    <h3 
-                                        onClick={() => onNavigate(result.url)}
-                                        className="text-xl text-blue-800 hover:underline cursor-pointer visited:text-purple-900 font-medium"
+                                    );
+                                })}
+                                {filteredResults.length === 0 && (
+                                    <p className="text-sm text-gray-500 italic">В этой категории ничего не найдено.</p>
+                                )}
+                            </div>
+
+                            {hiddenResultCount > 0 && (
+                                <p className="mt-6 text-xs text-gray-500 border-t border-gray-200 pt-3">
+                                    Некоторые результаты ({hiddenResultCount}) удалены в соответствии с требованиями законодательства РФ.
+                                </p>
+                            )}
+
+                            {pageCount > 1 && (
+                                <div className="flex justify-center items-center gap-1 mt-8 mb-4 text-sm">
+                                    <button
+                                        onClick={() => setResultPage(p => p - 1)}
+                                        disabled={resultPage === 0}
+                                        className="px-3 py-1 text-blue-700 disabled:text-gray-300"
                                     >
-                                        {result.title}
-                                    </h3>
-                                    <p className="text-gray-600 text-sm mt-1 leading-relaxed">
-                                        {result.snippet}
-                                    </p>
+                                        <i className="fas fa-chevron-left"></i>
+                                    </button>
+                                    {Array.from({ length: pageCount }, (_, page) => (
+                                        <button
+                                            key={page}
+                                            onClick={() => setResultPage(page)}
+                                            className={`w-8 h-8 rounded-full ${page === resultPage ? 'bg-blue-600 text-white' : 'text-blue-700 hover:bg-gray-100'}`}
+                                        >
+                                            {page + 1}
+                                        </button>
+                                    ))}
+                                    <button
+                                        onClick={() => setResultPage(p => p + 1)}
+                                        disabled={resultPage === pageCount - 1}
+                                        className="px-3 py-1 text-blue-700 disabled:text-gray-300"
+                                    >
+                                        <i className="fas fa-chevron-right"></i>
+                                    </button>
                                 </div>
-                            ))}
+                            )}
                         </div>
                     )}
                 </div>
             </div>
         )}
 
-        {/* CASE B: Active Site Render */}
-        {activeTab.url !== 'about:home' && (
+        {/* CASE B: Built-in pages */}
+        {activeTab.url !== 'about:home' && isInternalUrl(activeTab.url) && (
+            <InternalPage url={activeTab.url} data={internalPageData} onNavigate={onNavigate} />
+        )}
+
+        {/* CASE C: Active Site Render */}
+        {!isInternalUrl(activeTab.url) && (
             <>
                 {/* Error State */}
                 {activeTab.error && (
                     <div className="flex flex-col items-center justify-center h-full text-gray-600 p-8 bg-white select-none">
                         <i className="fas fa-wifi text-6xl mb-4 text-gray-400"></i>
                         <h2 className="text-2xl font-bold mb-2">Не удается получить доступ к сайту</h2>
+                        {activeTab.blockingMethod && (
+                            <p className="mb-2 text-sm text-gray-500">{BLOCKING_METHODS[activeTab.blockingMethod].errorDetail}</p>
+                        )}
                         <p className="mb-4 text-sm font-mono text-gray-500">{activeTab.error}</p>
                         <div className="text-sm text-gray-500 max-w-md text-center">
-                            {activeTab.status === SiteStatus.BLOCKED ? 
+                            {activeTab.error === GEO_BLOCK_ERROR ?
+                                "Владелец ограничил доступ для пользователей из России." :
+                                activeTab.status === SiteStatus.BLOCKED ? 
                                 "Доступ к информационному ресурсу ограничен на основании Федерального закона." : 
                                 "Соединение было сброшено. Проверьте подключение к сети."}
                         </div>
+                        {activeTab.blockingMethod && (
+                            <div className="mt-6 text-xs font-mono text-gray-400 border border-gray-200 rounded px-3 py-2 text-center">
+                                Метод: {BLOCKING_METHODS[activeTab.blockingMethod].label} ·
+                                обходят ~{Math.round(BLOCKING_METHODS[activeTab.blockingMethod].leakRate * 100)}% пользователей
+                            </div>
+                        )}
                     </div>
                 )}
 
@@ -334,11 +586,64 @@ export const Browser: React.FC<BrowserProps> = ({
                 {/* Rendered Content */}
                 {!activeTab.error && activeTab.content && !activeTab.isLoading && (
                     <div 
-                        className="prose max-w-none w-full min-h-full" 
+                        className={`prose max-w-none w-full min-h-full ${isEvidenceMode ? 'cursor-crosshair' : ''}`} 
                         dangerouslySetInnerHTML={{ __html: activeTab.content }} 
                         onClick={handleContentClick}
+                        onMouseOver={handleContentMouseOver}
+                        onMouseLeave={clearHighlight}
                     />
                 )}
+
+                {/* Media still arriving over a throttled connection */}
+                {!activeTab.error && activeTab.content && activeTab.mediaLoad && (
+                    <div className="sticky bottom-0 left-0 right-0 bg-yellow-50 border-t border-yellow-300 text-yellow-800 text-xs px-4 py-1.5 flex justify-between z-20">
+                        <span>
+                            <i className="fas fa-gauge-high mr-2"></i>
+                            Медиа: загружено {activeTab.mediaLoad.loaded} из {activeTab.mediaLoad.total}
+                        </span>
+                        {activeTab.mediaLoad.failed > 0 && (
+                            <span className="text-red-600">не дождались: {activeTab.mediaLoad.failed}</span>
+                        )}
+                    </div>
+                )}
+
+                {/* A blocked site that got through anyway */}
+                {!activeTab.error && activeTab.content && activeTab.blockingMethod && (
+                    <div className="sticky bottom-0 left-0 right-0 bg-red-50 border-t border-red-300 text-red-800 text-xs px-4 py-1.5 z-20">
+                        <i className="fas fa-droplet mr-2"></i>
+                        Блокировка не сработала: {BLOCKING_METHODS[activeTab.blockingMethod].label} пропускает ~{Math.round(BLOCKING_METHODS[activeTab.blockingMethod].leakRate * 100)}% соединений
+                    </div>
+                )}
+
+                {/* Law article picker for a captured element */}
+                {pendingEvidence && (
+                    <div className="sticky bottom-0 left-0 right-0 bg-gray-900 text-white p-4 border-t-4 border-red-600 shadow-2xl z-30">
+                        <div className="flex items-start justify-between gap-4 mb-3">
+                            <div className="min-w-0">
+                                <p className="text-xs uppercase text-red-400 font-bold mb-1">Фиксация доказательства</p>
+                                <p className="text-sm text-gray-300 truncate">{pendingEvidence.text || '(элемент без текста)'}</p>
+                            </div>
+                            <button onClick={() => setPendingEvidence(null)} className="text-gray-400 hover:text-white">
+                                <i className="fas fa-times"></i>
+                            </button>
+                        </div>
+                        <p className="text-xs text-gray-400 mb-2">Выберите нарушенную статью:</p>
+                        <div className="flex flex-wrap gap-2">
+                            {Object.values(ViolationCategory).map(category => (
+                                <button
+                                    key={category}
+                                    onClick={() => {
+                                        onCaptureEvidence({ ...pendingEvidence, lawArticle: VIOLATION_LAWS[category] });
+                                        setPendingEvidence(null);
+                                    }}
+                                    className="px-3 py-1 bg-red-800 hover:bg-red-700 rounded text-xs transition-colors"
+                                >
+                                    {VIOLATION_LAWS[category]} · {VIOLATION_LABELS[category]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
             </>
         )}
       </div>
@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import { BlockingMethod, BulkAction, BulkOperation, CareerMeters, PrescriptionAction, SearchResult, SiteStatus } from '../types';
+import { RegistryEntry } from '../services/internalPages';
+import { BULK_ACTION_LABELS, BulkPreview, BulkSettings, getUndoableOperation, parseUrlList } from '../services/bulkEnforcement';
+import { BLOCKING_METHODS, DEFAULT_BLOCKING_METHOD } from '../services/blockingMethods';
+import { THROTTLE_LEVELS, DEFAULT_THROTTLE_LEVEL } from '../services/throttling';
+import { PRESCRIPTION_ARTICLES, PRESCRIPTION_ACTION_LABELS, PRESCRIPTION_TERMS } from '../services/prescriptions';
+import { STATUS_LABELS } from '../services/statusMachine';
+
+interface BulkEnforcementWindowProps {
+  registry: RegistryEntry[];
+  searchResults: SearchResult[];
+  operations: BulkOperation[];
+  getPreview: (urls: string[], action: BulkAction, settings: BulkSettings) => BulkPreview;
+  onApply: (urls: string[], action: BulkAction, settings: BulkSettings) => void;
+  onUndo: (operationId: string) => void;
+  onClose: () => void;
+}
+
+type Source = 'REGISTRY' | 'SEARCH' | 'LIST';
+
+const SOURCE_LABELS: Record<Source, string> = {
+  REGISTRY: 'Реестр',
+  SEARCH: 'Поиск',
+  LIST: 'Список URL'
+};
+
+const meterLabels: Record<keyof CareerMeters, string> = {
+  approval: 'Одобрение',
+  compliance: 'Исполнение',
+  budget: 'Бюджет',
+  courtLosses: 'Проигрыши в суде'
+};
+
+const formatDelta = (value: number | undefined) => !value ? '0' : value > 0 ? `+${value}` : `${value}`;
+
+export const BulkEnforcementWindow: React.FC<BulkEnforcementWindowProps> = ({ registry, searchResults, operations, getPreview, onApply, onUndo, onClose }) => {
+  const [source, setSource] = useState<Source>('REGISTRY');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [pastedText, setPastedText] = useState('');
+  const [pasted, setPasted] = useState<string[]>([]);
+  const [action, setAction] = useState<BulkAction>('BLOCK');
+  const [settings, setSettings] = useState<BulkSettings>({
+    method: DEFAULT_BLOCKING_METHOD,
+    throttle: DEFAULT_THROTTLE_LEVEL,
+    lawArticle: PRESCRIPTION_ARTICLES[0],
+    requiredAction: 'REMOVE_CONTENT',
+    term: PRESCRIPTION_TERMS[0].ms
+  });
+
+  const candidates: { url: string; label: string; detail: string }[] =
+    source === 'REGISTRY' ? registry.filter(entry => entry.sourceUrl).map(entry => ({ url: entry.sourceUrl!, label: entry.resource, detail: `${entry.scope} · ${STATUS_LABELS[entry.status]}` }))
+    : source === 'SEARCH' ? searchResults.map(result => ({ url: result.url, label: result.title, detail: result.url }))
+    : pasted.map(url => ({ url, label: url, detail: '' }));
+  const uniqueCandidates = candidates.filter((c, index) => candidates.findIndex(other => other.url === c.url) === index);
+
+  const toggle = (url: string) =>
+    setSelected(prev => prev.includes(url) ? prev.filter(u => u !== url) : [...prev, url]);
+
+  const selectAll = () =>
+    setSelected(prev => Array.from(new Set([...prev, ...uniqueCandidates.map(c => c.url)])));
+
+  const handleAddPasted = () => {
+    const urls = parseUrlList(pastedText);
+    setPasted(prev => Array.from(new Set([...prev, ...urls])));
+    setSelected(prev => Array.from(new Set([...prev, ...urls])));
+    setPastedText('');
+  };
+
+  const preview = getPreview(selected, action, settings);
+  const applicable = preview.rows.filter(row => !row.error).length;
+  const undoable = getUndoableOperation(operations);
+
+  const handleApply = () => {
+    onApply(selected, action, settings);
+    setSelected([]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-5xl h-[85vh] rounded shadow-2xl overflow-hidden font-sans flex flex-col">
+        <div className="bg-gray-900 text-white p-4 flex items-center justify-between">
+            <div>
+                <h2 className="font-bold tracking-wider">МАССОВЫЕ МЕРЫ</h2>
+                <p className="text-xs text-gray-400">Одно действие для нескольких ресурсов сразу</p>
+            </div>
+            <div className="text-right">
+                <div className="text-3xl font-bold text-red-400">{selected.length}</div>
+                <div className="text-[10px] uppercase text-gray-400">выбрано</div>
+            </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+            <div className="w-80 flex flex-col border-r border-gray-200 text-sm">
+                <div className="flex border-b border-gray-200">
+                    {(Object.keys(SOURCE_LABELS) as Source[]).map(s => (
+                        <button
+                            key={s}
+                            onClick={() => setSource(s)}
+                            className={`flex-1 py-2 text-xs font-bold uppercase ${s === source ? 'border-b-2 border-gray-900 text-gray-900' : 'text-gray-500 hover:text-gray-800'}`}
+                        >
+                            {SOURCE_LABELS[s]}
+                        </button>
+                    ))}
+                </div>
+
+                {source === 'LIST' && (
+                    <div className="p-3 border-b border-gray-200 space-y-2">
+                        <textarea
+                            value={pastedText}
+                            onChange={(e) => setPastedText(e.target.value)}
+                            rows={4}
+                            placeholder="По одному адресу в строке"
+                            className="w-full border border-gray-300 rounded p-2 font-mono text-xs"
+                        />
+                        <button onClick={handleAddPasted} disabled={!pastedText.trim()} className="w-full py-1 rounded bg-gray-900 text-white text-xs font-bold disabled:opacity-50">
+                            Добавить
+                        </button>
+                    </div>
+                )}
+
+                <div className="px-3 py-2 flex justify-between text-xs text-gray-500 border-b border-gray-100">
+                    <button onClick={selectAll} disabled={uniqueCandidates.length === 0} className="hover:text-gray-900 disabled:opacity-50">Выбрать все</button>
+                    <button onClick={() => setSelected([])} disabled={selected.length === 0} className="hover:text-gray-900 disabled:opacity-50">Снять выбор</button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+                    {uniqueCandidates.length === 0 && (
+                        <p className="p-6 text-center text-gray-500 italic">
+                            {source === 'REGISTRY' ? 'Реестр пуст.' : source === 'SEARCH' ? 'Сначала выполните поиск.' : 'Вставьте список адресов.'}
+                        </p>
+                    )}
+                    {uniqueCandidates.map(candidate => (
+                        <label key={candidate.url} className="flex items-start gap-2 px-3 py-2 hover:bg-gray-50 cursor-pointer">
+                            <input type="checkbox" checked={selected.includes(candidate.url)} onChange={() => toggle(candidate.url)} className="mt-1" />
+                            <div className="min-w-0">
+                                <div className="truncate">{candidate.label}</div>
+                                {candidate.detail && <div className="text-xs text-gray-500 font-mono truncate">{candidate.detail}</div>}
+                            </div>
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex-1 flex flex-col min-w-0 text-sm">
+                <div className="p-4 border-b border-gray-200 bg-gray-50 space-y-3">
+                    <div className="flex gap-1">
+                        {(Object.keys(BULK_ACTION_LABELS) as BulkAction[]).map(a => (
+                            <button
+                                key={a}
+                                onClick={() => setAction(a)}
+                                className={`flex-1 py-1.5 rounded border text-xs font-bold ${a === action ? 'bg-gray-900 text-white border-gray-900' : 'bg-white border-gray-300 hover:border-gray-500'}`}
+                            >
+                                {BULK_ACTION_LABELS[a]}
+                            </button>
+                        ))}
+                    </div>
+
+                    {action === 'BLOCK' && (
+                        <div className="flex gap-1">
+                            {(Object.keys(BLOCKING_METHODS) as BlockingMethod[]).map(m => (
+                                <button
+                                    key={m}
+                                    onClick={() => setSettings(prev => ({ ...prev, method: m }))}
+                                    title={BLOCKING_METHODS[m].description}
+                                    className={`flex-1 py-1 rounded border text-xs font-mono ${m === settings.method ? 'border-red-500 text-red-700 bg-red-50' : 'border-gray-300 text-gray-600'}`}
+                                >
+                                    {BLOCKING_METHODS[m].label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {action === 'SLOW' && (
+                        <div className="flex gap-1">
+                            {THROTTLE_LEVELS.map(level => (
+                                <button
+                                    key={level}
+                                    onClick={() => setSettings(prev => ({ ...prev, throttle: level }))}
+                                    className={`flex-1 py-1 rounded border text-xs font-mono ${level === settings.throttle ? 'border-yellow-500 text-yellow-700 bg-yellow-50' : 'border-gray-300 text-gray-600'}`}
+                                >
+                                    −{level}%
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {action === 'PRESCRIPTION' && (
+                        <div className="flex gap-2">
+                            <select value={settings.lawArticle} onChange={(e) => setSettings(prev => ({ ...prev, lawArticle: e.target.value }))} className="flex-1 border border-gray-300 rounded px-2 py-1 bg-white text-xs">
+                                {PRESCRIPTION_ARTICLES.map(article => <option key={article} value={article}>{article}</option>)}
+                            </select>
+                            <select value={settings.requiredAction} onChange={(e) => setSettings(prev => ({ ...prev, requiredAction: e.target.value as PrescriptionAction }))} className="flex-1 border border-gray-300 rounded px-2 py-1 bg-white text-xs">
+                                {(Object.keys(PRESCRIPTION_ACTION_LABELS) as PrescriptionAction[]).map(a => (
+                                    <option key={a} value={a}>{PRESCRIPTION_ACTION_LABELS[a]}</option>
+                                ))}
+                            </select>
+                            <select value={settings.term} onChange={(e) => setSettings(prev => ({ ...prev, term: Number(e.target.value) }))} className="border border-gray-300 rounded px-2 py-1 bg-white text-xs">
+                                {PRESCRIPTION_TERMS.map(option => <option key={option.ms} value={option.ms}>{option.label}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    {(action === 'BLOCK' || action === 'SLOW') && (
+                        <p className="text-[10px] text-gray-500">Правило создаётся на весь домен каждого ресурса{action === 'BLOCK' && settings.method === BlockingMethod.IP ? ', а при блокировке по IP — на адрес сервера' : ''}.</p>
+                    )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto">
+                    {preview.rows.length === 0 ? (
+                        <p className="p-6 text-center text-gray-500 italic">Выберите ресурсы слева, чтобы увидеть последствия.</p>
+                    ) : (
+                        <table className="w-full text-xs">
+                            <thead className="bg-gray-100 text-gray-500 uppercase text-[10px] sticky top-0">
+                                <tr>
+                                    <th className="text-left px-3 py-2">Ресурс</th>
+                                    <th className="text-left px-3 py-2">Статус</th>
+                                    <th className="text-right px-3 py-2">Апелляция</th>
+                                    <th className="text-right px-3 py-2">Соседи</th>
+                                    <th className="text-right px-3 py-2">Одобрение</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {preview.rows.map(row => (
+                                    <tr key={row.url} className={row.error ? 'text-gray-400' : ''}>
+                                        <td className="px-3 py-2 font-mono break-all">{row.url}</td>
+                                        <td className="px-3 py-2">
+                                            {row.error ? <span className="text-orange-600">{row.error}</span>
+                                                : row.from === row.to ? STATUS_LABELS[row.to]
+                                                : <>{STATUS_LABELS[row.from]} → <b>{STATUS_LABELS[row.to]}</b></>}
+                                        </td>
+                                        <td className="px-3 py-2 text-right font-mono">{row.to === SiteStatus.BLOCKED && !row.error ? `${Math.round(row.appealChance * 100)}%` : '—'}</td>
+                                        <td className={`px-3 py-2 text-right font-mono ${row.collateralHosts.length > 0 ? 'text-red-600' : ''}`}>{row.collateralHosts.length}</td>
+                                        <td className={`px-3 py-2 text-right font-mono ${(row.delta.approval || 0) < 0 ? 'text-red-600' : ''}`}>{formatDelta(row.delta.approval)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-gray-200 bg-gray-50 grid grid-cols-3 gap-4 text-xs">
+                    <div>
+                        <div className="uppercase text-gray-500 font-bold text-[10px]">Ожидаемые апелляции</div>
+                        <div className="text-lg font-bold text-purple-700">{preview.expectedAppeals.toFixed(1)}</div>
+                    </div>
+                    <div>
+                        <div className="uppercase text-gray-500 font-bold text-[10px]">Сопутствующий ущерб</div>
+                        <div className="text-lg font-bold text-red-700">{preview.collateralHosts.length}</div>
+                        {preview.collateralHosts.length > 0 && (
+                            <div className="text-gray-500 font-mono truncate" title={preview.collateralHosts.join(', ')}>{preview.collateralHosts.join(', ')}</div>
+                        )}
+                    </div>
+                    <div>
+                        <div className="uppercase text-gray-500 font-bold text-[10px]">Итог для карьеры</div>
+                        {(Object.keys(meterLabels) as (keyof CareerMeters)[]).filter(meter => preview.delta[meter]).map(meter => (
+                            <div key={meter} className={(preview.delta[meter] || 0) < 0 ? 'text-red-600' : 'text-green-700'}>
+                                {meterLabels[meter]}: {formatDelta(preview.delta[meter])}
+                            </div>
+                        ))}
+                        {!(Object.keys(meterLabels) as (keyof CareerMeters)[]).some(meter => preview.delta[meter]) && <div className="text-gray-500">без изменений</div>}
+                    </div>
+                </div>
+            </div>
+        </div>
+
+        <div className="p-4 bg-gray-100 flex justify-between items-center gap-2">
+            <div className="text-xs text-gray-600 min-w-0 truncate">
+                {undoable ? (
+                    <>
+                        Последняя операция: {BULK_ACTION_LABELS[undoable.action]}, {undoable.urls.length} рес. в {new Date(undoable.appliedAt).toLocaleTimeString('ru-RU')}
+                        <button
+                            onClick={() => onUndo(undoable.id)}
+                            title="Реакцию прессы не отменить: её влияние на одобрение сохранится"
+                            className="ml-2 text-blue-700 font-bold hover:underline"
+                        >
+                            <i className="fas fa-rotate-left mr-1"></i>Отменить
+                        </button>
+                    </>
+                ) : 'Нет операций для отмены'}
+            </div>
+            <div className="flex gap-2 shrink-0">
+                <button onClick={onClose} className="px-6 py-2 rounded font-bold text-gray-600 hover:bg-gray-200 transition-colors uppercase text-sm">
+                    Закрыть
+                </button>
+                <button
+                    onClick={handleApply}
+                    disabled={applicable === 0}
+                    className="bg-red-700 text-white px-6 py-2 rounded font-bold hover:bg-red-600 transition-colors uppercase text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Применить к {applicable}
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
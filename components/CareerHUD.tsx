@@ -0,0 +1,76 @@
+import React from 'react';
+import { CareerScore, CareerMeters } from '../types';
+import { getCareerOutcome, MAX_COURT_LOSSES } from '../services/scoring';
+
+interface CareerHUDProps {
+  score: CareerScore;
+  vpnAdoption: number;
+  onRestart: () => void;
+}
+
+const meterLabels: Record<keyof CareerMeters, string> = {
+  approval: 'Одобрение',
+  compliance: 'Исполнение',
+  budget: 'Бюджет',
+  courtLosses: 'Проигрыши в суде'
+};
+
+const Meter: React.FC<{ label: string; value: number; max: number; color: string; suffix?: string }> = ({ label, value, max, color, suffix }) => (
+  <div>
+    <div className="flex justify-between text-[10px] uppercase text-gray-400 mb-1">
+        <span>{label}</span>
+        <span className="font-mono text-gray-200">{value}{suffix}</span>
+    </div>
+    <div className="h-1.5 bg-gray-800 rounded overflow-hidden">
+        <div className={`h-full ${color} transition-all duration-500`} style={{ width: `${Math.min(100, (value / max) * 100)}%` }}></div>
+    </div>
+  </div>
+);
+
+export const CareerHUD: React.FC<CareerHUDProps> = ({ score, vpnAdoption, onRestart }) => {
+  const { meters, changes } = score;
+  const isFired = getCareerOutcome(score) === 'FIRED';
+  const lastChange = changes[0];
+
+  return (
+    <div className="bg-gray-900 text-white border-l border-b border-gray-700 p-4 space-y-3">
+      <label className="text-xs text-gray-500 uppercase font-bold block">КАРЬЕРА ИНСПЕКТОРА</label>
+
+      <Meter label={meterLabels.approval} value={meters.approval} max={100} color="bg-green-500" suffix="%" />
+      <Meter label={meterLabels.compliance} value={meters.compliance} max={100} color="bg-blue-500" suffix="%" />
+      <Meter label={meterLabels.budget} value={meters.budget} max={100} color="bg-yellow-500" suffix=" млн ₽" />
+      <Meter label={meterLabels.courtLosses} value={meters.courtLosses} max={MAX_COURT_LOSSES} color="bg-red-500" suffix={` / ${MAX_COURT_LOSSES}`} />
+      <Meter label="Пользователи VPN" value={Math.round(vpnAdoption)} max={100} color="bg-purple-500" suffix="%" />
+
+      {lastChange && (
+        <div className="text-[10px] font-mono text-gray-400 border-t border-gray-800 pt-2">
+            <div className="truncate">{lastChange.reason}</div>
+            <div className="flex flex-wrap gap-x-2">
+                {(Object.keys(lastChange.delta) as (keyof CareerMeters)[]).map(key => {
+                    const value = lastChange.delta[key] || 0;
+                    // Losing in court is the one meter where growth is bad news.
+                    const isGood = key === 'courtLosses' ? value < 0 : value > 0;
+                    return (
+                        <span key={key} className={isGood ? 'text-green-400' : 'text-red-400'}>
+                            {meterLabels[key]} {value > 0 ? '+' : ''}{value}
+                        </span>
+                    );
+                })}
+            </div>
+        </div>
+      )}
+
+      {isFired && (
+        <div className="bg-red-900/40 border border-red-600 rounded p-2 text-center">
+            <p className="text-sm font-bold text-red-400 mb-2">ВЫ УВОЛЕНЫ</p>
+            <button
+                onClick={onRestart}
+                className="text-xs px-3 py-1 bg-red-700 hover:bg-red-600 rounded transition-colors"
+            >
+                Начать карьеру заново
+            </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,22 +1,56 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ChatMessage } from '../types';
+import { ChatMessage, OwnerProfile, CounterOffer } from '../types';
+import { OWNER_INTERACTION_LABELS } from '../services/ownerPersona';
 
 interface ChatWindowProps {
-  ownerName: string;
+  owner: OwnerProfile;
   messages: ChatMessage[];
   onSendMessage: (text: string) => void;
   onClose: () => void;
   isTyping: boolean;
+  counterOffer: CounterOffer | null;
+  onAnswerOffer: (accepted: boolean) => void;
+  legalBasisRequested: boolean;
+  evidenceCount: number;
+  onSendLegalBasis: () => void;
 }
 
+const OFFER_STATUS_LABELS: Record<CounterOffer['status'], string> = {
+  PENDING: 'ожидает ответа',
+  ACCEPTED: 'принято, ожидается исполнение',
+  REJECTED: 'отклонено',
+  EXPIRED: 'истек срок ответа',
+  FULFILLED: 'исполнено'
+};
+
+const levelLabel = (value: number) => value > 0.6 ? 'высокий' : value > 0.3 ? 'средний' : 'низкий';
+
+const Meter: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+  <div>
+    <div className="flex justify-between text-[10px] uppercase text-blue-100">
+      <span>{label}</span>
+      <span>{levelLabel(value)}</span>
+    </div>
+    <div className="h-1 bg-blue-800 rounded">
+      <div className="h-1 bg-white rounded" style={{ width: `${Math.round(value * 100)}%` }}></div>
+    </div>
+  </div>
+);
+
 export const ChatWindow: React.FC<ChatWindowProps> = ({ 
-  ownerName, 
+  owner, 
   messages, 
   onSendMessage, 
   onClose,
-  isTyping
+  isTyping,
+  counterOffer,
+  onAnswerOffer,
+  legalBasisRequested,
+  evidenceCount,
+  onSendLegalBasis
 }) => {
   const [input, setInput] = useState("");
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -35,14 +69,43 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
   return (
     <div className="absolute bottom-4 right-72 w-96 h-[500px] bg-white rounded-t-lg shadow-2xl flex flex-col border border-gray-300 z-50 font-sans">
       {/* Header */}
-      <div className="bg-blue-600 text-white p-3 rounded-t-lg flex justify-between items-center shadow-md">
-        <div className="flex items-center gap-2">
-            <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
-            <span className="font-bold text-sm truncate max-w-[200px]">Владелец: {ownerName}</span>
+      <div className="bg-blue-600 text-white p-3 rounded-t-lg shadow-md">
+        <div className="flex justify-between items-center">
+            <div className="flex items-center gap-2 min-w-0">
+                <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse flex-shrink-0"></div>
+                <div className="min-w-0">
+                    <div className="font-bold text-sm truncate max-w-[220px]">{owner.name}</div>
+                    <div className="text-[10px] text-blue-100 truncate">
+                        {owner.isCompany ? 'Юрлицо' : 'Частное лицо'} · {owner.country} · {owner.hostname}
+                    </div>
+                </div>
+            </div>
+            <div className="flex items-center gap-3">
+                <button onClick={() => setIsProfileOpen(open => !open)} className="hover:text-gray-200" title="Профиль владельца">
+                    <i className="fas fa-id-card"></i>
+                </button>
+                <button onClick={onClose} className="hover:text-gray-200">
+                    <i className="fas fa-times"></i>
+                </button>
+            </div>
         </div>
-        <button onClick={onClose} className="hover:text-gray-200">
-            <i className="fas fa-times"></i>
-        </button>
+        {isProfileOpen && (
+            <div className="mt-3 space-y-2">
+                <Meter label="Упорство" value={owner.stubbornness} />
+                <Meter label="Юридический бюджет" value={owner.legalBudget} />
+                <Meter label="Известность" value={owner.publicProfile} />
+                <div className="text-[10px] text-blue-100">
+                    {owner.jurisdiction === 'FOREIGN' ? 'Иностранная юрисдикция' : 'Российская юрисдикция'}
+                </div>
+                <div className="text-[10px] text-blue-100 max-h-20 overflow-y-auto">
+                    {owner.interactions.length === 0 ? 'Ранее с РКН не взаимодействовал.' : owner.interactions.slice().reverse().map((interaction, i) => (
+                        <div key={i}>
+                            {new Date(interaction.timestamp).toLocaleDateString('ru-RU')} — {OWNER_INTERACTION_LABELS[interaction.kind]}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
       </div>
 
       {/* Messages */}
@@ -84,6 +147,41 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
         <div ref={messagesEndRef} />
       </div>
 
+      {counterOffer && counterOffer.status !== 'FULFILLED' && (
+        <div className="px-3 py-2 bg-amber-50 border-t border-amber-200 text-xs">
+            <div className="flex justify-between font-bold text-amber-800 uppercase text-[10px]">
+                <span>Встречное предложение</span>
+                <span>{OFFER_STATUS_LABELS[counterOffer.status]}</span>
+            </div>
+            <p className="text-gray-700 my-1">{counterOffer.terms}</p>
+            {counterOffer.status === 'PENDING' && (
+                <div className="flex gap-2">
+                    <button onClick={() => onAnswerOffer(true)} className="flex-1 bg-green-600 text-white rounded py-1 font-bold hover:bg-green-700">
+                        Принять
+                    </button>
+                    <button onClick={() => onAnswerOffer(false)} className="flex-1 bg-gray-200 text-gray-700 rounded py-1 font-bold hover:bg-gray-300">
+                        Отклонить
+                    </button>
+                </div>
+            )}
+        </div>
+      )}
+
+      {legalBasisRequested && (
+        <div className="px-3 py-2 bg-blue-50 border-t border-blue-200 text-xs flex items-center justify-between gap-2">
+            <span className="text-blue-900">
+                {evidenceCount > 0 ? 'Владелец требует правовое основание.' : 'Владелец требует основание — сначала зафиксируйте доказательства.'}
+            </span>
+            <button
+                onClick={onSendLegalBasis}
+                disabled={evidenceCount === 0 || isTyping}
+                className="bg-blue-600 text-white rounded px-2 py-1 font-bold hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+            >
+                Направить обоснование
+            </button>
+        </div>
+      )}
+
       {/* Input */}
       <form onSubmit={handleSubmit} className="p-3 bg-white border-t border-gray-200 flex gap-2">
         <input 
@@ -0,0 +1,78 @@
+import React from 'react';
+import { CollateralEntry, resolveHosting } from '../services/hosting';
+import { RULE_KIND_LABELS } from '../services/restrictionRules';
+
+interface CollateralReportWindowProps {
+  entries: CollateralEntry[];
+  visitedHosts: string[];
+  onClose: () => void;
+}
+
+export const CollateralReportWindow: React.FC<CollateralReportWindowProps> = ({ entries, visitedHosts, onClose }) => {
+  const total = entries.reduce((sum, entry) => sum + entry.affectedHosts.length, 0);
+  const visited = new Set(visitedHosts);
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-2xl max-h-[80vh] rounded shadow-2xl overflow-hidden font-sans flex flex-col">
+        <div className="bg-gray-900 text-white p-4 flex items-center justify-between">
+            <div>
+                <h2 className="font-bold tracking-wider">СОПУТСТВУЮЩИЙ УЩЕРБ</h2>
+                <p className="text-xs text-gray-400">Посторонние ресурсы, попавшие под блокировки по адресу</p>
+            </div>
+            <div className="text-right">
+                <div className="text-3xl font-bold text-red-400">{total}</div>
+                <div className="text-[10px] uppercase text-gray-400">сайтов</div>
+            </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 text-sm">
+            {entries.length === 0 && (
+                <p className="text-center text-gray-500 italic">Блокировок по IP-адресу или подсети нет.</p>
+            )}
+            {entries.map(({ rule, originHost, affectedHosts }) => {
+                const hosting = originHost ? resolveHosting(originHost) : null;
+                return (
+                    <div key={rule.id} className="border border-gray-200 rounded">
+                        <div className="bg-gray-50 px-4 py-2 border-b border-gray-200 flex justify-between items-center">
+                            <div>
+                                <span className="font-mono font-bold">{rule.pattern}</span>
+                                <span className="text-xs text-gray-500 ml-2">{RULE_KIND_LABELS[rule.kind]}</span>
+                            </div>
+                            <div className="text-xs text-gray-500 text-right">
+                                {originHost && <div>цель: <span className="font-mono">{originHost}</span></div>}
+                                {hosting && <div>{hosting.provider} · {hosting.asn}</div>}
+                            </div>
+                        </div>
+                        {affectedHosts.length > 0 ? (
+                            <ul className="divide-y divide-gray-100">
+                                {affectedHosts.map(host => (
+                                    <li key={host} className="px-4 py-1.5 flex justify-between font-mono text-xs">
+                                        <span>{host}</span>
+                                        <span className="text-gray-400">
+                                            {resolveHosting(host).ip}
+                                            {visited.has(host) && <span className="ml-2 text-red-600 font-sans">обнаружено</span>}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <p className="px-4 py-2 text-xs text-gray-500 italic">Посторонних ресурсов не затронуто.</p>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+
+        <div className="p-4 bg-gray-100 flex justify-end">
+            <button
+                onClick={onClose}
+                className="bg-gray-900 text-white px-6 py-2 rounded font-bold hover:bg-gray-700 transition-colors uppercase text-sm"
+            >
+                Закрыть
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PaletteCommand, PALETTE_SECTION_LABELS, filterCommands } from '../services/commandPalette';
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  const results = filterCommands(commands, query);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [query]);
+
+  // Keep the highlighted command in view while moving with the arrows.
+  useEffect(() => {
+    const item = listRef.current?.querySelector(`[data-index="${selected}"]`);
+    item?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const runCommand = (command: PaletteCommand) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[selected]) {
+      runCommand(results[selected]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center z-[110] pt-[15vh] p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-xl rounded shadow-2xl overflow-hidden font-sans" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-3 px-4 border-b border-gray-200">
+            <i className="fas fa-terminal text-gray-400"></i>
+            <input
+                autoFocus
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Действие, вкладка, запись реестра…"
+                className="flex-1 py-3 outline-none text-sm"
+            />
+            <kbd className="text-[10px] text-gray-400 border border-gray-300 rounded px-1">Esc</kbd>
+        </div>
+
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto py-1 text-sm">
+            {results.length === 0 && (
+                <p className="px-4 py-6 text-center text-gray-500 italic">Ничего не найдено.</p>
+            )}
+            {results.map((command, index) => (
+                <React.Fragment key={command.id}>
+                    {/* Ranked results mix sections, so headings only make sense for the full list */}
+                    {!query.trim() && (index === 0 || results[index - 1].section !== command.section) && (
+                        <div className="px-4 pt-2 pb-1 text-[10px] uppercase font-bold text-gray-400">{PALETTE_SECTION_LABELS[command.section]}</div>
+                    )}
+                    <button
+                        data-index={index}
+                        onClick={() => runCommand(command)}
+                        onMouseMove={() => setSelected(index)}
+                        className={`w-full flex items-center gap-3 px-4 py-2 text-left ${index === selected ? 'bg-gray-100' : ''}`}
+                    >
+                        <i className={`fas ${command.icon} w-4 text-center text-gray-500`}></i>
+                        <span className="flex-1 truncate">{command.label}</span>
+                        <span className="text-xs text-gray-400 font-mono truncate max-w-[45%]">{command.detail}</span>
+                    </button>
+                </React.Fragment>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+};
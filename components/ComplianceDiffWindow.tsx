@@ -0,0 +1,89 @@
+import React from 'react';
+import { ComplianceCheck } from '../types';
+import { diffPages, DiffLineKind } from '../services/compliance';
+
+interface ComplianceDiffWindowProps {
+  siteUrl: string;
+  check: ComplianceCheck;
+  // What the page looks like now, for a check that has not been run yet
+  currentContent: string | null;
+  onClose: () => void;
+}
+
+const lineStyles: Record<DiffLineKind, string> = {
+  SAME: 'text-gray-600',
+  ADDED: 'bg-green-50 text-green-800',
+  REMOVED: 'bg-red-50 text-red-800 line-through decoration-red-300'
+};
+
+const linePrefix: Record<DiffLineKind, string> = { SAME: ' ', ADDED: '+', REMOVED: '−' };
+
+const CHECK_STATUS: Record<ComplianceCheck['status'], { label: string; color: string }> = {
+  PENDING: { label: 'Ожидает проверки', color: 'text-yellow-400' },
+  CONFIRMED: { label: 'Исполнение подтверждено', color: 'text-green-400' },
+  REINSTATED: { label: 'Материалы восстановлены', color: 'text-red-400' }
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('ru-RU');
+
+export const ComplianceDiffWindow: React.FC<ComplianceDiffWindowProps> = ({ siteUrl, check, currentContent, onClose }) => {
+  const after = check.revisited ?? currentContent;
+  const lines = after === null ? [] : diffPages(check.snapshot, after);
+  const removed = lines.filter(l => l.kind === 'REMOVED').length;
+  const added = lines.filter(l => l.kind === 'ADDED').length;
+  const status = CHECK_STATUS[check.status];
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-3xl max-h-[80vh] rounded shadow-2xl overflow-hidden font-sans flex flex-col">
+        <div className="bg-gray-900 text-white p-4 flex items-center justify-between">
+            <div>
+                <h2 className="font-bold tracking-wider">ПРОВЕРКА ИСПОЛНЕНИЯ</h2>
+                <p className="text-xs text-gray-400 font-mono">{siteUrl}</p>
+            </div>
+            <div className="text-right text-xs">
+                <div className={`font-bold uppercase ${status.color}`}>{status.label}</div>
+                <div className="text-gray-400">
+                    {check.checkedAt ? `проверено ${formatTime(check.checkedAt)}` : `проверка ${formatTime(check.dueAt)}`}
+                </div>
+            </div>
+        </div>
+
+        <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 text-xs text-gray-500 flex justify-between">
+            <span>Было: договоренность от {formatTime(check.agreedAt)} · Стало: {check.revisited !== null ? 'повторный визит' : 'текущая версия'}</span>
+            <span className="font-mono">
+                <span className="text-red-600">−{removed}</span> <span className="text-green-600">+{added}</span>
+            </span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto py-2 font-mono text-xs">
+            {after === null && (
+                <p className="text-center text-gray-500 italic font-sans p-6">Страница после удаления еще не загружалась.</p>
+            )}
+            {after !== null && removed === 0 && added === 0 && (
+                <p className="text-center text-gray-500 italic font-sans p-6">
+                    {check.status === 'REINSTATED'
+                        ? 'Страница совпадает с версией до договоренности: удаленные материалы возвращены.'
+                        : 'Версии не различаются: владелец ничего не удалил.'}
+                </p>
+            )}
+            {lines.map((line, i) => (
+                <div key={i} className={`px-4 py-0.5 flex gap-3 ${lineStyles[line.kind]}`}>
+                    <span className="select-none text-gray-400 w-3">{linePrefix[line.kind]}</span>
+                    <span className="whitespace-pre-wrap break-words">{line.text}</span>
+                </div>
+            ))}
+        </div>
+
+        <div className="p-4 bg-gray-100 flex justify-end">
+            <button
+                onClick={onClose}
+                className="bg-gray-900 text-white px-6 py-2 rounded font-bold hover:bg-gray-700 transition-colors uppercase text-sm"
+            >
+                Закрыть
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
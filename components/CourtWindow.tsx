@@ -1,29 +1,64 @@
 import React, { useState, useEffect } from 'react';
-import { CourtVerdict, ChatMessage } from '../types';
+import { CourtCase, ChatMessage, EvidenceItem, HearingSpeaker } from '../types';
+import { COURT_INSTANCES, COURT_ORDER, HEARING_SPEAKER_LABELS, getLastHearing, getNextInstance, getHearingPhase } from '../services/courts';
 
 interface CourtWindowProps {
-  siteTitle: string;
-  verdict: CourtVerdict | null;
+  courtCase: CourtCase;
   chatHistory: ChatMessage[];
+  evidence: EvidenceItem[];
+  onStatement: (text: string, evidenceId: string | null, isClosing: boolean) => void;
+  // Leaves the courtroom; the case keeps its transcript and can be resumed
+  onAdjourn: () => void;
+  onEscalate: () => void;
   onClose: (finalVerdict: 'UPHOLD' | 'OVERTURN') => void;
   isLoading: boolean;
 }
 
+const speakerStyles: Record<HearingSpeaker, string> = {
+  LAWYER: 'bg-red-50 border-red-200 mr-12',
+  INSPECTOR: 'bg-blue-50 border-blue-200 ml-12',
+  JUDGE: 'bg-[#d4af37]/20 border-[#d4af37] mx-6 text-center font-bold'
+};
+
 export const CourtWindow: React.FC<CourtWindowProps> = ({ 
-  siteTitle, 
-  verdict, 
+  courtCase,
   chatHistory, 
+  evidence,
+  onStatement,
+  onAdjourn,
+  onEscalate,
   onClose,
   isLoading
 }) => {
   const [stage, setStage] = useState(0);
+  const [draft, setDraft] = useState('');
+  const [citedId, setCitedId] = useState('');
+  const siteTitle = courtCase.siteTitle;
+  const lastHearing = getLastHearing(courtCase);
+  const nextInstance = getNextInstance(courtCase);
+  // Between the opening of a hearing and its ruling the live transcript is shown.
+  const inSession = isLoading || courtCase.transcript.length > 0 || !lastHearing;
+  const transcript = inSession ? courtCase.transcript : lastHearing.transcript;
+  const phase = getHearingPhase(courtCase.transcript);
+  const verdict = inSession ? null : lastHearing.verdict;
+  const currentInstance = inSession ? nextInstance || 'CASSATION' : lastHearing.instance;
+  const court = COURT_INSTANCES[currentInstance];
+  const priorHearings = inSession ? courtCase.hearings : courtCase.hearings.slice(0, -1);
+  const hasSpoken = courtCase.transcript.some(t => t.speaker === 'INSPECTOR');
 
   useEffect(() => {
-    if (!isLoading && stage < 3) {
-      const timer = setTimeout(() => setStage(s => s + 1), 2000);
+    if (stage < 2) {
+      const timer = setTimeout(() => setStage(s => s + 1), 1500);
       return () => clearTimeout(timer);
     }
-  }, [isLoading, stage]);
+  }, [stage]);
+
+  const submit = (isClosing: boolean) => {
+    if (!draft.trim()) return;
+    onStatement(draft.trim(), citedId || null, isClosing);
+    setDraft('');
+    setCitedId('');
+  };
 
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
@@ -34,16 +69,49 @@ export const CourtWindow: React.FC<CourtWindowProps> = ({
           <div className="flex items-center gap-4">
             <i className="fas fa-gavel text-4xl text-[#d4af37]"></i>
             <div>
-              <h1 className="text-2xl font-bold tracking-tight">ВЕРХОВНЫЙ ЦИФРОВОЙ СУД</h1>
-              <p className="text-xs uppercase tracking-widest text-[#d4af37]">Апелляционное производство №{Math.floor(Math.random()*9000)+1000}</p>
+              <h1 className="text-2xl font-bold tracking-tight uppercase">{court.title}</h1>
+              <p className="text-xs uppercase tracking-widest text-[#d4af37]">Дело №{courtCase.caseNumber}</p>
             </div>
           </div>
-          <div className="text-right">
-             <div className="text-sm font-bold">{new Date().toLocaleDateString('ru-RU')}</div>
-             <div className="text-[10px] uppercase">Москва, Кремлевская наб.</div>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+               <div className="text-sm font-bold">{new Date(courtCase.openedAt).toLocaleDateString('ru-RU')}</div>
+               <div className="text-[10px] uppercase">Москва, Кремлевская наб.</div>
+            </div>
+            {inSession && (
+              <button
+                  onClick={onAdjourn}
+                  disabled={isLoading}
+                  title="Отложить заседание"
+                  className="text-[#d4af37] hover:text-white disabled:opacity-30 transition-colors"
+              >
+                <i className="fas fa-door-open text-xl"></i>
+              </button>
+            )}
           </div>
         </div>
 
+        {/* Instances */}
+        <div className="bg-[#3d2b1f]/10 px-6 py-2 flex gap-2 text-xs font-sans">
+          {COURT_ORDER.map(instance => {
+            const hearing = courtCase.hearings.find(h => h.instance === instance);
+            const isCurrent = instance === currentInstance;
+            return (
+              <div
+                key={instance}
+                className={`flex-1 px-3 py-1 rounded border text-center ${
+                  isCurrent ? 'border-[#3d2b1f] bg-white font-bold' : 'border-transparent text-gray-500'
+                }`}
+              >
+                {COURT_INSTANCES[instance].shortTitle}
+                {hearing && (
+                  <i className={`fas ${hearing.verdict.verdict === 'UPHOLD' ? 'fa-lock text-red-700' : 'fa-lock-open text-green-700'} ml-2`}></i>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-8 space-y-8">
           
@@ -76,14 +144,113 @@ export const CourtWindow: React.FC<CourtWindowProps> = ({
                         </div>
                     )) : <p className="italic">Переговоры не велись.</p>}
                 </div>
-                <p className="text-sm italic">Суд изучил содержимое веб-страниц на предмет нарушения ФЗ-139 и ФЗ-149...</p>
+                <div className="bg-white/60 p-4 rounded border border-gray-300 text-sm">
+                    <p className="font-bold mb-2 uppercase text-gray-600 border-b border-gray-300 pb-1 text-xs font-mono">Доказательства РКН:</p>
+                    {evidence.length > 0 ? (
+                        <ol className="space-y-3 list-decimal list-inside">
+                            {evidence.map(item => (
+                                <li key={item.id}>
+                                    <span className="font-bold">{item.lawArticle}</span>
+                                    <span className="text-xs text-gray-500 ml-2">{new Date(item.capturedAt).toLocaleString('ru-RU')}</span>
+                                    <blockquote className="mt-1 ml-5 pl-3 border-l-2 border-[#3d2b1f] italic text-gray-700">
+                                        «{item.text || 'Элемент без текста'}»
+                                    </blockquote>
+                                </li>
+                            ))}
+                        </ol>
+                    ) : (
+                        <p className="italic">Доказательства не представлены. Суд изучил содержимое веб-страниц на предмет нарушения ФЗ-139 и ФЗ-149...</p>
+                    )}
+                </div>
              </div>
           </div>
 
-          {/* Section 3: Verdict */}
+          {/* Section 3: Hearing */}
           <div className={`transition-opacity duration-1000 ${stage >= 2 ? 'opacity-100' : 'opacity-0'}`}>
-             <h2 className="text-xl font-bold border-b border-gray-400 pb-2 mb-4">III. РЕШЕНИЕ СУДА</h2>
-             {isLoading ? (
+             <h2 className="text-xl font-bold border-b border-gray-400 pb-2 mb-4">III. СУДЕБНОЕ ЗАСЕДАНИЕ</h2>
+             <div className="space-y-3">
+                {transcript.map((turn, i) => {
+                    const cited = evidence.find(e => e.id === turn.evidenceId);
+                    return (
+                        <div key={i} className={`p-3 rounded border text-sm ${speakerStyles[turn.speaker]}`}>
+                            <p className="text-[10px] font-bold uppercase font-sans text-gray-500 mb-1">
+                                {HEARING_SPEAKER_LABELS[turn.speaker]}
+                                {turn.isClosing && ' · заключительное слово'}
+                            </p>
+                            <p>{turn.text}</p>
+                            {cited && (
+                                <blockquote className="mt-2 pl-3 border-l-2 border-[#3d2b1f] italic text-gray-700 text-xs">
+                                    {cited.lawArticle}: «{cited.text || 'Элемент без текста'}»
+                                </blockquote>
+                            )}
+                        </div>
+                    );
+                })}
+                {isLoading && phase !== 'DELIBERATION' && (
+                    <p className="text-sm italic text-gray-500 animate-pulse">Слово берет представитель заявителя...</p>
+                )}
+             </div>
+
+             {inSession && !isLoading && phase !== 'DELIBERATION' && transcript.length > 0 && (
+                <div className="mt-4 bg-white/60 p-4 rounded border border-gray-300 font-sans space-y-2">
+                    <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        placeholder={phase === 'CLOSING' ? 'Заключительное слово представителя РКН...' : 'Ваш ответ суду...'}
+                        rows={3}
+                        className="w-full border border-gray-300 rounded p-2 text-sm outline-none focus:border-[#3d2b1f]"
+                    />
+                    <div className="flex gap-2 items-center">
+                        <select
+                            value={citedId}
+                            onChange={(e) => setCitedId(e.target.value)}
+                            className="flex-1 border border-gray-300 rounded px-2 py-1.5 text-xs bg-white"
+                        >
+                            <option value="">Без ссылки на доказательство</option>
+                            {evidence.map((item, i) => (
+                                <option key={item.id} value={item.id}>
+                                    {i + 1}. {item.lawArticle}: {(item.text || 'Элемент без текста').substring(0, 60)}
+                                </option>
+                            ))}
+                        </select>
+                        {phase === 'ARGUMENTS' && (
+                            <button
+                                onClick={() => submit(false)}
+                                disabled={!draft.trim()}
+                                className="bg-[#3d2b1f] text-white px-4 py-1.5 rounded text-xs font-bold uppercase disabled:opacity-40"
+                            >
+                                Выступить
+                            </button>
+                        )}
+                        {(phase === 'CLOSING' || hasSpoken) && (
+                            <button
+                                onClick={() => submit(true)}
+                                disabled={!draft.trim()}
+                                className="bg-[#d4af37] text-[#3d2b1f] px-4 py-1.5 rounded text-xs font-bold uppercase disabled:opacity-40"
+                            >
+                                Заключительное слово
+                            </button>
+                        )}
+                    </div>
+                </div>
+             )}
+          </div>
+
+          {/* Section 4: Verdict */}
+          {(!inSession || phase === 'DELIBERATION') && (
+          <div>
+             <h2 className="text-xl font-bold border-b border-gray-400 pb-2 mb-4">IV. РЕШЕНИЕ СУДА</h2>
+             {priorHearings.length > 0 && (
+                <div className="mb-4 space-y-1 text-sm">
+                    {priorHearings.map(h => (
+                        <p key={h.instance} className="text-gray-600">
+                            <span className="font-bold">{COURT_INSTANCES[h.instance].title}</span> ({h.verdict.judgeName}):{' '}
+                            {h.verdict.verdict === 'UPHOLD' ? 'в жалобе отказано' : 'жалоба удовлетворена'}
+                        </p>
+                    ))}
+                </div>
+             )}
+             {!verdict ? (
                 <div className="flex flex-col items-center py-10">
                     <i className="fas fa-circle-notch fa-spin text-4xl text-[#3d2b1f] mb-4"></i>
                     <p className="animate-pulse">Судья удалился в совещательную комнату...</p>
@@ -91,11 +258,11 @@ export const CourtWindow: React.FC<CourtWindowProps> = ({
              ) : (
                 <div className="bg-white p-8 border-4 border-double border-[#3d2b1f] relative">
                     <div className="absolute -top-4 -right-4 bg-[#d4af37] text-[#3d2b1f] font-bold px-4 py-2 transform rotate-12 shadow-lg border-2 border-[#3d2b1f]">
-                        {verdict?.verdict === 'UPHOLD' ? 'ОТКАЗАНО' : 'УДОВЛЕТВОРЕНО'}
+                        {verdict.verdict === 'UPHOLD' ? 'ОТКАЗАНО' : 'УДОВЛЕТВОРЕНО'}
                     </div>
                     
                     <p className="text-lg leading-relaxed mb-6 first-letter:text-4xl first-letter:font-bold">
-                        {verdict?.reasoning}
+                        {verdict.reasoning}
                     </p>
                     
                     <div className="flex justify-between items-end mt-12">
@@ -104,25 +271,53 @@ export const CourtWindow: React.FC<CourtWindowProps> = ({
                             <div className="text-xs">подпись секретаря</div>
                         </div>
                         <div className="text-right">
-                            <p className="font-bold">Судья: {verdict?.judgeName}</p>
+                            <p className="font-bold">Судья: {verdict.judgeName}</p>
                             <p className="text-xs opacity-70">Печать установлена в электронном виде</p>
                         </div>
                     </div>
                 </div>
              )}
           </div>
+          )}
 
         </div>
 
         {/* Footer Actions */}
-        {stage >= 3 && !isLoading && (
-          <div className="bg-[#3d2b1f]/10 p-6 flex justify-center">
-            <button 
-                onClick={() => verdict && onClose(verdict.verdict)}
-                className="bg-[#3d2b1f] text-white px-12 py-3 rounded font-bold hover:bg-[#5a4030] transition-colors shadow-lg uppercase tracking-widest"
-            >
-              Принять к исполнению
-            </button>
+        {stage >= 2 && !inSession && lastHearing && (
+          <div className="bg-[#3d2b1f]/10 p-6 flex flex-col items-center gap-3">
+            {lastHearing.verdict.verdict === 'OVERTURN' && nextInstance ? (
+              <div className="flex gap-4">
+                <button 
+                    onClick={onEscalate}
+                    className="bg-[#d4af37] text-[#3d2b1f] px-8 py-3 rounded font-bold hover:bg-[#e0c060] transition-colors shadow-lg uppercase tracking-widest"
+                >
+                  Обжаловать: {COURT_INSTANCES[nextInstance].shortTitle}
+                </button>
+                <button 
+                    onClick={() => onClose(lastHearing.verdict.verdict)}
+                    className="bg-[#3d2b1f] text-white px-8 py-3 rounded font-bold hover:bg-[#5a4030] transition-colors shadow-lg uppercase tracking-widest"
+                >
+                  Принять к исполнению
+                </button>
+              </div>
+            ) : lastHearing.verdict.verdict === 'UPHOLD' && lastHearing.ownerWillEscalate && nextInstance ? (
+              <>
+                <p className="text-sm italic">Заявитель обжалует решение в вышестоящий суд.</p>
+                <button 
+                    onClick={onEscalate}
+                    className="bg-[#3d2b1f] text-white px-12 py-3 rounded font-bold hover:bg-[#5a4030] transition-colors shadow-lg uppercase tracking-widest"
+                >
+                  {COURT_INSTANCES[nextInstance].title}
+                </button>
+              </>
+            ) : (
+              <button 
+                  onClick={() => onClose(lastHearing.verdict.verdict)}
+                  className="bg-[#3d2b1f] text-white px-12 py-3 rounded font-bold hover:bg-[#5a4030] transition-colors shadow-lg uppercase tracking-widest"
+              >
+                Принять к исполнению
+              </button>
+            )}
           </div>
         )}
       </div>
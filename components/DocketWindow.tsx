@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { CourtCase } from '../types';
+import { COURT_INSTANCES, getNextInstance } from '../services/courts';
+
+interface DocketWindowProps {
+  cases: CourtCase[];
+  onOpenCase: (courtCase: CourtCase) => void;
+  onOpenUrl: (url: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const describeStage = (courtCase: CourtCase): string => {
+  const next = getNextInstance(courtCase);
+  if (courtCase.transcript.length > 0) return `Заседание отложено: ${next ? COURT_INSTANCES[next].shortTitle : ''}`;
+  if (courtCase.hearings.length > 0) return 'Решение вынесено, ожидает исполнения';
+  return 'Ожидает явки РКН';
+};
+
+export const DocketWindow: React.FC<DocketWindowProps> = ({ cases, onOpenCase, onOpenUrl, onClose }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Re-render every second so the deadlines stay current.
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const sorted = [...cases].sort((a, b) => a.deadline - b.deadline);
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-2xl max-h-[80vh] rounded shadow-2xl overflow-hidden font-sans flex flex-col">
+        <div className="bg-gray-900 text-white p-4 flex items-center justify-between">
+            <div>
+                <h2 className="font-bold tracking-wider">СУДЕБНЫЕ ДЕЛА</h2>
+                <p className="text-xs text-gray-400">Жалобы владельцев на действия инспектора</p>
+            </div>
+            <div className="text-right">
+                <div className="text-3xl font-bold text-purple-400">{cases.length}</div>
+                <div className="text-[10px] uppercase text-gray-400">на рассмотрении</div>
+            </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-100 text-sm">
+            {sorted.length === 0 && (
+                <p className="p-6 text-center text-gray-500 italic">Открытых дел нет.</p>
+            )}
+            {sorted.map(courtCase => {
+                const isAttended = courtCase.hearings.length > 0 || courtCase.transcript.length > 0;
+                const secondsLeft = Math.max(0, Math.floor((courtCase.deadline - now) / 1000));
+                return (
+                    <div key={courtCase.id} className="px-4 py-3 flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                            <div className="font-bold">
+                                №{courtCase.caseNumber}
+                                {courtCase.interimAccess && (
+                                    <span className="ml-2 px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-700 text-[10px]">доступ восстановлен</span>
+                                )}
+                            </div>
+                            <button onClick={() => onOpenUrl(courtCase.siteUrl)} className="font-mono text-xs text-blue-700 hover:underline truncate block">
+                                {courtCase.siteUrl}
+                            </button>
+                            <div className="text-xs text-gray-500">{describeStage(courtCase)}</div>
+                        </div>
+                        <div className="flex items-center gap-3 flex-shrink-0">
+                            {!isAttended && (
+                                <span className={`font-mono text-xs ${secondsLeft < 60 ? 'text-red-600 font-bold' : 'text-gray-500'}`}>
+                                    <i className="fas fa-clock mr-1"></i>{formatTime(secondsLeft)}
+                                </span>
+                            )}
+                            <button
+                                onClick={() => onOpenCase(courtCase)}
+                                className="bg-purple-800 text-white px-3 py-1.5 rounded text-xs font-bold uppercase hover:bg-purple-700 transition-colors"
+                            >
+                                В суд
+                            </button>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+
+        <div className="p-4 bg-gray-100 flex justify-end">
+            <button
+                onClick={onClose}
+                className="bg-gray-900 text-white px-6 py-2 rounded font-bold hover:bg-gray-700 transition-colors uppercase text-sm"
+            >
+                Закрыть
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
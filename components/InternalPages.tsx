@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { HistoryEntry, SiteStatus } from '../types';
+import { RegistryEntry, StatsSummary } from '../services/internalPages';
+import { STATUS_LABELS } from '../services/statusMachine';
+
+export interface InternalPageData {
+  registry: RegistryEntry[];
+  history: HistoryEntry[];
+  stats: StatsSummary;
+}
+
+interface InternalPageProps {
+  url: string;
+  data: InternalPageData;
+  onNavigate: (url: string) => void;
+}
+
+type SortDirection = 'asc' | 'desc';
+
+const statusColors: Record<SiteStatus, string> = {
+  [SiteStatus.NORMAL]: 'bg-green-100 text-green-700',
+  [SiteStatus.SLOWED]: 'bg-yellow-100 text-yellow-700',
+  [SiteStatus.BLOCKED]: 'bg-red-100 text-red-700',
+  [SiteStatus.CONTENT_REMOVED]: 'bg-blue-100 text-blue-700',
+  [SiteStatus.UNDER_APPEAL]: 'bg-purple-100 text-purple-700'
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString('ru-RU');
+
+const PageShell: React.FC<{ title: string; subtitle: string; children: React.ReactNode }> = ({ title, subtitle, children }) => (
+  <div className="min-h-full bg-gray-50 p-8 font-sans">
+    <div className="max-w-5xl mx-auto">
+      <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
+      <p className="text-sm text-gray-500 mb-6">{subtitle}</p>
+      {children}
+    </div>
+  </div>
+);
+
+const FilterInput: React.FC<{ value: string; onChange: (value: string) => void; placeholder: string }> = ({ value, onChange, placeholder }) => (
+  <input
+    type="text"
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    placeholder={placeholder}
+    className="flex-1 bg-white border border-gray-300 rounded px-3 py-1.5 text-sm outline-none focus:border-blue-500"
+  />
+);
+
+const SortHeader = <K extends string>({ label, column, sortBy, direction, onSort }: {
+  label: string;
+  column: K;
+  sortBy: K;
+  direction: SortDirection;
+  onSort: (column: K) => void;
+}) => (
+  <th onClick={() => onSort(column)} className="px-3 py-2 text-left cursor-pointer select-none hover:text-gray-900">
+    {label}
+    {sortBy === column && <i className={`fas fa-caret-${direction === 'asc' ? 'up' : 'down'} ml-1`}></i>}
+  </th>
+);
+
+// Clicking the active column flips the order; a new column starts descending.
+const useSort = <K extends string>(initial: K) => {
+  const [sortBy, setSortBy] = useState<K>(initial);
+  const [direction, setDirection] = useState<SortDirection>('desc');
+  const onSort = (column: K) => {
+    if (column === sortBy) {
+      setDirection(d => d === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(column);
+      setDirection('desc');
+    }
+  };
+  const compare = (a: string | number, b: string | number) =>
+    (a < b ? -1 : a > b ? 1 : 0) * (direction === 'asc' ? 1 : -1);
+  return { sortBy, direction, onSort, compare };
+};
+
+const RegistryPage: React.FC<{ entries: RegistryEntry[]; onNavigate: (url: string) => void }> = ({ entries, onNavigate }) => {
+  const [query, setQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<SiteStatus | 'ALL'>('ALL');
+  const sort = useSort<'resource' | 'status' | 'restrictedAt'>('restrictedAt');
+
+  const needle = query.toLowerCase();
+  const rows = entries
+    .filter(e => statusFilter === 'ALL' || e.status === statusFilter)
+    .filter(e => !needle || e.resource.toLowerCase().includes(needle) || (e.grounds || '').toLowerCase().includes(needle))
+    .sort((a, b) => sort.compare(a[sort.sortBy], b[sort.sortBy]));
+
+  return (
+    <PageShell title="Единый реестр" subtitle="Ресурсы, доступ к которым ограничен на территории РФ">
+      <div className="flex gap-2 mb-4">
+        <FilterInput value={query} onChange={setQuery} placeholder="Поиск по ресурсу или основанию" />
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as SiteStatus | 'ALL')}
+          className="bg-white border border-gray-300 rounded px-2 text-sm"
+        >
+          <option value="ALL">Все статусы</option>
+          {[SiteStatus.BLOCKED, SiteStatus.SLOWED, SiteStatus.UNDER_APPEAL].map(status => (
+            <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+      </div>
+      <table className="w-full bg-white border border-gray-200 text-sm">
+        <thead className="bg-gray-100 text-xs uppercase text-gray-500">
+          <tr>
+            <SortHeader label="Ресурс" column="resource" {...sort} />
+            <th className="px-3 py-2 text-left">Мера</th>
+            <SortHeader label="Статус" column="status" {...sort} />
+            <SortHeader label="Дата" column="restrictedAt" {...sort} />
+            <th className="px-3 py-2 text-left">Основание</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map(entry => (
+            <tr key={entry.id}>
+              <td className="px-3 py-2">
+                <div className="font-mono text-xs break-all">{entry.resource}</div>
+                <div className="text-[10px] text-gray-400">
+                  {entry.scope}
+                  {entry.sourceUrl && entry.sourceUrl !== entry.resource && (
+                    <> · <button onClick={() => onNavigate(entry.sourceUrl!)} className="hover:underline">{entry.sourceUrl}</button></>
+                  )}
+                </div>
+              </td>
+              <td className="px-3 py-2 text-xs">{entry.measure}</td>
+              <td className="px-3 py-2">
+                <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${statusColors[entry.status]}`}>{STATUS_LABELS[entry.status]}</span>
+              </td>
+              <td className="px-3 py-2 text-xs font-mono whitespace-nowrap">{formatDate(entry.restrictedAt)}</td>
+              <td className="px-3 py-2 text-xs">{entry.grounds || <span className="text-gray-400 italic">не указано</span>}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length === 0 && <p className="text-center text-gray-500 italic mt-6">Записей не найдено.</p>}
+    </PageShell>
+  );
+};
+
+const HistoryPage: React.FC<{ entries: HistoryEntry[]; onNavigate: (url: string) => void }> = ({ entries, onNavigate }) => {
+  const [query, setQuery] = useState('');
+  const sort = useSort<'visitedAt' | 'url'>('visitedAt');
+
+  const needle = query.toLowerCase();
+  const rows = entries
+    .filter(e => !needle || e.url.toLowerCase().includes(needle) || e.title.toLowerCase().includes(needle))
+    .sort((a, b) => sort.compare(a[sort.sortBy], b[sort.sortBy]));
+
+  return (
+    <PageShell title="История" subtitle="Посещенные страницы во всех вкладках">
+      <div className="flex gap-2 mb-4">
+        <FilterInput value={query} onChange={setQuery} placeholder="Поиск в истории" />
+      </div>
+      <table className="w-full bg-white border border-gray-200 text-sm">
+        <thead className="bg-gray-100 text-xs uppercase text-gray-500">
+          <tr>
+            <SortHeader label="Время" column="visitedAt" {...sort} />
+            <SortHeader label="Страница" column="url" {...sort} />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map((entry, i) => (
+            <tr key={`${entry.visitedAt}-${i}`}>
+              <td className="px-3 py-2 text-xs font-mono whitespace-nowrap text-gray-500 w-48">{formatDate(entry.visitedAt)}</td>
+              <td className="px-3 py-2">
+                <button onClick={() => onNavigate(entry.url)} className="text-blue-700 hover:underline text-left">{entry.title}</button>
+                <div className="font-mono text-[10px] text-gray-400 break-all">{entry.url}</div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length === 0 && <p className="text-center text-gray-500 italic mt-6">История пуста.</p>}
+    </PageShell>
+  );
+};
+
+const StatCard: React.FC<{ label: string; value: number; color?: string }> = ({ label, value, color = 'text-gray-900' }) => (
+  <div className="bg-white border border-gray-200 rounded p-4">
+    <div className={`text-3xl font-bold ${color}`}>{value}</div>
+    <div className="text-xs uppercase text-gray-500 mt-1">{label}</div>
+  </div>
+);
+
+const StatsPage: React.FC<{ stats: StatsSummary; onNavigate: (url: string) => void }> = ({ stats, onNavigate }) => {
+  const [query, setQuery] = useState('');
+  const sort = useSort<'audience' | 'cutOff'>('cutOff');
+
+  const needle = query.toLowerCase();
+  const traffic = stats.traffic
+    .filter(t => !needle || t.url.toLowerCase().includes(needle))
+    .sort((a, b) => sort.compare(a[sort.sortBy], b[sort.sortBy]));
+
+  return (
+    <PageShell title="Статистика" subtitle="Сводка по действиям инспектора и их последствиям">
+      <div className="grid grid-cols-4 gap-3 mb-3">
+        <StatCard label="Блокировки" value={stats.blocks} color="text-red-600" />
+        <StatCard label="Замедления" value={stats.slowdowns} color="text-yellow-600" />
+        <StatCard label="Снятия ограничений" value={stats.unrestricts} color="text-green-600" />
+        <StatCard label="Удалено владельцами" value={stats.contentRemovals} color="text-blue-600" />
+      </div>
+      <div className="grid grid-cols-4 gap-3 mb-8">
+        <StatCard label="Апелляций подано" value={stats.appealsFiled} color="text-purple-600" />
+        <StatCard label="Суд на стороне РКН" value={stats.appealsWon} color="text-green-600" />
+        <StatCard label="Проиграно в суде" value={stats.appealsLost} color="text-red-600" />
+        <StatCard label="Смен отработано" value={stats.shiftsCompleted} />
+      </div>
+
+      <h2 className="font-bold text-gray-900 mb-2">Влияние на трафик</h2>
+      <div className="flex gap-2 mb-4">
+        <FilterInput value={query} onChange={setQuery} placeholder="Фильтр по ресурсу" />
+      </div>
+      <table className="w-full bg-white border border-gray-200 text-sm">
+        <thead className="bg-gray-100 text-xs uppercase text-gray-500">
+          <tr>
+            <th className="px-3 py-2 text-left">Ресурс</th>
+            <th className="px-3 py-2 text-left">Статус</th>
+            <SortHeader label="Аудитория" column="audience" {...sort} />
+            <SortHeader label="Отрезано" column="cutOff" {...sort} />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {traffic.map(t => (
+            <tr key={t.url}>
+              <td className="px-3 py-2">
+                <button onClick={() => onNavigate(t.url)} className="font-mono text-xs text-blue-700 hover:underline break-all text-left">{t.url}</button>
+              </td>
+              <td className="px-3 py-2">
+                <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${statusColors[t.status]}`}>{STATUS_LABELS[t.status]}</span>
+              </td>
+              <td className="px-3 py-2 font-mono text-xs">{Math.round(t.audience * 100)}%</td>
+              <td className="px-3 py-2 font-mono text-xs">{Math.round(t.cutOff * 100)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {traffic.length === 0 && <p className="text-center text-gray-500 italic mt-6">Ограничений, влияющих на трафик, нет.</p>}
+    </PageShell>
+  );
+};
+
+export const InternalPage: React.FC<InternalPageProps> = ({ url, data, onNavigate }) => {
+  switch (url) {
+    case 'about:registry':
+      return <RegistryPage entries={data.registry} onNavigate={onNavigate} />;
+    case 'about:history':
+      return <HistoryPage entries={data.history} onNavigate={onNavigate} />;
+    case 'about:stats':
+      return <StatsPage stats={data.stats} onNavigate={onNavigate} />;
+    default:
+      return (
+        <PageShell title="Страница не найдена" subtitle={url}>
+          <p className="text-sm text-gray-600">Такой внутренней страницы нет.</p>
+        </PageShell>
+      );
+  }
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { NewsItem, NewsItemKind } from '../types';
+import { NEWS_KIND_LABELS, REACTION_ACTION_LABELS } from '../services/newsFeed';
+
+interface NewsFeedWindowProps {
+  items: NewsItem[];
+  // Items published after this moment are marked as new
+  seenAt: number;
+  onOpenUrl: (url: string) => void;
+  onClose: () => void;
+}
+
+const kindColors: Record<NewsItemKind, string> = {
+  HEADLINE: 'bg-blue-100 text-blue-700',
+  FOREIGN_PRESS: 'bg-purple-100 text-purple-700',
+  SOCIAL: 'bg-gray-100 text-gray-700'
+};
+
+const kindIcons: Record<NewsItemKind, string> = {
+  HEADLINE: 'fa-newspaper',
+  FOREIGN_PRESS: 'fa-globe',
+  SOCIAL: 'fa-comment'
+};
+
+const toneColor = (tone: number) => tone > 0.1 ? 'border-green-500' : tone < -0.1 ? 'border-red-500' : 'border-gray-300';
+
+export const NewsFeedWindow: React.FC<NewsFeedWindowProps> = ({ items, seenAt, onOpenUrl, onClose }) => {
+  const [filter, setFilter] = useState<NewsItemKind | 'ALL'>('ALL');
+  const visible = filter === 'ALL' ? items : items.filter(item => item.kind === filter);
+  const mood = items.length ? items.reduce((sum, item) => sum + item.tone, 0) / items.length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-2xl h-[80vh] rounded shadow-2xl overflow-hidden font-sans flex flex-col">
+        <div className="bg-gray-900 text-white p-4 flex items-center justify-between">
+            <div>
+                <h2 className="font-bold tracking-wider">ЛЕНТА НОВОСТЕЙ</h2>
+                <p className="text-xs text-gray-400">Что пишут о действиях ведомства</p>
+            </div>
+            <div className="text-right">
+                <div className={`text-3xl font-bold ${mood > 0.1 ? 'text-green-400' : mood < -0.1 ? 'text-red-400' : 'text-gray-300'}`}>
+                    {mood > 0 ? '+' : ''}{Math.round(mood * 100)}
+                </div>
+                <div className="text-[10px] uppercase text-gray-400">настроение</div>
+            </div>
+        </div>
+
+        <div className="flex gap-1 px-4 py-2 border-b border-gray-200 text-xs">
+            {(['ALL', 'HEADLINE', 'FOREIGN_PRESS', 'SOCIAL'] as const).map(kind => (
+                <button
+                    key={kind}
+                    onClick={() => setFilter(kind)}
+                    className={`px-3 py-1 rounded font-bold ${filter === kind ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+                >
+                    {kind === 'ALL' ? 'Все' : NEWS_KIND_LABELS[kind]}
+                </button>
+            ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-100 text-sm">
+            {visible.length === 0 && (
+                <p className="p-6 text-center text-gray-500 italic">Пока о ведомстве не пишут.</p>
+            )}
+            {visible.map(item => (
+                <div key={item.id} className={`px-4 py-3 border-l-4 ${toneColor(item.tone)} ${item.publishedAt > seenAt ? 'bg-yellow-50' : ''}`}>
+                    <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+                        <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${kindColors[item.kind]}`}>
+                            <i className={`fas ${kindIcons[item.kind]} mr-1`}></i>{NEWS_KIND_LABELS[item.kind]}
+                        </span>
+                        <span className="font-bold text-gray-700">{item.source}</span>
+                        <span className="ml-auto font-mono">{new Date(item.publishedAt).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}</span>
+                    </div>
+                    <p className={item.kind === 'SOCIAL' ? '' : 'font-bold'}>{item.text}</p>
+                    <button onClick={() => onOpenUrl(item.siteUrl)} className="mt-1 text-xs text-gray-400 hover:text-gray-700 font-mono truncate max-w-full">
+                        {REACTION_ACTION_LABELS[item.action]} · {item.siteUrl}
+                    </button>
+                </div>
+            ))}
+        </div>
+
+        <div className="p-4 bg-gray-100 flex justify-end">
+            <button
+                onClick={onClose}
+                className="bg-gray-900 text-white px-6 py-2 rounded font-bold hover:bg-gray-700 transition-colors uppercase text-sm"
+            >
+                Закрыть
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useRef, useState } from 'react';
+import { OwnerProfile, Prescription, PrescriptionStatus } from '../types';
+import { PRESCRIPTION_ACTION_LABELS, PRESCRIPTION_STATUS_LABELS, renderPrescriptionDocument } from '../services/prescriptions';
+
+interface PrescriptionListWindowProps {
+  prescriptions: Prescription[];
+  getOwner: (url: string) => OwnerProfile;
+  onOpenUrl: (url: string) => void;
+  onClose: () => void;
+}
+
+const statusColors: Record<PrescriptionStatus, string> = {
+  ISSUED: 'bg-gray-100 text-gray-700',
+  ACKNOWLEDGED: 'bg-blue-100 text-blue-700',
+  COMPLIED: 'bg-green-100 text-green-700',
+  OVERDUE: 'bg-red-100 text-red-700',
+  WITHDRAWN: 'bg-gray-100 text-gray-400 line-through'
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString('ru-RU');
+
+export const PrescriptionListWindow: React.FC<PrescriptionListWindowProps> = ({ prescriptions, getOwner, onOpenUrl, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const documentRef = useRef<HTMLIFrameElement>(null);
+  const selected = prescriptions.find(p => p.id === selectedId) || null;
+  const overdue = prescriptions.filter(p => p.status === 'OVERDUE').length;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-4xl h-[80vh] rounded shadow-2xl overflow-hidden font-sans flex flex-col">
+        <div className="bg-gray-900 text-white p-4 flex items-center justify-between">
+            <div>
+                <h2 className="font-bold tracking-wider">ПРЕДПИСАНИЯ</h2>
+                <p className="text-xs text-gray-400">Требования, направленные владельцам ресурсов</p>
+            </div>
+            <div className="text-right">
+                <div className="text-3xl font-bold text-red-400">{overdue}</div>
+                <div className="text-[10px] uppercase text-gray-400">просрочено</div>
+            </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+            <div className="w-80 overflow-y-auto divide-y divide-gray-100 border-r border-gray-200 text-sm">
+                {prescriptions.length === 0 && (
+                    <p className="p-6 text-center text-gray-500 italic">Предписаний не выдавалось.</p>
+                )}
+                {[...prescriptions].reverse().map(p => (
+                    <button
+                        key={p.id}
+                        onClick={() => setSelectedId(p.id)}
+                        className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${p.id === selectedId ? 'bg-gray-100' : ''}`}
+                    >
+                        <div className="flex justify-between items-center">
+                            <span className="font-bold">№ {p.registryNumber}</span>
+                            <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${statusColors[p.status]}`}>{PRESCRIPTION_STATUS_LABELS[p.status]}</span>
+                        </div>
+                        <div className="font-mono text-xs text-gray-500 truncate">{p.siteUrl}</div>
+                        <div className="text-xs text-gray-500">{p.lawArticle} · до {formatDate(p.deadline)}</div>
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex-1 flex flex-col min-w-0">
+                {selected ? (
+                    <>
+                        <div className="px-4 py-2 border-b border-gray-200 flex justify-between items-center text-xs">
+                            <span className="text-gray-500">{PRESCRIPTION_ACTION_LABELS[selected.requiredAction]}</span>
+                            <div className="flex gap-3">
+                                <button onClick={() => onOpenUrl(selected.siteUrl)} className="text-blue-700 hover:underline">Открыть ресурс</button>
+                                <button onClick={() => documentRef.current?.contentWindow?.print()} className="text-gray-700 hover:underline">
+                                    <i className="fas fa-print mr-1"></i>Печать
+                                </button>
+                            </div>
+                        </div>
+                        <iframe
+                            ref={documentRef}
+                            title={`Предписание № ${selected.registryNumber}`}
+                            srcDoc={renderPrescriptionDocument(selected, getOwner(selected.siteUrl))}
+                            className="flex-1 bg-white"
+                        />
+                    </>
+                ) : (
+                    <p className="m-auto text-sm text-gray-400 italic">Выберите предписание, чтобы просмотреть документ.</p>
+                )}
+            </div>
+        </div>
+
+        <div className="p-4 bg-gray-100 flex justify-end">
+            <button
+                onClick={onClose}
+                className="bg-gray-900 text-white px-6 py-2 rounded font-bold hover:bg-gray-700 transition-colors uppercase text-sm"
+            >
+                Закрыть
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
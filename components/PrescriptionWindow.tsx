@@ -0,0 +1,87 @@
+import React, { useMemo, useState } from 'react';
+import { OwnerProfile, PrescriptionAction } from '../types';
+import { PRESCRIPTION_ARTICLES, PRESCRIPTION_ACTION_LABELS, PRESCRIPTION_TERMS, createPrescription, renderPrescriptionDocument } from '../services/prescriptions';
+
+interface PrescriptionWindowProps {
+  siteUrl: string;
+  siteTitle: string;
+  owner: OwnerProfile;
+  // Laws the inspector has already documented, offered first
+  evidenceLaws: string[];
+  onIssue: (lawArticle: string, requiredAction: PrescriptionAction, term: number) => void;
+  onClose: () => void;
+}
+
+export const PrescriptionWindow: React.FC<PrescriptionWindowProps> = ({ siteUrl, siteTitle, owner, evidenceLaws, onIssue, onClose }) => {
+  const articles = Array.from(new Set([...evidenceLaws, ...PRESCRIPTION_ARTICLES]));
+  const [lawArticle, setLawArticle] = useState(articles[0]);
+  const [requiredAction, setRequiredAction] = useState<PrescriptionAction>('REMOVE_CONTENT');
+  const [term, setTerm] = useState(PRESCRIPTION_TERMS[0].ms);
+  const [draftedAt] = useState(() => Date.now());
+
+  // The draft is numbered as a placeholder until the prescription is registered.
+  const draft = useMemo(
+    () => ({ ...createPrescription([], owner, { url: siteUrl, title: siteTitle }, lawArticle, requiredAction, term, draftedAt), registryNumber: '—' }),
+    [owner, siteUrl, siteTitle, lawArticle, requiredAction, term, draftedAt]
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-4xl h-[80vh] rounded shadow-2xl overflow-hidden font-sans flex flex-col">
+        <div className="bg-gray-900 text-white p-4">
+            <h2 className="font-bold tracking-wider">ВЫДАЧА ПРЕДПИСАНИЯ</h2>
+            <p className="text-xs text-gray-400 font-mono">{siteUrl}</p>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+            <div className="w-64 p-4 space-y-4 border-r border-gray-200 bg-gray-50 text-sm">
+                <label className="block">
+                    <span className="text-xs uppercase text-gray-500 font-bold">Основание</span>
+                    <select value={lawArticle} onChange={(e) => setLawArticle(e.target.value)} className="mt-1 w-full border border-gray-300 rounded px-2 py-1 bg-white">
+                        {articles.map(article => <option key={article} value={article}>{article}</option>)}
+                    </select>
+                </label>
+                <label className="block">
+                    <span className="text-xs uppercase text-gray-500 font-bold">Требуемое действие</span>
+                    <select value={requiredAction} onChange={(e) => setRequiredAction(e.target.value as PrescriptionAction)} className="mt-1 w-full border border-gray-300 rounded px-2 py-1 bg-white">
+                        {(Object.keys(PRESCRIPTION_ACTION_LABELS) as PrescriptionAction[]).map(action => (
+                            <option key={action} value={action}>{PRESCRIPTION_ACTION_LABELS[action]}</option>
+                        ))}
+                    </select>
+                </label>
+                <div>
+                    <span className="text-xs uppercase text-gray-500 font-bold">Срок исполнения</span>
+                    <div className="mt-1 flex gap-1">
+                        {PRESCRIPTION_TERMS.map(option => (
+                            <button
+                                key={option.ms}
+                                onClick={() => setTerm(option.ms)}
+                                className={`flex-1 py-1 rounded border text-xs ${term === option.ms ? 'bg-gray-900 text-white border-gray-900' : 'bg-white border-gray-300 hover:border-gray-500'}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                    Если владелец не исполнит предписание в срок, ресурс можно заблокировать без ущерба для репутации.
+                </p>
+            </div>
+            <iframe title="Проект предписания" srcDoc={renderPrescriptionDocument(draft, owner)} className="flex-1 bg-white" />
+        </div>
+
+        <div className="p-4 bg-gray-100 flex justify-end gap-2">
+            <button onClick={onClose} className="px-6 py-2 rounded font-bold text-gray-600 hover:bg-gray-200 transition-colors uppercase text-sm">
+                Отмена
+            </button>
+            <button
+                onClick={() => onIssue(lawArticle, requiredAction, term)}
+                className="bg-red-700 text-white px-6 py-2 rounded font-bold hover:bg-red-600 transition-colors uppercase text-sm"
+            >
+                Выдать предписание
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
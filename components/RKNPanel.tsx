@@ -1,37 +1,124 @@
-import React from 'react';
-import { SiteStatus } from '../types';
+import React, { useState, useEffect } from 'react';
+import { SiteStatus, RestrictionRule, RestrictionRuleKind, BlockingMethod, MirrorSite, ThrottleLevel, CourtCase, ComplianceCheck } from '../types';
+import { RULE_KIND_LABELS, rulePatternFor, isValidRulePattern } from '../services/restrictionRules';
+import { BLOCKING_METHODS, DEFAULT_BLOCKING_METHOD } from '../services/blockingMethods';
+import { resolveHostingForUrl } from '../services/hosting';
+import { STATUS_LABELS } from '../services/statusMachine';
+import { THROTTLE_LEVELS, DEFAULT_THROTTLE_LEVEL } from '../services/throttling';
+import type { ModelProviderId } from '../services/geminiService';
+import { HotkeyBindings } from '../services/hotkeys';
 
 interface RKNPanelProps {
   currentUrl: string;
   currentStatus: SiteStatus;
-  onBlock: () => void;
-  onSlow: () => void;
+  matchedRule: RestrictionRule | null;
+  onBlock: (target: Pick<RestrictionRule, 'kind' | 'pattern'>, method: BlockingMethod) => void;
+  onSlow: (target: Pick<RestrictionRule, 'kind' | 'pattern'>, throttle: ThrottleLevel) => void;
   onContact: () => void;
+  isDelisted: boolean;
+  onToggleDelisting: () => void;
+  onIssuePrescription: () => void;
+  prescriptionCount: number;
+  hasOverduePrescription: boolean;
+  onOpenPrescriptions: () => void;
+  onOpenBulk: () => void;
+  unreadNewsCount: number;
+  onOpenNews: () => void;
   onUnrestrict: () => void;
   onOpenCourt: () => void;
+  courtCase: CourtCase | null;
+  docketCount: number;
+  onOpenDocket: () => void;
+  auditCount: number;
+  onOpenAuditLog: () => void;
+  compliance: ComplianceCheck | null;
+  onOpenCompliance: () => void;
+  isEvidenceMode: boolean;
+  evidenceCount: number;
+  onToggleEvidenceMode: () => void;
+  collateralCount: number;
+  onOpenCollateralReport: () => void;
+  mirror: MirrorSite | null;
+  tracedMirrors: MirrorSite[];
+  onTraceOrigin: () => void;
+  onOpenUrl: (url: string) => void;
+  providers: { id: ModelProviderId; label: string }[];
+  activeProviderId: ModelProviderId;
+  onProviderChange: (id: ModelProviderId) => void;
+  hotkeys: HotkeyBindings;
 }
 
-const statusMap: Record<SiteStatus, string> = {
-  [SiteStatus.NORMAL]: 'НОРМА',
-  [SiteStatus.SLOWED]: 'ЗАМЕДЛЕНО',
-  [SiteStatus.BLOCKED]: 'ЗАБЛОКИРОВАНО',
-  [SiteStatus.CONTENT_REMOVED]: 'КОНТЕНТ УДАЛЕН',
-  [SiteStatus.UNDER_APPEAL]: 'В СУДЕ'
-};
-
 export const RKNPanel: React.FC<RKNPanelProps> = ({ 
   currentUrl, 
   currentStatus, 
+  matchedRule,
   onBlock, 
   onSlow, 
   onContact,
+  isDelisted,
+  onToggleDelisting,
+  onIssuePrescription,
+  prescriptionCount,
+  hasOverduePrescription,
+  onOpenPrescriptions,
+  onOpenBulk,
+  unreadNewsCount,
+  onOpenNews,
   onUnrestrict,
-  onOpenCourt
+  onOpenCourt,
+  courtCase,
+  docketCount,
+  onOpenDocket,
+  auditCount,
+  onOpenAuditLog,
+  compliance,
+  onOpenCompliance,
+  isEvidenceMode,
+  evidenceCount,
+  onToggleEvidenceMode,
+  collateralCount,
+  onOpenCollateralReport,
+  mirror,
+  tracedMirrors,
+  onTraceOrigin,
+  onOpenUrl,
+  providers,
+  activeProviderId,
+  onProviderChange,
+  hotkeys
 }) => {
   const isLocked = currentStatus === SiteStatus.UNDER_APPEAL;
+  const [ruleKind, setRuleKind] = useState<RestrictionRuleKind>('HOST');
+  const [pattern, setPattern] = useState('');
+  const [method, setMethod] = useState<BlockingMethod>(DEFAULT_BLOCKING_METHOD);
+  const [tracedUrl, setTracedUrl] = useState<string | null>(null);
+  const [throttle, setThrottle] = useState<ThrottleLevel>(DEFAULT_THROTTLE_LEVEL);
+
+  // Suggest a pattern covering the current page whenever the target or scope changes.
+  useEffect(() => {
+    setPattern(currentUrl ? rulePatternFor(ruleKind, currentUrl) : '');
+  }, [currentUrl, ruleKind]);
+
+  // A slowed site opens with the throttle it is already under, so it can be adjusted.
+  const appliedThrottle = matchedRule?.status === SiteStatus.SLOWED ? matchedRule.throttle || DEFAULT_THROTTLE_LEVEL : null;
+  useEffect(() => {
+    setThrottle(appliedThrottle || DEFAULT_THROTTLE_LEVEL);
+  }, [matchedRule?.id]);
+
+  const isPatternValid = isValidRulePattern(ruleKind, pattern);
+  const currentHost = currentUrl ? new URL(currentUrl).hostname : '';
+  const ruleOriginHost = matchedRule?.sourceUrl ? new URL(matchedRule.sourceUrl).hostname : '';
+  const isCollateral = !!ruleOriginHost && ruleOriginHost !== currentHost;
+  const target = { kind: ruleKind, pattern };
+  const isTraced = tracedUrl === currentUrl || !!mirror?.traced;
+
+  const handleTrace = () => {
+    setTracedUrl(currentUrl);
+    onTraceOrigin();
+  };
 
   return (
-    <div className="bg-gray-900 text-white w-64 flex flex-col border-l border-gray-700 shadow-2xl z-50">
+    <div className="bg-gray-900 text-white w-64 flex-1 min-h-0 flex flex-col border-l border-gray-700 shadow-2xl z-50">
       <div className="p-4 border-b border-gray-700 bg-gray-800">
         <div className="flex items-center gap-2 mb-1">
             <div className="w-8 h-8 bg-red-700 rounded flex items-center justify-center font-bold border border-red-500">
@@ -48,6 +135,11 @@ export const RKNPanel: React.FC<RKNPanelProps> = ({
             <div className="bg-black/50 p-2 rounded border border-gray-700 font-mono text-xs break-all text-green-400">
                 {currentUrl || "НЕТ АКТИВНОЙ ЦЕЛИ"}
             </div>
+            {currentUrl && (
+                <div className="mt-1 text-[10px] font-mono text-gray-500">
+                    {resolveHostingForUrl(currentUrl).ip} · {resolveHostingForUrl(currentUrl).provider} ({resolveHostingForUrl(currentUrl).asn})
+                </div>
+            )}
         </div>
 
         <div className="mb-6">
@@ -59,46 +151,230 @@ export const RKNPanel: React.FC<RKNPanelProps> = ({
                  currentStatus === SiteStatus.UNDER_APPEAL ? 'bg-purple-900/30 border-purple-600 text-purple-400 animate-pulse' :
                  'bg-blue-900/30 border-blue-600 text-blue-400'
              }`}>
-                 {statusMap[currentStatus]}
+                 {STATUS_LABELS[currentStatus]}
                  {currentStatus === SiteStatus.UNDER_APPEAL && (
                     <div className="absolute top-0 left-0 w-full h-1 bg-purple-500 animate-[shimmer_2s_infinite]"></div>
                  )}
              </div>
+             <button
+                 onClick={onOpenAuditLog}
+                 disabled={!currentUrl}
+                 className="mt-2 text-xs text-gray-400 hover:text-white font-mono disabled:opacity-50 transition-colors"
+             >
+                 <i className="fas fa-list mr-1"></i>Журнал изменений ({auditCount})
+             </button>
+             {compliance && (
+                <button
+                    onClick={onOpenCompliance}
+                    className={`mt-1 block text-xs font-mono transition-colors hover:text-white ${
+                        compliance.status === 'REINSTATED' ? 'text-red-400' :
+                        compliance.status === 'CONFIRMED' ? 'text-green-400' : 'text-yellow-400'
+                    }`}
+                >
+                    <i className="fas fa-code-compare mr-1"></i>
+                    {compliance.status === 'PENDING'
+                        ? `Проверка исполнения ${new Date(compliance.dueAt).toLocaleTimeString('ru-RU')}`
+                        : compliance.status === 'CONFIRMED' ? 'Исполнение подтверждено' : 'Материалы восстановлены'}
+                </button>
+             )}
+        </div>
+
+        <div className="mb-6">
+            <label className="text-xs text-gray-500 uppercase font-bold block mb-2">ПРИМЕНЕННОЕ ПРАВИЛО</label>
+            {matchedRule ? (
+                <div className="bg-black/50 p-2 rounded border border-gray-700 font-mono text-xs">
+                    <div className="text-gray-400">{RULE_KIND_LABELS[matchedRule.kind]} → {STATUS_LABELS[matchedRule.status]}</div>
+                    <div className="text-orange-300 break-all">{matchedRule.pattern}</div>
+                    {isCollateral && (
+                        <div className="text-red-400 mt-1">Сопутствующая блокировка: правило создано для {ruleOriginHost}</div>
+                    )}
+                    {matchedRule.status === SiteStatus.SLOWED && (
+                        <div className="text-gray-400 mt-1 pt-1 border-t border-gray-800">
+                            Пропускная способность −{matchedRule.throttle || DEFAULT_THROTTLE_LEVEL}%
+                        </div>
+                    )}
+                    {matchedRule.status === SiteStatus.BLOCKED && (
+                        <div className="text-gray-400 mt-1 pt-1 border-t border-gray-800">
+                            {BLOCKING_METHODS[matchedRule.method || DEFAULT_BLOCKING_METHOD].label} · утечка {Math.round(BLOCKING_METHODS[matchedRule.method || DEFAULT_BLOCKING_METHOD].leakRate * 100)}%
+                        </div>
+                    )}
+                </div>
+            ) : (
+                <div className="text-xs text-gray-600 font-mono">Правила не применяются</div>
+            )}
+        </div>
+
+        <div className="mb-6">
+            <label className="text-xs text-gray-500 uppercase font-bold block mb-2">ПРОИСХОЖДЕНИЕ</label>
+            {!isTraced ? (
+                <button
+                    onClick={handleTrace}
+                    disabled={!currentUrl}
+                    className="w-full p-2 rounded border bg-gray-800 hover:bg-gray-700 border-gray-600 text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <i className="fas fa-route mr-2"></i>Отследить происхождение
+                </button>
+            ) : mirror ? (
+                <div className="bg-black/50 p-2 rounded border border-orange-700 font-mono text-xs">
+                    <div className="text-orange-400 mb-1">Зеркало заблокированного ресурса</div>
+                    <button onClick={() => onOpenUrl(mirror.originUrl)} className="text-green-400 hover:underline break-all text-left">
+                        {mirror.originUrl}
+                    </button>
+                </div>
+            ) : (
+                <div className="text-xs text-gray-600 font-mono">Первоисточник, не зеркало</div>
+            )}
+            {tracedMirrors.length > 0 && (
+                <div className="mt-2 text-xs font-mono">
+                    <div className="text-gray-500 mb-1">Выявленные зеркала:</div>
+                    {tracedMirrors.map(m => (
+                        <button key={m.url} onClick={() => onOpenUrl(m.url)} className="block text-orange-300 hover:underline break-all text-left">
+                            {new URL(m.url).hostname}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+
+        <div className="mb-6">
+            <label className="text-xs text-gray-500 uppercase font-bold block mb-2">ДОКАЗАТЕЛЬСТВА</label>
+            <button
+                onClick={onToggleEvidenceMode}
+                disabled={!currentUrl}
+                className={`w-full flex items-center justify-between p-3 rounded border transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                    isEvidenceMode
+                        ? 'bg-red-900/40 border-red-500 text-red-300'
+                        : 'bg-gray-800 hover:bg-gray-700 border-gray-600'
+                }`}
+            >
+                <span className="text-sm font-medium">{isEvidenceMode ? 'Фиксация включена' : 'Режим фиксации'}</span>
+                <i className={`fas fa-crosshairs ${isEvidenceMode ? 'animate-pulse' : 'text-red-400'}`}></i>
+            </button>
+            <p className="text-xs text-gray-500 mt-2 font-mono">Зафиксировано: {evidenceCount}</p>
         </div>
 
         <div className="space-y-3">
             <label className="text-xs text-gray-500 uppercase font-bold block">ДЕЙСТВИЯ</label>
             
             {currentStatus === SiteStatus.UNDER_APPEAL ? (
-                <button 
-                    onClick={onOpenCourt}
-                    className="w-full flex items-center justify-between p-4 bg-purple-800 hover:bg-purple-700 rounded border border-purple-500 transition-all shadow-lg shadow-purple-900/20"
-                >
-                    <span className="text-sm font-bold">ЯВИТЬСЯ В СУД</span>
-                    <i className="fas fa-gavel text-white animate-bounce"></i>
-                </button>
-            ) : (
                 <>
                     <button 
-                        onClick={onSlow}
-                        disabled={isLocked || currentStatus === SiteStatus.SLOWED || !currentUrl}
-                        className="w-full flex items-center justify-between p-3 bg-gray-800 hover:bg-gray-700 rounded border border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all group"
+                        onClick={onOpenCourt}
+                        title={hotkeys.OPEN_COURT}
+                        className="w-full flex items-center justify-between p-4 bg-purple-800 hover:bg-purple-700 rounded border border-purple-500 transition-all shadow-lg shadow-purple-900/20"
                     >
-                        <span className="text-sm font-medium">Замедление</span>
-                        <i className="fas fa-gauge-high text-yellow-500 group-hover:scale-110 transition-transform"></i>
+                        <span className="text-sm font-bold">ЯВИТЬСЯ В СУД</span>
+                        <i className="fas fa-gavel text-white animate-bounce"></i>
                     </button>
+                    {courtCase && (
+                        <div className="text-[10px] font-mono text-purple-300 space-y-0.5">
+                            <div>Дело №{courtCase.caseNumber}</div>
+                            {courtCase.hearings.length === 0 && courtCase.transcript.length === 0 && (
+                                <div>Явка до {new Date(courtCase.deadline).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}</div>
+                            )}
+                            {courtCase.interimAccess && <div className="text-yellow-400">Доступ восстановлен судом до решения</div>}
+                        </div>
+                    )}
+                </>
+            ) : (
+                <>
+                    <div className="space-y-2">
+                        <select
+                            value={ruleKind}
+                            onChange={(e) => setRuleKind(e.target.value as RestrictionRuleKind)}
+                            disabled={!currentUrl}
+                            className="w-full bg-gray-800 border border-gray-600 rounded p-2 text-xs disabled:opacity-50"
+                        >
+                            {(Object.keys(RULE_KIND_LABELS) as RestrictionRuleKind[]).map(kind => (
+                                <option key={kind} value={kind}>Область: {RULE_KIND_LABELS[kind]}</option>
+                            ))}
+                        </select>
+                        <input
+                            type="text"
+                            value={pattern}
+                            onChange={(e) => setPattern(e.target.value)}
+                            disabled={!currentUrl}
+                            className={`w-full bg-black/50 border rounded p-2 font-mono text-xs outline-none disabled:opacity-50 ${
+                                isPatternValid || !currentUrl ? 'border-gray-700 text-green-400' : 'border-red-600 text-red-400'
+                            }`}
+                        />
+                    </div>
+
+                    <div>
+                        <div className="grid grid-cols-3 gap-1 mb-2">
+                            {THROTTLE_LEVELS.map(level => (
+                                <button
+                                    key={level}
+                                    onClick={() => setThrottle(level)}
+                                    disabled={!currentUrl}
+                                    className={`py-1 rounded border text-[10px] font-mono transition-colors disabled:opacity-50 ${
+                                        level === throttle ? 'border-yellow-500 text-yellow-300 bg-yellow-900/30' : 'border-gray-700 text-gray-400 hover:border-gray-500'
+                                    }`}
+                                >
+                                    −{level}%
+                                </button>
+                            ))}
+                        </div>
+                        <button 
+                            onClick={() => onSlow(target, throttle)}
+                            title={hotkeys.SLOW && `${hotkeys.SLOW}: весь домен, −${DEFAULT_THROTTLE_LEVEL}%`}
+                            disabled={isLocked || throttle === appliedThrottle || !currentUrl || !isPatternValid}
+                            className="w-full flex items-center justify-between p-3 bg-gray-800 hover:bg-gray-700 rounded border border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all group"
+                        >
+                            <span className="text-sm font-medium">{appliedThrottle ? 'Изменить замедление' : 'Замедление'}</span>
+                            <i className="fas fa-gauge-high text-yellow-500 group-hover:scale-110 transition-transform"></i>
+                        </button>
+                    </div>
+
+                    <div>
+                        <div className="grid grid-cols-4 gap-1">
+                            {(Object.keys(BLOCKING_METHODS) as BlockingMethod[]).map(m => (
+                                <button
+                                    key={m}
+                                    onClick={() => setMethod(m)}
+                                    disabled={!currentUrl}
+                                    title={BLOCKING_METHODS[m].description}
+                                    className={`py-1 rounded border text-[10px] font-mono transition-colors disabled:opacity-50 ${
+                                        m === method ? 'border-red-500 text-red-300 bg-red-900/30' : 'border-gray-700 text-gray-400 hover:border-gray-500'
+                                    }`}
+                                >
+                                    {m}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-1">
+                            {BLOCKING_METHODS[method].label}: утечка {Math.round(BLOCKING_METHODS[method].leakRate * 100)}%, риск для соседей {Math.round(BLOCKING_METHODS[method].collateralRisk * 100)}%
+                        </p>
+                        {method === BlockingMethod.IP && ruleKind !== 'IP_ADDRESS' && ruleKind !== 'SUBNET' && (
+                            <p className="text-[10px] text-orange-400 mt-1">Блокировка по IP применяется ко всему адресу сервера.</p>
+                        )}
+                    </div>
 
                     <button 
-                        onClick={onBlock}
-                        disabled={isLocked || currentStatus === SiteStatus.BLOCKED || !currentUrl}
+                        onClick={() => onBlock(target, method)}
+                        title={hotkeys.BLOCK && `${hotkeys.BLOCK}: весь домен, ${BLOCKING_METHODS[DEFAULT_BLOCKING_METHOD].label}`}
+                        disabled={isLocked || currentStatus === SiteStatus.BLOCKED || !currentUrl || !isPatternValid}
                         className="w-full flex items-center justify-between p-3 bg-gray-800 hover:bg-gray-700 rounded border border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all group"
                     >
                         <span className="text-sm font-medium">Блокировка</span>
                         <i className="fas fa-ban text-red-500 group-hover:scale-110 transition-transform"></i>
                     </button>
+                    {hasOverduePrescription && currentStatus !== SiteStatus.BLOCKED && (
+                        <p className="text-[10px] text-green-400 -mt-1">Предписание просрочено: блокировка без ущерба для репутации.</p>
+                    )}
+
+                    <button 
+                        onClick={onToggleDelisting}
+                        disabled={!currentUrl}
+                        className="w-full flex items-center justify-between p-3 bg-gray-800 hover:bg-gray-700 rounded border border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all group"
+                    >
+                        <span className="text-sm font-medium">{isDelisted ? 'Вернуть в поиск' : 'Исключить из поиска'}</span>
+                        <i className={`fas ${isDelisted ? 'fa-magnifying-glass' : 'fa-eye-slash'} text-gray-400 group-hover:scale-110 transition-transform`}></i>
+                    </button>
 
                     <button 
                         onClick={onContact}
+                        title={hotkeys.CONTACT}
                         disabled={isLocked || !currentUrl}
                         className="w-full flex items-center justify-between p-3 bg-gray-800 hover:bg-gray-700 rounded border border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all group"
                     >
@@ -106,9 +382,19 @@ export const RKNPanel: React.FC<RKNPanelProps> = ({
                         <i className="fas fa-comments text-blue-500 group-hover:scale-110 transition-transform"></i>
                     </button>
 
+                    <button 
+                        onClick={onIssuePrescription}
+                        disabled={isLocked || !currentUrl}
+                        className="w-full flex items-center justify-between p-3 bg-gray-800 hover:bg-gray-700 rounded border border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all group"
+                    >
+                        <span className="text-sm font-medium">Выдать предписание</span>
+                        <i className="fas fa-file-signature text-yellow-500 group-hover:scale-110 transition-transform"></i>
+                    </button>
+
                     {(currentStatus === SiteStatus.BLOCKED || currentStatus === SiteStatus.SLOWED) && (
                         <button 
                             onClick={onUnrestrict}
+                            title={hotkeys.UNRESTRICT}
                             className="w-full flex items-center justify-between p-3 bg-green-900/20 hover:bg-green-900/40 rounded border border-green-800 transition-all mt-4"
                         >
                             <span className="text-sm font-medium text-green-400">Восстановить доступ</span>
@@ -120,7 +406,65 @@ export const RKNPanel: React.FC<RKNPanelProps> = ({
         </div>
       </div>
 
+      <button
+        onClick={onOpenDocket}
+        className="mx-4 mb-2 flex items-center justify-between p-2 rounded border border-gray-700 hover:border-gray-500 text-xs transition-colors"
+      >
+        <span className="text-gray-400 uppercase">Судебные дела</span>
+        <span className={`font-mono font-bold ${docketCount > 0 ? 'text-purple-400' : 'text-gray-500'}`}>{docketCount}</span>
+      </button>
+
+      <button
+        onClick={onOpenPrescriptions}
+        className="mx-4 mb-2 flex items-center justify-between p-2 rounded border border-gray-700 hover:border-gray-500 text-xs transition-colors"
+      >
+        <span className="text-gray-400 uppercase">Предписания</span>
+        <span className={`font-mono font-bold ${prescriptionCount > 0 ? 'text-yellow-400' : 'text-gray-500'}`}>{prescriptionCount}</span>
+      </button>
+
+      <button
+        onClick={onOpenBulk}
+        className="mx-4 mb-2 flex items-center justify-between p-2 rounded border border-gray-700 hover:border-gray-500 text-xs transition-colors"
+      >
+        <span className="text-gray-400 uppercase">Массовые меры</span>
+        <i className="fas fa-layer-group text-gray-500"></i>
+      </button>
+
+      <button
+        onClick={onOpenNews}
+        className="mx-4 mb-2 flex items-center justify-between p-2 rounded border border-gray-700 hover:border-gray-500 text-xs transition-colors"
+      >
+        <span className="text-gray-400 uppercase">Лента новостей</span>
+        <span className={`font-mono font-bold ${unreadNewsCount > 0 ? 'text-blue-400' : 'text-gray-500'}`}>{unreadNewsCount}</span>
+      </button>
+
+      <button
+        onClick={onOpenCollateralReport}
+        className="mx-4 mb-4 flex items-center justify-between p-2 rounded border border-gray-700 hover:border-gray-500 text-xs transition-colors"
+      >
+        <span className="text-gray-400 uppercase">Сопутствующий ущерб</span>
+        <span className={`font-mono font-bold ${collateralCount > 0 ? 'text-red-400' : 'text-gray-500'}`}>{collateralCount}</span>
+      </button>
+
       <div className="p-4 bg-gray-950 border-t border-gray-800 text-xs text-gray-600 font-mono">
+        <div className="flex items-center justify-between mb-2">
+            <span>ИСТОЧНИК:</span>
+            <div className="flex gap-1">
+                {providers.map(p => (
+                    <button
+                        key={p.id}
+                        onClick={() => onProviderChange(p.id)}
+                        className={`px-2 py-0.5 rounded border transition-colors ${
+                            p.id === activeProviderId
+                                ? 'border-green-600 text-green-400 bg-green-900/20'
+                                : 'border-gray-700 text-gray-500 hover:text-gray-300'
+                        }`}
+                    >
+                        {p.label}
+                    </button>
+                ))}
+            </div>
+        </div>
         ВРЕМЯ_РАБОТЫ: 99.9%<br/>
         УЗЕЛ: МОСКВА_ЦЕНТР
       </div>
@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { CampaignState } from '../types';
+import { getDirectiveForShift, getShiftTimeLeft } from '../services/campaign';
+
+interface ShiftBarProps {
+  campaign: CampaignState;
+  isStarting: boolean;
+  onStartShift: () => void;
+  onFinishShift: () => void;
+  onOpenTarget: (url: string) => void;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export const ShiftBar: React.FC<ShiftBarProps> = ({
+  campaign,
+  isStarting,
+  onStartShift,
+  onFinishShift,
+  onOpenTarget
+}) => {
+  const shift = campaign.activeShift;
+  const [, setTick] = useState(0);
+
+  // Re-render every second so the countdown stays current.
+  useEffect(() => {
+    if (!shift) return;
+    const timer = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(timer);
+  }, [shift?.number]);
+
+  if (!shift) {
+    const next = getDirectiveForShift(campaign.nextShiftNumber);
+    return (
+      <div className="bg-gray-800 text-gray-200 rounded-lg mb-2 px-4 py-2 flex items-center justify-between text-sm">
+        <div className="truncate">
+            <span className="text-gray-400 uppercase text-xs font-bold mr-2">Смена №{campaign.nextShiftNumber}</span>
+            <span className="italic">{next.title}</span>
+        </div>
+        <button
+            onClick={onStartShift}
+            disabled={isStarting}
+            className="ml-4 px-3 py-1 bg-red-700 hover:bg-red-600 rounded text-xs font-bold uppercase disabled:opacity-50 transition-colors flex-shrink-0"
+        >
+            {isStarting ? <i className="fas fa-circle-notch fa-spin"></i> : 'Заступить на смену'}
+        </button>
+      </div>
+    );
+  }
+
+  const timeLeft = getShiftTimeLeft(shift);
+  const actedOn = new Set(shift.actions.map(a => a.url));
+
+  return (
+    <div className="bg-gray-800 text-gray-200 rounded-lg mb-2 px-4 py-2 text-sm space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <div className="truncate">
+            <span className="text-red-400 uppercase text-xs font-bold mr-2">Директива · Смена №{shift.number}</span>
+            <span>{shift.directive.title}</span>
+        </div>
+        <div className="flex items-center gap-3 flex-shrink-0">
+            <span className={`font-mono ${timeLeft < 60 ? 'text-red-400 animate-pulse' : 'text-green-400'}`}>
+                <i className="fas fa-clock mr-1"></i>{formatTime(timeLeft)}
+            </span>
+            <button
+                onClick={onFinishShift}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs uppercase transition-colors"
+            >
+                Сдать смену
+            </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {shift.targets.map(target => (
+            <button
+                key={target.url}
+                onClick={() => onOpenTarget(target.url)}
+                title={target.url}
+                className={`px-2 py-0.5 rounded border text-xs transition-colors ${
+                    actedOn.has(target.url)
+                        ? 'border-green-700 text-green-400 bg-green-900/20'
+                        : 'border-gray-600 hover:border-gray-400'
+                }`}
+            >
+                {target.title}
+            </button>
+        ))}
+      </div>
+    </div>
+  );
+};
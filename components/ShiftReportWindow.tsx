@@ -0,0 +1,68 @@
+import React from 'react';
+import { ShiftReport } from '../types';
+
+interface ShiftReportWindowProps {
+  report: ShiftReport;
+  onClose: () => void;
+}
+
+const gradeColors: Record<ShiftReport['grade'], string> = {
+  A: 'text-green-600 border-green-600',
+  B: 'text-lime-600 border-lime-600',
+  C: 'text-yellow-600 border-yellow-600',
+  D: 'text-orange-600 border-orange-600',
+  F: 'text-red-600 border-red-600'
+};
+
+export const ShiftReportWindow: React.FC<ShiftReportWindowProps> = ({ report, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-lg rounded shadow-2xl overflow-hidden font-sans">
+        <div className="bg-gray-900 text-white p-4 flex items-center justify-between">
+            <div>
+                <h2 className="font-bold tracking-wider">ТАБЕЛЬ СМЕНЫ №{report.shiftNumber}</h2>
+                <p className="text-xs text-gray-400">{report.directiveTitle}</p>
+            </div>
+            <div className={`w-14 h-14 rounded-full border-4 bg-white flex items-center justify-center text-3xl font-bold ${gradeColors[report.grade]}`}>
+                {report.grade}
+            </div>
+        </div>
+
+        <div className="p-6 space-y-3 text-sm">
+            <div className="flex justify-between border-b pb-2">
+                <span>Правомерные действия по директиве</span>
+                <span className="font-bold text-green-700">{report.correctActions}</span>
+            </div>
+            <div className="flex justify-between border-b pb-2">
+                <span>Сопутствующий ущерб</span>
+                <span className="font-bold text-red-700">{report.collateralDamage}</span>
+            </div>
+            <div className="flex justify-between border-b pb-2">
+                <span>Блокировки, отмененные судом</span>
+                <span className="font-bold text-red-700">{report.overturnedBlocks}</span>
+            </div>
+            <div>
+                <div className="flex justify-between">
+                    <span>Пропущенные нарушители</span>
+                    <span className="font-bold text-orange-700">{report.missedTargets.length}</span>
+                </div>
+                {report.missedTargets.length > 0 && (
+                    <ul className="mt-2 font-mono text-xs text-gray-500 space-y-1">
+                        {report.missedTargets.map(url => <li key={url} className="truncate">{url}</li>)}
+                    </ul>
+                )}
+            </div>
+        </div>
+
+        <div className="p-4 bg-gray-100 flex justify-end">
+            <button
+                onClick={onClose}
+                className="bg-gray-900 text-white px-6 py-2 rounded font-bold hover:bg-gray-700 transition-colors uppercase text-sm"
+            >
+                Принято
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { HotkeyAction, HotkeyBindings, HOTKEY_ACTION_LABELS, HOTKEY_GROUPS, formatKeyEvent } from '../services/hotkeys';
+
+interface ShortcutsWindowProps {
+  bindings: HotkeyBindings;
+  onRebind: (action: HotkeyAction, combo: string) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export const ShortcutsWindow: React.FC<ShortcutsWindowProps> = ({ bindings, onRebind, onReset, onClose }) => {
+  const [editing, setEditing] = useState<HotkeyAction | null>(null);
+
+  // While an action is being reassigned the next combination is captured for it;
+  // otherwise Esc closes the sheet.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        if (editing) setEditing(null);
+        else onClose();
+        return;
+      }
+      if (!editing) return;
+      const combo = formatKeyEvent(e);
+      if (!combo) return;
+      e.preventDefault();
+      onRebind(editing, combo);
+      setEditing(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editing, onRebind, onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-lg max-h-[80vh] rounded shadow-2xl overflow-hidden font-sans flex flex-col">
+        <div className="bg-gray-900 text-white p-4">
+            <h2 className="font-bold tracking-wider">СОЧЕТАНИЯ КЛАВИШ</h2>
+            <p className="text-xs text-gray-400">Нажмите на сочетание, чтобы назначить другое</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 text-sm space-y-5">
+            {HOTKEY_GROUPS.map(group => (
+                <div key={group.title}>
+                    <h3 className="text-xs uppercase text-gray-500 font-bold mb-2">{group.title}</h3>
+                    <div className="divide-y divide-gray-100">
+                        {group.actions.map(action => (
+                            <div key={action} className="flex items-center justify-between py-1.5">
+                                <span>{HOTKEY_ACTION_LABELS[action]}</span>
+                                <button
+                                    onClick={() => setEditing(action)}
+                                    className={`min-w-[7rem] px-2 py-0.5 rounded border font-mono text-xs ${
+                                        editing === action ? 'border-red-500 text-red-600 animate-pulse' : 'border-gray-300 text-gray-700 hover:border-gray-500'
+                                    }`}
+                                >
+                                    {editing === action ? 'Нажмите клавиши…' : bindings[action] || 'не назначено'}
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            ))}
+            <p className="text-xs text-gray-500">
+                Быстрая блокировка и замедление применяются ко всему домену текущей вкладки с методом по умолчанию.
+            </p>
+        </div>
+
+        <div className="p-4 bg-gray-100 flex justify-between">
+            <button onClick={onReset} className="px-4 py-2 rounded font-bold text-gray-600 hover:bg-gray-200 transition-colors uppercase text-sm">
+                По умолчанию
+            </button>
+            <button
+                onClick={onClose}
+                className="bg-gray-900 text-white px-6 py-2 rounded font-bold hover:bg-gray-700 transition-colors uppercase text-sm"
+            >
+                Закрыть
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import { OwnerProfile, ScheduledAppeal } from "../types";
+import { countInteractions } from "./ownerPersona";
+
+export const APPEAL_TICK_MS = 5000;
+
+// Statutory term for the owner to challenge a block, compressed to game time.
+export const FILING_WINDOW_MS = 3 * 60 * 1000;
+
+/**
+ * How likely the owner is to challenge a block in court. Stubborn owners sue more
+ * often, a won case emboldens and a lost one discourages, and an owner who threatened
+ * to sue usually does.
+ */
+export const getAppealChance = (owner: OwnerProfile, siteUrl: string): number => {
+  const { stubbornness, legalBudget } = owner;
+  const precedent = countInteractions(owner, 'COURT_WIN') * 0.15 - countInteractions(owner, 'COURT_LOSS') * 0.1;
+  const threatened = owner.interactions.some(i => i.kind === 'LAWYER_THREAT' && i.url === siteUrl) ? 0.3 : 0;
+  return Math.max(0, Math.min(1, 0.15 + stubbornness * 0.4 + legalBudget * 0.2 + precedent + threatened));
+};
+
+/**
+ * Whether and when the owner of a freshly blocked site goes to court; well-funded
+ * owners have the complaint ready sooner.
+ */
+export const planAppeal = (owner: OwnerProfile, siteUrl: string, siteTitle: string, blockedAt: number = Date.now()): ScheduledAppeal | null => {
+  const { legalBudget } = owner;
+  if (Math.random() >= getAppealChance(owner, siteUrl)) return null;
+
+  const preparation = FILING_WINDOW_MS * (1 - legalBudget * 0.8) * (0.5 + Math.random() * 0.5);
+  return { siteUrl, siteTitle, blockedAt, fileAt: blockedAt + preparation };
+};
+
+export const scheduleAppeal = (appeals: ScheduledAppeal[], appeal: ScheduledAppeal): ScheduledAppeal[] =>
+  [...appeals.filter(a => a.siteUrl !== appeal.siteUrl), appeal];
+
+/**
+ * Owners with a lawyer ask for access to be restored while the case is pending;
+ * the court grants it when RKN has no evidence on file to justify keeping the block.
+ */
+export const decideInterimAccess = (owner: OwnerProfile, evidenceCount: number): boolean =>
+  owner.legalBudget > 0.3 && evidenceCount === 0;
+
+export const isWithinFilingWindow = (appeal: ScheduledAppeal, now: number = Date.now()): boolean =>
+  now - appeal.blockedAt <= FILING_WINDOW_MS;
@@ -0,0 +1,63 @@
+import { BlockingMethod } from "../types";
+
+export interface BlockingMethodProfile {
+  label: string;
+  description: string;
+  errorCode: string;
+  errorDetail: string;
+  // Time until the browser gives up, in ms
+  delayMs: number;
+  // Share of users who still reach the site
+  leakRate: number;
+  // Chance that unrelated sites are caught by the same block
+  collateralRisk: number;
+}
+
+export const BLOCKING_METHODS: Record<BlockingMethod, BlockingMethodProfile> = {
+  [BlockingMethod.DNS]: {
+    label: 'Подмена DNS',
+    description: 'Провайдерские DNS возвращают неверный адрес. Обходится сменой DNS-сервера.',
+    errorCode: 'ERR_NAME_NOT_RESOLVED',
+    errorDetail: 'Не удалось найти IP-адрес сервера.',
+    delayMs: 300,
+    leakRate: 0.35,
+    collateralRisk: 0
+  },
+  [BlockingMethod.IP]: {
+    label: 'Блокировка IP',
+    description: 'Трафик на адреса сервера отбрасывается. Задевает всех соседей по хостингу.',
+    errorCode: 'ERR_CONNECTION_TIMED_OUT',
+    errorDetail: 'Сервер слишком долго не отвечает.',
+    delayMs: 3000,
+    leakRate: 0.05,
+    collateralRisk: 0.4
+  },
+  [BlockingMethod.SNI]: {
+    label: 'Фильтрация SNI',
+    description: 'ТСПУ сбрасывает TLS-рукопожатие по имени хоста.',
+    errorCode: 'ERR_CONNECTION_RESET',
+    errorDetail: 'Соединение сброшено во время TLS-рукопожатия.',
+    delayMs: 800,
+    leakRate: 0.15,
+    collateralRisk: 0.05
+  },
+  [BlockingMethod.DPI]: {
+    label: 'Подавление DPI',
+    description: 'Глубокий анализ пакетов душит трафик до полной непригодности.',
+    errorCode: 'ERR_TIMED_OUT',
+    errorDetail: 'Пакеты теряются в пути, страница не загружается.',
+    delayMs: 6000,
+    leakRate: 0.1,
+    collateralRisk: 0.1
+  }
+};
+
+// Blocks made before methods existed behaved like an SNI reset.
+export const DEFAULT_BLOCKING_METHOD = BlockingMethod.SNI;
+
+/**
+ * Whether this attempt to open a blocked site gets through anyway, as it does for
+ * the method's share of users.
+ */
+export const isBlockLeaking = (method: BlockingMethod, roll: number = Math.random()): boolean =>
+  roll < BLOCKING_METHODS[method].leakRate;
@@ -0,0 +1,178 @@
+import { BlockingMethod, BulkAction, BulkOperation, CachedSiteData, CareerMeters, OwnerProfile, Prescription, PrescriptionAction, RestrictionRule, SiteStatus, ThrottleLevel } from "../types";
+import { findMatchingRule, removeRule, resolveSiteStatus, rulePatternFor, upsertRule } from "./restrictionRules";
+import { getTransitionError } from "./statusMachine";
+import { findCoHostedSites } from "./hosting";
+import { getAppealChance } from "./appeals";
+import { hasOverduePrescription } from "./prescriptions";
+import { ScoringEvent, scoreEvent } from "./scoring";
+
+export const BULK_ACTION_LABELS: Record<BulkAction, string> = {
+  BLOCK: 'Блокировка',
+  SLOW: 'Замедление',
+  UNRESTRICT: 'Восстановить доступ',
+  PRESCRIPTION: 'Предписание'
+};
+
+export interface BulkSettings {
+  method: BlockingMethod;
+  throttle: ThrottleLevel;
+  lawArticle: string;
+  requiredAction: PrescriptionAction;
+  term: number;
+}
+
+export interface BulkContext {
+  rules: RestrictionRule[];
+  getSite: (url: string) => CachedSiteData;
+  getOwner: (url: string) => OwnerProfile;
+  knownHosts: string[];
+  vpnAdoption: number;
+  prescriptions: Prescription[];
+}
+
+export interface BulkPreviewRow {
+  url: string;
+  from: SiteStatus;
+  to: SiteStatus;
+  // Why the site is left out of the operation
+  error: string | null;
+  // Site-level status to write, when the site carries the restriction itself
+  siteStatus: SiteStatus | null;
+  appealChance: number;
+  collateralHosts: string[];
+  event: ScoringEvent | null;
+  delta: Partial<CareerMeters>;
+}
+
+export interface BulkPreview {
+  rows: BulkPreviewRow[];
+  nextRules: RestrictionRule[];
+  expectedAppeals: number;
+  collateralHosts: string[];
+  delta: Partial<CareerMeters>;
+}
+
+const METERS: (keyof CareerMeters)[] = ['approval', 'compliance', 'budget', 'courtLosses'];
+
+const sumDeltas = (deltas: Partial<CareerMeters>[]): Partial<CareerMeters> =>
+  Object.fromEntries(METERS.map(meter => [meter, deltas.reduce((sum, d) => sum + (d[meter] || 0), 0)]));
+
+const createBulkRule = (target: Pick<RestrictionRule, 'kind' | 'pattern'>, status: SiteStatus, sourceUrl: string, settings: Pick<RestrictionRule, 'method' | 'throttle'>, now: number): RestrictionRule => ({
+  ...target,
+  ...settings,
+  id: Math.random().toString(36).substr(2, 9),
+  status,
+  sourceUrl,
+  createdAt: now
+});
+
+/**
+ * Turns a pasted list into URLs: one per line, comma or space, with the scheme
+ * added where it was left off. Anything that is not a web address is dropped.
+ */
+export const parseUrlList = (text: string): string[] => {
+  const urls = text.split(/[\s,;]+/).filter(Boolean).map(item => {
+    try {
+      const parsed = new URL(/^https?:\/\//i.test(item) ? item : `https://${item}`);
+      return parsed.hostname.includes('.') ? parsed.href : null;
+    } catch (e) {
+      return null;
+    }
+  });
+  return Array.from(new Set(urls.filter((url): url is string => url !== null)));
+};
+
+/**
+ * Works out what the action would do to each site in turn, against the rules as the
+ * previous sites left them, so two pages on one host are not restricted twice.
+ * Blocks and slowdowns cover the whole domain, as a bulk list names sites, not pages.
+ */
+export const previewBulkAction = (urls: string[], action: BulkAction, settings: BulkSettings, context: BulkContext, now: number = Date.now()): BulkPreview => {
+  let rules = context.rules;
+  const batchHosts = urls.map(url => new URL(url).hostname);
+
+  const rows = urls.map((url): BulkPreviewRow => {
+    const site = context.getSite(url);
+    const from = resolveSiteStatus(site.status, findMatchingRule(rules, url));
+    let nextRules = rules;
+    let siteStatus: SiteStatus | null = null;
+    let collateralHosts: string[] = [];
+    let event: ScoringEvent | null = null;
+
+    switch (action) {
+      case 'BLOCK': {
+        const isIpBlock = settings.method === BlockingMethod.IP;
+        const target = isIpBlock
+          ? { kind: 'IP_ADDRESS' as const, pattern: site.hosting.ip }
+          : { kind: 'HOST' as const, pattern: rulePatternFor('HOST', url) };
+        nextRules = upsertRule(rules, createBulkRule(target, SiteStatus.BLOCKED, url, { method: settings.method }, now));
+        // Sites in the batch are targets, not bystanders.
+        collateralHosts = isIpBlock
+          ? findCoHostedSites(context.knownHosts, { ip: site.hosting.ip }).filter(h => !batchHosts.includes(h))
+          : [];
+        event = { type: 'BLOCK', site, method: settings.method, collateralHosts, vpnAdoption: context.vpnAdoption, prescriptionOverdue: hasOverduePrescription(context.prescriptions, url) };
+        break;
+      }
+      case 'SLOW':
+        nextRules = upsertRule(rules, createBulkRule({ kind: 'HOST', pattern: rulePatternFor('HOST', url) }, SiteStatus.SLOWED, url, { throttle: settings.throttle }, now));
+        event = { type: 'SLOW', site, throttle: settings.throttle };
+        break;
+      case 'UNRESTRICT': {
+        const matched = findMatchingRule(rules, url);
+        nextRules = matched ? removeRule(rules, matched.id) : rules;
+        if (site.status === SiteStatus.BLOCKED || site.status === SiteStatus.SLOWED) siteStatus = SiteStatus.NORMAL;
+        event = { type: 'UNRESTRICT', site };
+        break;
+      }
+      case 'PRESCRIPTION':
+        break;
+    }
+
+    const to = resolveSiteStatus(siteStatus || site.status, findMatchingRule(nextRules, url));
+    const error = getTransitionError(from, to, 'INSPECTOR')
+      || (action !== 'PRESCRIPTION' && from === to ? 'Статус ресурса не изменится' : null);
+    if (error) {
+      return { url, from, to: from, error, siteStatus: null, appealChance: 0, collateralHosts: [], event: null, delta: {} };
+    }
+
+    rules = nextRules;
+    return {
+      url,
+      from,
+      to,
+      error: null,
+      siteStatus,
+      appealChance: to === SiteStatus.BLOCKED ? getAppealChance(context.getOwner(url), url) : 0,
+      collateralHosts,
+      event,
+      delta: event ? scoreEvent(event).delta : {}
+    };
+  });
+
+  const applied = rows.filter(row => !row.error);
+  return {
+    rows,
+    nextRules: rules,
+    expectedAppeals: applied.reduce((sum, row) => sum + row.appealChance, 0),
+    collateralHosts: Array.from(new Set(applied.flatMap(row => row.collateralHosts))),
+    delta: sumDeltas(applied.map(row => row.delta))
+  };
+};
+
+/**
+ * Rules the operation put in place are lifted and the ones it replaced or removed
+ * come back; rules written since by other actions are left alone.
+ */
+export const revertBulkRules = (rules: RestrictionRule[], operation: BulkOperation): RestrictionRule[] => [
+  ...rules.filter(rule => !operation.addedRules.some(added => added.id === rule.id)),
+  ...operation.removedRules.filter(removed => !rules.some(rule => rule.id === removed.id))
+];
+
+export const diffRules = (before: RestrictionRule[], after: RestrictionRule[]): Pick<BulkOperation, 'addedRules' | 'removedRules'> => ({
+  addedRules: after.filter(rule => !before.some(r => r.id === rule.id)),
+  removedRules: before.filter(rule => !after.some(r => r.id === rule.id))
+});
+
+// Only the latest operation still in force can be rolled back, as later ones may build on it.
+export const getUndoableOperation = (operations: BulkOperation[]): BulkOperation | null =>
+  [...operations].reverse().find(op => op.undoneAt === null) || null;
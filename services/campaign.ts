@@ -0,0 +1,147 @@
+import { CampaignState, CachedSiteData, Directive, EnforcementAction, SearchResult, Shift, ShiftAction, ShiftActionVerdict, ShiftReport, ViolationCategory } from "../types";
+import { detectSiteCategory } from "./siteProfile";
+import { planViolations } from "./violations";
+
+export const DIRECTIVES: Directive[] = [
+  {
+    id: 'gaming-lgbt',
+    title: 'Ограничить игровые магазины, продвигающие ЛГБТ-контент',
+    searchQuery: 'игровые магазины',
+    targetCategory: 'gaming',
+    targetViolation: ViolationCategory.LGBT_PROPAGANDA,
+    protectedCategories: [],
+    timeBudgetSec: 300
+  },
+  {
+    id: 'banks-hands-off',
+    title: 'Проверить финансовый сектор. Банковские сайты не трогать',
+    searchQuery: 'банк кредит вклад',
+    targetCategory: null,
+    targetViolation: null,
+    protectedCategories: ['banking'],
+    timeBudgetSec: 240
+  },
+  {
+    id: 'news-fakes',
+    title: 'Пресечь распространение фейков об армии в СМИ',
+    searchQuery: 'новости политика',
+    targetCategory: 'news',
+    targetViolation: ViolationCategory.MILITARY_FAKES,
+    protectedCategories: ['banking'],
+    timeBudgetSec: 300
+  },
+  {
+    id: 'social-protests',
+    title: 'Пресечь призывы к несанкционированным митингам в соцсетях',
+    searchQuery: 'социальные сети чат общение',
+    targetCategory: 'social',
+    targetViolation: ViolationCategory.PROTEST_CALLS,
+    protectedCategories: [],
+    timeBudgetSec: 300
+  },
+  {
+    id: 'blogs-sweep',
+    title: 'Профилактическая проверка блогов. Госуслуги и банки не трогать',
+    searchQuery: 'блог мнение свобода',
+    targetCategory: 'generic',
+    targetViolation: null,
+    protectedCategories: ['banking', 'government'],
+    timeBudgetSec: 360
+  }
+];
+
+export const createCampaignState = (): CampaignState => ({
+  nextShiftNumber: 1,
+  activeShift: null,
+  reports: []
+});
+
+/**
+ * Directives rotate with the shift number so every campaign plays out the same way.
+ */
+export const getDirectiveForShift = (shiftNumber: number): Directive =>
+  DIRECTIVES[(shiftNumber - 1) % DIRECTIVES.length];
+
+// The directive's query may bring back pages of results; the shift works the top of them.
+const SHIFT_TARGET_COUNT = 5;
+
+export const startShift = (state: CampaignState, targets: SearchResult[]): CampaignState => ({
+  ...state,
+  nextShiftNumber: state.nextShiftNumber + 1,
+  activeShift: {
+    number: state.nextShiftNumber,
+    directive: getDirectiveForShift(state.nextShiftNumber),
+    targets: targets.slice(0, SHIFT_TARGET_COUNT),
+    actions: [],
+    startedAt: Date.now()
+  }
+});
+
+export const getShiftTimeLeft = (shift: Shift, now: number = Date.now()): number =>
+  Math.max(0, shift.directive.timeBudgetSec - Math.floor((now - shift.startedAt) / 1000));
+
+const isInScope = (directive: Directive, url: string, violations: ViolationCategory[]): boolean => {
+  if (directive.targetCategory && detectSiteCategory(url) !== directive.targetCategory) return false;
+  if (directive.targetViolation) return violations.includes(directive.targetViolation);
+  return violations.length > 0;
+};
+
+/**
+ * Judges a single restrictive action against the directive and the site's ground truth.
+ */
+export const judgeShiftAction = (directive: Directive, site: CachedSiteData, action: EnforcementAction): ShiftActionVerdict => {
+  const violations = site.violations.map(v => v.category);
+  if (action !== 'UNRESTRICT' && directive.protectedCategories.includes(detectSiteCategory(site.url))) return 'COLLATERAL';
+  if (action === 'UNRESTRICT') return violations.length > 0 ? 'OUT_OF_SCOPE' : 'CORRECT';
+  if (violations.length === 0) return 'COLLATERAL';
+  return isInScope(directive, site.url, violations) ? 'CORRECT' : 'OUT_OF_SCOPE';
+};
+
+export const recordShiftAction = (state: CampaignState, action: ShiftAction): CampaignState => {
+  if (!state.activeShift) return state;
+  return {
+    ...state,
+    activeShift: { ...state.activeShift, actions: [...state.activeShift.actions, action] }
+  };
+};
+
+const gradeShift = (correct: number, collateral: number, overturned: number, missed: number): ShiftReport['grade'] => {
+  const score = correct * 2 - collateral * 3 - overturned * 2 - missed;
+  if (score >= 6) return 'A';
+  if (score >= 3) return 'B';
+  if (score >= 0) return 'C';
+  if (score >= -3) return 'D';
+  return 'F';
+};
+
+/**
+ * Closes the active shift and files its report card.
+ */
+export const finishShift = (state: CampaignState): CampaignState => {
+  const shift = state.activeShift;
+  if (!shift) return state;
+
+  const count = (verdict: ShiftActionVerdict) => shift.actions.filter(a => a.verdict === verdict).length;
+  const correctActions = count('CORRECT');
+  const collateralDamage = count('COLLATERAL');
+  const overturnedBlocks = count('OVERTURNED');
+
+  const actedOn = new Set(shift.actions.filter(a => a.action !== 'UNRESTRICT').map(a => a.url));
+  const missedTargets = shift.targets
+    .filter(t => !actedOn.has(t.url))
+    .filter(t => isInScope(shift.directive, t.url, planViolations(t.url, false).map(v => v.category)))
+    .map(t => t.url);
+
+  const report: ShiftReport = {
+    shiftNumber: shift.number,
+    directiveTitle: shift.directive.title,
+    correctActions,
+    collateralDamage,
+    overturnedBlocks,
+    missedTargets,
+    grade: gradeShift(correctActions, collateralDamage, overturnedBlocks, missedTargets.length),
+    finishedAt: Date.now()
+  };
+
+  return { ...state, activeShift: null, reports: [report, ...state.reports] };
+};
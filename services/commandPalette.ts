@@ -0,0 +1,64 @@
+export type PaletteSection = 'ACTION' | 'TAB' | 'REGISTRY' | 'PAGE';
+
+export interface PaletteCommand {
+  id: string;
+  section: PaletteSection;
+  label: string;
+  // Secondary line: URL, scope, shortcut
+  detail: string;
+  icon: string;
+  run: () => void;
+}
+
+export const PALETTE_SECTION_LABELS: Record<PaletteSection, string> = {
+  ACTION: 'Действия',
+  TAB: 'Вкладки',
+  REGISTRY: 'Реестр',
+  PAGE: 'Страницы'
+};
+
+const MAX_PALETTE_RESULTS = 30;
+
+/**
+ * How well the query matches the text as a subsequence, or null if it does not.
+ * Consecutive letters and letters at word starts score higher, so "блк" finds
+ * "Блокировка" and "зм" puts "Замедление" first.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  let score = 0;
+  let position = -1;
+  for (const char of needle) {
+    const found = haystack.indexOf(char, position + 1);
+    if (found === -1) return null;
+    if (found === position + 1) score += 2;
+    if (found === 0 || /[\s/.:\-]/.test(haystack[found - 1])) score += 3;
+    score += 1;
+    position = found;
+  }
+  // Shorter texts are closer matches for the same letters.
+  return score - haystack.length * 0.01;
+};
+
+/**
+ * Commands matching the query, best first. Without a query everything is listed in
+ * section order.
+ */
+export const filterCommands = (commands: PaletteCommand[], query: string): PaletteCommand[] => {
+  if (!query.trim()) return commands.slice(0, MAX_PALETTE_RESULTS);
+  return commands
+    .map(command => {
+      const label = fuzzyScore(query, command.label);
+      const detail = fuzzyScore(query, command.detail);
+      // A label match outranks one found only in the detail line.
+      const score = label !== null ? label + 10 : detail;
+      return { command, score };
+    })
+    .filter((entry): entry is { command: PaletteCommand; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_PALETTE_RESULTS)
+    .map(entry => entry.command);
+};
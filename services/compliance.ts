@@ -0,0 +1,83 @@
+import { ComplianceCheck, OwnerProfile, PlantedViolation } from "../types";
+import { countInteractions } from "./ownerPersona";
+
+// How long after an agreement the inspector comes back to check the page.
+export const COMPLIANCE_CHECK_MS = 3 * 60 * 1000;
+
+export type DiffLineKind = 'SAME' | 'ADDED' | 'REMOVED';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+}
+
+/**
+ * How far the owner can be trusted to keep a promise. Evasive and stubborn owners
+ * keep fewer, and one caught putting material back is trusted less every time.
+ */
+export const assessIntegrity = (owner: OwnerProfile): number =>
+  Math.max(0, Math.min(1, 1 - owner.evasiveness * 0.6 - owner.stubbornness * 0.3 - countInteractions(owner, 'REINSTATED') * 0.2));
+
+export const createComplianceCheck = (snapshot: string, snapshotViolations: PlantedViolation[], now: number = Date.now()): ComplianceCheck => ({
+  agreedAt: now,
+  dueAt: now + COMPLIANCE_CHECK_MS,
+  snapshot,
+  snapshotViolations,
+  status: 'PENDING',
+  checkedAt: null,
+  revisited: null
+});
+
+// Once the regulator looks away, an owner with little integrity quietly puts the material back.
+export const decideReinstatement = (owner: OwnerProfile): boolean =>
+  Math.random() < (1 - assessIntegrity(owner)) * 0.7;
+
+export const completeComplianceCheck = (check: ComplianceCheck, revisited: string, reinstated: boolean, now: number = Date.now()): ComplianceCheck => ({
+  ...check,
+  status: reinstated ? 'REINSTATED' : 'CONFIRMED',
+  checkedAt: now,
+  revisited
+});
+
+const BLOCK_END = /<\/(p|div|h[1-6]|li|tr|section|article|header|footer|blockquote)>|<br\s*\/?>/gi;
+
+// Visible text of a page, one block per line, so versions can be compared line by line.
+const toTextLines = (html: string): string[] => {
+  const doc = new DOMParser().parseFromString(html.replace(BLOCK_END, '$&\n'), 'text/html');
+  return (doc.body.textContent || '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+};
+
+/**
+ * Line diff of the visible text of two versions of a page, by longest common subsequence.
+ */
+export const diffPages = (before: string, after: string): DiffLine[] => {
+  const a = toTextLines(before);
+  const b = toTextLines(after);
+  const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'SAME', text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ kind: 'REMOVED', text: a[i++] });
+    } else {
+      lines.push({ kind: 'ADDED', text: b[j++] });
+    }
+  }
+  a.slice(i).forEach(text => lines.push({ kind: 'REMOVED', text }));
+  b.slice(j).forEach(text => lines.push({ kind: 'ADDED', text }));
+  return lines;
+};
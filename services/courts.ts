@@ -0,0 +1,128 @@
+import { CourtCase, CourtHearing, CourtInstance, HearingSpeaker, HearingTurn, OwnerProfile } from "../types";
+import { hashString } from "./siteProfile";
+
+export interface CourtProfile {
+  title: string;
+  shortTitle: string;
+  judges: string[];
+  // How readily the court sides with RKN when the evidence is thin, from 0 to 1
+  strictness: number;
+  // How the bench approaches a case, for the model prompt
+  persona: string;
+}
+
+export const COURT_INSTANCES: Record<CourtInstance, CourtProfile> = {
+  FIRST: {
+    title: 'Районный цифровой суд',
+    shortTitle: 'Первая инстанция',
+    judges: ['В.И. Суровцев', 'А.А. Формалистов', 'О.Н. Исполнительная'],
+    strictness: 0.7,
+    persona: 'A district judge who trusts the regulator and rarely reads past the first page of a case file.'
+  },
+  APPEAL: {
+    title: 'Апелляционный цифровой суд',
+    shortTitle: 'Апелляция',
+    judges: ['Е.П. Непреклонная', 'Т.Н. Взвешенная', 'Г.Р. Протокольный'],
+    strictness: 0.45,
+    persona: 'An appellate panel that checks whether the lower court applied the law correctly and the evidence supports the cited article.'
+  },
+  CASSATION: {
+    title: 'Верховный Цифровой Суд',
+    shortTitle: 'Кассация',
+    judges: ['М.С. Верховцева', 'Л.Б. Кассационный'],
+    strictness: 0.25,
+    persona: 'A supreme court bench that cares about precedent, proportionality and procedural violations above all.'
+  }
+};
+
+export const COURT_ORDER: CourtInstance[] = ['FIRST', 'APPEAL', 'CASSATION'];
+
+// Statutory term for RKN to appear once a complaint is filed, compressed to game time.
+export const REVIEW_DEADLINE_MS = 5 * 60 * 1000;
+
+// Statements the inspector may make before the court moves on to closing statements.
+export const HEARING_ROUNDS = 3;
+
+export const HEARING_SPEAKER_LABELS: Record<HearingSpeaker, string> = {
+  LAWYER: 'Представитель заявителя',
+  INSPECTOR: 'Представитель РКН',
+  JUDGE: 'Судья'
+};
+
+export type HearingPhase = 'ARGUMENTS' | 'CLOSING' | 'DELIBERATION';
+
+/**
+ * Where a hearing stands: open debate, closing statements only, or the judge deliberating
+ * after the inspector's closing statement.
+ */
+export const getHearingPhase = (transcript: HearingTurn[]): HearingPhase => {
+  const statements = transcript.filter(t => t.speaker === 'INSPECTOR');
+  if (statements.some(t => t.isClosing)) return 'DELIBERATION';
+  return statements.length >= HEARING_ROUNDS ? 'CLOSING' : 'ARGUMENTS';
+};
+
+export const createHearingTurn = (
+  speaker: HearingSpeaker,
+  text: string,
+  evidenceId: string | null = null,
+  isClosing = false
+): HearingTurn => ({ speaker, text, evidenceId, isClosing, timestamp: Date.now() });
+
+export const pickJudge = (instance: CourtInstance, siteTitle: string): string => {
+  const { judges } = COURT_INSTANCES[instance];
+  return judges[hashString(`${siteTitle}:${instance}`) % judges.length];
+};
+
+export const createCourtCase = (existing: CourtCase[], siteUrl: string, siteTitle: string, interimAccess = false): CourtCase => ({
+  id: Math.random().toString(36).substr(2, 9),
+  caseNumber: `ЦС-${String(existing.length + 1).padStart(4, '0')}/${new Date().getFullYear()}`,
+  siteUrl,
+  siteTitle,
+  openedAt: Date.now(),
+  hearings: [],
+  transcript: [],
+  deadline: Date.now() + REVIEW_DEADLINE_MS,
+  interimAccess,
+  finalVerdict: null,
+  closedAt: null
+});
+
+export const findOpenCase = (cases: CourtCase[], siteUrl: string): CourtCase | null =>
+  cases.find(c => c.siteUrl === siteUrl && c.finalVerdict === null) || null;
+
+/**
+ * Open cases where RKN let the term run out without appearing; once a hearing has
+ * opened the deadline is met.
+ */
+export const findOverdueCases = (cases: CourtCase[], now: number = Date.now()): CourtCase[] =>
+  cases.filter(c => c.finalVerdict === null && c.hearings.length === 0 && c.transcript.length === 0 && now > c.deadline);
+
+export const getLastHearing = (courtCase: CourtCase): CourtHearing | null =>
+  courtCase.hearings[courtCase.hearings.length - 1] || null;
+
+/**
+ * The court that hears the case next, or null once the supreme level has ruled.
+ */
+export const getNextInstance = (courtCase: CourtCase): CourtInstance | null => {
+  const last = getLastHearing(courtCase);
+  if (!last) return 'FIRST';
+  return COURT_ORDER[COURT_ORDER.indexOf(last.instance) + 1] || null;
+};
+
+/**
+ * Whether a losing owner takes the case higher; stubborn owners fight to the end
+ * if they can pay for it.
+ */
+export const decideOwnerEscalation = (owner: OwnerProfile, instance: CourtInstance): boolean => {
+  if (instance === 'CASSATION') return false;
+  return Math.random() < Math.min(1, owner.stubbornness * (0.5 + owner.legalBudget));
+};
+
+export const setCaseTranscript = (cases: CourtCase[], caseId: string, transcript: HearingTurn[]): CourtCase[] =>
+  cases.map(c => c.id === caseId ? { ...c, transcript } : c);
+
+export const recordHearing = (cases: CourtCase[], caseId: string, hearing: CourtHearing): CourtCase[] =>
+  cases.map(c => c.id === caseId ? { ...c, hearings: [...c.hearings, hearing], transcript: [] } : c);
+
+export const closeCourtCase = (cases: CourtCase[], caseId: string, finalVerdict: 'UPHOLD' | 'OVERTURN'): CourtCase[] =>
+  cases.map(c => c.id === caseId ? { ...c, finalVerdict, closedAt: Date.now() } : c);
@@ -0,0 +1,149 @@
+import { CachedSiteData, EvasionState, MirrorSite, SearchResult, SiteStatus } from "../types";
+import { hashString, estimatePopularity } from "./siteProfile";
+import { deriveOwnerTraits } from "./ownerPersona";
+import { resolveHostingForUrl } from "./hosting";
+
+export const EVASION_TICK_MS = 20000;
+const MAX_MIRRORS_PER_SITE = 3;
+const MAX_VPN_ADOPTION = 95;
+
+const MIRROR_PATTERNS = [
+  (name: string) => `${name}-mirror.net`,
+  (name: string) => `${name}2.org`,
+  (name: string) => `${name}.su`,
+  (name: string) => `new-${name}.cc`,
+  (name: string) => `${name}-zerkalo.xyz`
+];
+
+export const createEvasionState = (): EvasionState => ({
+  mirrors: [],
+  vpnAdoption: 3,
+  tick: 0
+});
+
+const siteName = (url: string) => {
+  const labels = new URL(url).hostname.replace(/^www\./, '').split('.');
+  return labels.length > 1 ? labels[labels.length - 2] : labels[0];
+};
+
+export const findMirror = (state: EvasionState, url: string): MirrorSite | null =>
+  state.mirrors.find(m => m.url === url) || null;
+
+/**
+ * Mirrors of mirrors still lead back to the site that was blocked first.
+ */
+export const resolveOrigin = (state: EvasionState, url: string): string =>
+  findMirror(state, url)?.originUrl || url;
+
+export const getMirrorsOf = (state: EvasionState, originUrl: string): MirrorSite[] =>
+  state.mirrors.filter(m => m.originUrl === originUrl);
+
+/**
+ * A mirror serves the origin's pages under a new name, plus a banner telling users where they are.
+ */
+export const buildMirrorSite = (mirror: MirrorSite, origin: CachedSiteData): CachedSiteData => ({
+  ...origin,
+  url: mirror.url,
+  title: new URL(mirror.url).hostname,
+  content: origin.content
+    ? `<div class="bg-yellow-300 text-black text-center text-sm font-bold py-2">Это наш новый адрес! Старый сайт заблокирован — добавьте нас в закладки и установите VPN.</div>${origin.content}`
+    : null,
+  evidence: [],
+  hosting: resolveHostingForUrl(mirror.url),
+  status: SiteStatus.NORMAL,
+  chatHistory: [],
+  auditLog: [],
+  geoBlocked: false,
+  counterOffer: null,
+  legalBasisRequested: false,
+  compliance: null,
+  lastVisited: Date.now()
+});
+
+/**
+ * One step of simulated time: blocked owners may open mirrors, and every
+ * popular site that stays blocked pushes more people to VPNs.
+ */
+export const advanceEvasion = (state: EvasionState, blockedUrls: string[]): { state: EvasionState; newMirrors: MirrorSite[] } => {
+  const tick = state.tick + 1;
+  const newMirrors: MirrorSite[] = [];
+
+  blockedUrls.forEach(originUrl => {
+    const existing = getMirrorsOf(state, originUrl).length;
+    if (existing >= MAX_MIRRORS_PER_SITE) return;
+
+    const { evasiveness } = deriveOwnerTraits(originUrl);
+    const roll = (hashString(`${originUrl}:${tick}`) % 100) / 100;
+    if (roll >= evasiveness * 0.5) return;
+
+    // Sites with the same name would otherwise share a mirror address; try the next pattern instead.
+    const taken = [...state.mirrors, ...newMirrors].map(m => m.url);
+    const start = hashString(originUrl) + existing;
+    const url = MIRROR_PATTERNS
+      .map((_, i) => `https://${MIRROR_PATTERNS[(start + i) % MIRROR_PATTERNS.length](siteName(originUrl))}/`)
+      .find(candidate => !taken.includes(candidate));
+    if (!url) return;
+
+    newMirrors.push({
+      url,
+      originUrl,
+      createdAt: Date.now(),
+      traced: false
+    });
+  });
+
+  const vpnGrowth = blockedUrls.reduce((sum, url) => sum + estimatePopularity(url) * 0.5, 0);
+
+  return {
+    state: {
+      mirrors: [...state.mirrors, ...newMirrors],
+      vpnAdoption: Math.min(MAX_VPN_ADOPTION, state.vpnAdoption + vpnGrowth),
+      tick
+    },
+    newMirrors
+  };
+};
+
+/**
+ * Immediate VPN spike when a block lands; popular services spike it most.
+ */
+export const registerBlock = (state: EvasionState, url: string): EvasionState => ({
+  ...state,
+  vpnAdoption: Math.min(MAX_VPN_ADOPTION, state.vpnAdoption + estimatePopularity(url) * 3)
+});
+
+/**
+ * Share of users that get through a block once VPN users are counted.
+ */
+export const effectiveLeakRate = (leakRate: number, vpnAdoption: number): number =>
+  leakRate + (1 - leakRate) * (vpnAdoption / 100);
+
+export const traceMirror = (state: EvasionState, url: string): EvasionState => ({
+  ...state,
+  mirrors: state.mirrors.map(m => m.url === url ? { ...m, traced: true } : m)
+});
+
+/**
+ * Mirrors of sites that appear in the results, or whose origin matches the query,
+ * surface in search just like the original did.
+ */
+export const injectMirrorResults = (results: SearchResult[], state: EvasionState, siteCache: Record<string, CachedSiteData>, query: string): SearchResult[] => {
+  const normalized = query.toLowerCase();
+  const resultHosts = new Set(results.map(r => new URL(r.url).hostname));
+
+  const extra = state.mirrors
+    .filter(m => !results.some(r => r.url === m.url))
+    .filter(m => resultHosts.has(new URL(m.originUrl).hostname) || normalized.includes(siteName(m.originUrl)))
+    .map(m => {
+      const origin = siteCache[m.originUrl];
+      const title = origin ? origin.title : new URL(m.originUrl).hostname;
+      return {
+        title: `${title} — официальное зеркало`,
+        url: m.url,
+        snippet: `Новый адрес ${title}. Доступ без ограничений.`,
+        kind: 'WEB' as const
+      };
+    });
+
+  return [...results, ...extra];
+};
@@ -0,0 +1,124 @@
+import { HostingInfo, RestrictionRule, SiteStatus } from "../types";
+import { hashString } from "./siteProfile";
+
+interface HostingProvider {
+  name: string;
+  asn: string;
+  isCdn: boolean;
+  // /24 prefixes the provider places customer sites in
+  prefixes: string[];
+  // Distinct addresses used per prefix; small pools mean heavy sharing
+  addressesPerPrefix: number;
+}
+
+const PROVIDERS: Record<string, HostingProvider> = {
+  cloudflare: { name: 'Cloudflare', asn: 'AS13335', isCdn: true, prefixes: ['104.21.3'], addressesPerPrefix: 2 },
+  akamai: { name: 'Akamai', asn: 'AS20940', isCdn: true, prefixes: ['23.45.12'], addressesPerPrefix: 2 },
+  cloudfront: { name: 'Amazon CloudFront', asn: 'AS16509', isCdn: true, prefixes: ['13.224.5'], addressesPerPrefix: 2 },
+  regru: { name: 'REG.RU', asn: 'AS197695', isCdn: false, prefixes: ['194.58.112'], addressesPerPrefix: 2 },
+  timeweb: { name: 'Timeweb', asn: 'AS9123', isCdn: false, prefixes: ['92.53.96'], addressesPerPrefix: 2 },
+  selectel: { name: 'Selectel', asn: 'AS49505', isCdn: false, prefixes: ['95.213.4'], addressesPerPrefix: 2 }
+};
+
+const SHARED_PROVIDER_KEYS = Object.keys(PROVIDERS);
+
+// Large services run their own networks and share addresses with nobody.
+const DEDICATED_NETWORKS: { pattern: RegExp; name: string; asn: string; prefix: string }[] = [
+  { pattern: /youtube\.com|google\.com/, name: 'Google', asn: 'AS15169', prefix: '142.250.74' },
+  { pattern: /vk\.com|ok\.ru/, name: 'VK', asn: 'AS47541', prefix: '87.240.132' },
+  { pattern: /telegram/, name: 'Telegram Messenger', asn: 'AS62041', prefix: '149.154.167' },
+  { pattern: /yandex/, name: 'Яндекс', asn: 'AS13238', prefix: '77.88.55' },
+  { pattern: /gosuslugi|sberbank|vtb\.ru/, name: 'Ростелеком ЦОД', asn: 'AS12389', prefix: '213.59.253' }
+];
+
+// Well-known sites that sit behind a particular shared CDN.
+const KNOWN_CDN_CUSTOMERS: { pattern: RegExp; provider: string }[] = [
+  { pattern: /discord\.com|habr\.com|meduza\.io/, provider: 'cloudflare' },
+  { pattern: /steampowered\.com|playstation\.com/, provider: 'akamai' },
+  { pattern: /twitch\.tv|epicgames\.com|roblox\.com/, provider: 'cloudfront' }
+];
+
+/**
+ * Small businesses that live on the same shared hosting as everything else.
+ * They are who gets hurt when an address is blocked wholesale.
+ */
+const BYSTANDER_DOMAINS = [
+  'pekarnya-ivanova.ru', 'detsad-solnyshko.ru', 'avtoservis-garage.ru', 'clinic-zdorovie.ru', 'tsvety-na-dom.ru',
+  'shkola-41.edu.ru', 'remont-kvartir-msk.ru', 'veterinar-druzhok.ru', 'stroymarket-kirpich.ru', 'kafe-uyut.ru',
+  'notarius-petrova.ru', 'fitness-atlet.ru', 'biblioteka-gorod.ru', 'taxi-bystro.ru', 'optika-zorkiy.ru',
+  'yarmarka-masterov.ru', 'turagentstvo-leto.ru', 'kurs-angliyskogo.ru', 'zoomagazin-hvost.ru', 'apteka-zdravitsa.ru',
+  'indie-dev-blog.io', 'photographer-anna.com', 'open-source-tools.dev', 'chess-club.org', 'hiking-maps.net',
+  'startup-landing.app', 'podcast-zavtra.fm', 'craft-beer-reviews.com', 'math-olympiad.org', 'knitting-patterns.net'
+];
+
+const hostnameOf = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch (e) {
+    return url;
+  }
+};
+
+/**
+ * Deterministic network location of a host: address, /24 subnet, ASN and operator.
+ */
+export const resolveHosting = (hostname: string): HostingInfo => {
+  const seed = hashString(hostname);
+
+  const dedicated = DEDICATED_NETWORKS.find(n => n.pattern.test(hostname));
+  if (dedicated) {
+    return {
+      ip: `${dedicated.prefix}.${10 + seed % 200}`,
+      subnet: `${dedicated.prefix}.0/24`,
+      asn: dedicated.asn,
+      provider: dedicated.name,
+      isCdn: false
+    };
+  }
+
+  const known = KNOWN_CDN_CUSTOMERS.find(c => c.pattern.test(hostname));
+  const provider = PROVIDERS[known ? known.provider : SHARED_PROVIDER_KEYS[seed % SHARED_PROVIDER_KEYS.length]];
+  const prefix = provider.prefixes[Math.floor(seed / 8) % provider.prefixes.length];
+  return {
+    ip: `${prefix}.${1 + Math.floor(seed / 32) % provider.addressesPerPrefix}`,
+    subnet: `${prefix}.0/24`,
+    asn: provider.asn,
+    provider: provider.name,
+    isCdn: provider.isCdn
+  };
+};
+
+export const resolveHostingForUrl = (url: string): HostingInfo => resolveHosting(hostnameOf(url));
+
+/**
+ * Every host in the known universe that answers from the given address or subnet.
+ */
+export const findCoHostedSites = (knownHosts: string[], match: { ip?: string; subnet?: string }): string[] => {
+  const universe = Array.from(new Set([...BYSTANDER_DOMAINS, ...knownHosts]));
+  return universe.filter(host => {
+    const hosting = resolveHosting(host);
+    return (match.ip && hosting.ip === match.ip) || (match.subnet && hosting.subnet === match.subnet);
+  }).sort();
+};
+
+export interface CollateralEntry {
+  rule: RestrictionRule;
+  originHost: string;
+  affectedHosts: string[];
+}
+
+/**
+ * For each address-level block, the unrelated sites it took down with it.
+ */
+export const buildCollateralReport = (rules: RestrictionRule[], knownHosts: string[]): CollateralEntry[] =>
+  rules
+    .filter(rule => rule.status === SiteStatus.BLOCKED && (rule.kind === 'IP_ADDRESS' || rule.kind === 'SUBNET'))
+    .map(rule => {
+      const originHost = rule.sourceUrl ? hostnameOf(rule.sourceUrl) : '';
+      const match = rule.kind === 'IP_ADDRESS' ? { ip: rule.pattern } : { subnet: rule.pattern };
+      return {
+        rule,
+        originHost,
+        affectedHosts: findCoHostedSites(knownHosts, match).filter(host => host !== originHost)
+      };
+    });
@@ -0,0 +1,99 @@
+export type HotkeyAction =
+  | 'OPEN_PALETTE'
+  | 'SHOW_SHORTCUTS'
+  | 'SLOW'
+  | 'BLOCK'
+  | 'CONTACT'
+  | 'UNRESTRICT'
+  | 'OPEN_COURT'
+  | 'NEW_TAB'
+  | 'CLOSE_TAB'
+  | 'BACK'
+  | 'FORWARD'
+  | 'FOCUS_ADDRESS';
+
+export type HotkeyBindings = Record<HotkeyAction, string>;
+
+export const HOTKEY_ACTION_LABELS: Record<HotkeyAction, string> = {
+  OPEN_PALETTE: 'Палитра команд',
+  SHOW_SHORTCUTS: 'Список сочетаний клавиш',
+  SLOW: 'Замедление',
+  BLOCK: 'Блокировка',
+  CONTACT: 'Связаться',
+  UNRESTRICT: 'Восстановить доступ',
+  OPEN_COURT: 'Явиться в суд',
+  NEW_TAB: 'Новая вкладка',
+  CLOSE_TAB: 'Закрыть вкладку',
+  BACK: 'Назад',
+  FORWARD: 'Вперёд',
+  FOCUS_ADDRESS: 'Адресная строка'
+};
+
+export const HOTKEY_GROUPS: { title: string; actions: HotkeyAction[] }[] = [
+  { title: 'Общие', actions: ['OPEN_PALETTE', 'SHOW_SHORTCUTS'] },
+  { title: 'Действия РКН', actions: ['SLOW', 'BLOCK', 'CONTACT', 'UNRESTRICT', 'OPEN_COURT'] },
+  { title: 'Браузер', actions: ['NEW_TAB', 'CLOSE_TAB', 'BACK', 'FORWARD', 'FOCUS_ADDRESS'] }
+];
+
+// Ctrl+T and Ctrl+W belong to the real browser and cannot be taken over, hence Alt.
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  OPEN_PALETTE: 'Ctrl+K',
+  SHOW_SHORTCUTS: 'Ctrl+/',
+  SLOW: 'Alt+S',
+  BLOCK: 'Alt+B',
+  CONTACT: 'Alt+C',
+  UNRESTRICT: 'Alt+R',
+  OPEN_COURT: 'Alt+J',
+  NEW_TAB: 'Alt+T',
+  CLOSE_TAB: 'Alt+W',
+  BACK: 'Alt+ArrowLeft',
+  FORWARD: 'Alt+ArrowRight',
+  FOCUS_ADDRESS: 'Ctrl+L'
+};
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta'];
+
+/**
+ * The combination a key press stands for, e.g. "Ctrl+Shift+B", or null for a bare
+ * modifier. Letters and digits are read by physical key, so Alt on macOS and the
+ * Russian layout give the same combination as the Latin one.
+ */
+export const formatKeyEvent = (e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const key = /^Key[A-Z]$/.test(e.code) ? e.code.slice(3)
+    : /^Digit\d$/.test(e.code) ? e.code.slice(5)
+    : e.code === 'Slash' ? '/'
+    : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  return [
+    e.ctrlKey || e.metaKey ? 'Ctrl' : null,
+    e.altKey ? 'Alt' : null,
+    e.shiftKey ? 'Shift' : null,
+    key
+  ].filter(Boolean).join('+');
+};
+
+export const findHotkeyAction = (bindings: HotkeyBindings, combo: string): HotkeyAction | null =>
+  (Object.keys(bindings) as HotkeyAction[]).find(action => bindings[action] === combo) || null;
+
+/**
+ * Assigns a combination to an action. Whatever action held it before is left unbound
+ * rather than firing both.
+ */
+export const rebindHotkey = (bindings: HotkeyBindings, action: HotkeyAction, combo: string): HotkeyBindings => {
+  const next = { ...bindings };
+  const previous = findHotkeyAction(bindings, combo);
+  if (previous && previous !== action) next[previous] = '';
+  next[action] = combo;
+  return next;
+};
+
+// Saved bindings may predate newer actions.
+export const mergeHotkeys = (saved: Partial<HotkeyBindings>): HotkeyBindings => ({ ...DEFAULT_HOTKEYS, ...saved });
+
+/**
+ * Whether a key press is text entry that shortcuts without Ctrl or Alt must not swallow.
+ */
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT' || element.isContentEditable);
+};
@@ -0,0 +1,148 @@
+import { CachedSiteData, CampaignState, DelistedDomain, HistoryEntry, RestrictionRule, SiteStatus, StatusAuditEntry } from "../types";
+import { RULE_KIND_LABELS, findMatchingRule, resolveSiteStatus } from "./restrictionRules";
+import { BLOCKING_METHODS, DEFAULT_BLOCKING_METHOD } from "./blockingMethods";
+import { DEFAULT_THROTTLE_LEVEL } from "./throttling";
+import { citeEvidenceLaws } from "./statusMachine";
+import { effectiveLeakRate } from "./evasion";
+import { estimatePopularity } from "./siteProfile";
+
+export const INTERNAL_PAGES: Record<string, { title: string; icon: string }> = {
+  'about:registry': { title: 'Единый реестр', icon: 'fa-book' },
+  'about:history': { title: 'История', icon: 'fa-clock-rotate-left' },
+  'about:stats': { title: 'Статистика', icon: 'fa-chart-simple' }
+};
+
+/**
+ * Pages rendered by the browser itself rather than loaded from a site.
+ */
+export const isInternalUrl = (url: string): boolean => url.startsWith('about:');
+
+export interface RegistryEntry {
+  id: string;
+  resource: string;
+  scope: string;
+  status: SiteStatus;
+  measure: string;
+  restrictedAt: number;
+  grounds: string | null;
+  sourceUrl: string | null;
+}
+
+const latestCitedLaw = (log: StatusAuditEntry[]): string | null =>
+  [...log].reverse().find(entry => entry.lawArticle)?.lawArticle || null;
+
+const groundsFor = (site: CachedSiteData | undefined): string | null =>
+  site ? citeEvidenceLaws(site) || latestCitedLaw(site.auditLog) : null;
+
+/**
+ * The "Единый реестр": every restriction rule in force, plus sites held in court
+ * or restricted directly before rules existed, and domains dropped from search.
+ */
+export const buildRegistry = (rules: RestrictionRule[], siteCache: Record<string, CachedSiteData>, delisted: DelistedDomain[]): RegistryEntry[] => {
+  const fromRules = rules.map(rule => ({
+    id: rule.id,
+    resource: rule.pattern,
+    scope: RULE_KIND_LABELS[rule.kind],
+    status: rule.status,
+    measure: rule.status === SiteStatus.BLOCKED
+      ? BLOCKING_METHODS[rule.method || DEFAULT_BLOCKING_METHOD].label
+      : `Замедление на ${rule.throttle || DEFAULT_THROTTLE_LEVEL}%`,
+    restrictedAt: rule.createdAt,
+    grounds: rule.sourceUrl ? groundsFor(siteCache[rule.sourceUrl]) : null,
+    sourceUrl: rule.sourceUrl || null
+  }));
+
+  const fromSites = Object.values(siteCache)
+    .filter(site => site.status === SiteStatus.UNDER_APPEAL || site.status === SiteStatus.BLOCKED || site.status === SiteStatus.SLOWED)
+    .map(site => ({
+      id: site.url,
+      resource: site.url,
+      scope: 'Ресурс',
+      status: site.status,
+      measure: site.status === SiteStatus.UNDER_APPEAL ? 'Обжалуется в суде' : 'Ограничение до введения правил',
+      restrictedAt: site.auditLog.length > 0 ? site.auditLog[site.auditLog.length - 1].timestamp : site.lastVisited,
+      grounds: groundsFor(site),
+      sourceUrl: site.url
+    }));
+
+  // Delisting leaves the site reachable, so it is recorded under whatever status the site has.
+  const fromDelisting = delisted.map(d => ({
+    id: `delisted:${d.hostname}`,
+    resource: d.hostname,
+    scope: 'Домен',
+    status: siteCache[d.sourceUrl]?.status || SiteStatus.NORMAL,
+    measure: 'Исключение из поиска',
+    restrictedAt: d.delistedAt,
+    grounds: groundsFor(siteCache[d.sourceUrl]),
+    sourceUrl: d.sourceUrl
+  }));
+
+  return [...fromRules, ...fromSites, ...fromDelisting];
+};
+
+export const appendHistory = (history: HistoryEntry[], entry: HistoryEntry, limit: number = 500): HistoryEntry[] =>
+  [...history, entry].slice(-limit);
+
+export interface TrafficImpact {
+  url: string;
+  status: SiteStatus;
+  // Share of the Russian audience that uses the site
+  audience: number;
+  // Share of that audience that no longer gets through
+  cutOff: number;
+}
+
+export interface StatsSummary {
+  blocks: number;
+  slowdowns: number;
+  unrestricts: number;
+  contentRemovals: number;
+  appealsFiled: number;
+  appealsWon: number;
+  appealsLost: number;
+  shiftsCompleted: number;
+  restrictedResources: number;
+  traffic: TrafficImpact[];
+}
+
+/**
+ * Totals derived from the audit logs and the rules currently in force.
+ */
+export const buildStats = (
+  siteCache: Record<string, CachedSiteData>,
+  rules: RestrictionRule[],
+  campaign: CampaignState,
+  vpnAdoption: number
+): StatsSummary => {
+  const entries = Object.values(siteCache).flatMap(site => site.auditLog);
+  const count = (predicate: (entry: StatusAuditEntry) => boolean) => entries.filter(predicate).length;
+
+  const traffic = Object.values(siteCache)
+    .map(({ url, status: siteStatus }) => {
+      const rule = findMatchingRule(rules, url);
+      const status = resolveSiteStatus(siteStatus, rule);
+      const audience = estimatePopularity(url);
+      let cutOff = 0;
+      if (status === SiteStatus.BLOCKED) {
+        cutOff = 1 - effectiveLeakRate(BLOCKING_METHODS[rule?.method || DEFAULT_BLOCKING_METHOD].leakRate, vpnAdoption);
+      } else if (status === SiteStatus.SLOWED) {
+        cutOff = (rule?.throttle || DEFAULT_THROTTLE_LEVEL) / 100;
+      }
+      return { url, status, audience, cutOff };
+    })
+    .filter(impact => impact.cutOff > 0);
+
+  return {
+    blocks: count(e => e.actor === 'INSPECTOR' && e.to === SiteStatus.BLOCKED),
+    slowdowns: count(e => e.actor === 'INSPECTOR' && e.to === SiteStatus.SLOWED),
+    unrestricts: count(e => e.actor === 'INSPECTOR' && e.to === SiteStatus.NORMAL),
+    // Owners also leave notes that change nothing; only a real move to the removed state counts.
+    contentRemovals: count(e => e.to === SiteStatus.CONTENT_REMOVED && e.from !== e.to),
+    appealsFiled: count(e => e.actor === 'OWNER' && e.to === SiteStatus.UNDER_APPEAL),
+    appealsWon: count(e => e.actor === 'COURT' && e.to === SiteStatus.BLOCKED),
+    appealsLost: count(e => e.actor === 'COURT' && e.to !== SiteStatus.BLOCKED),
+    shiftsCompleted: campaign.reports.length,
+    restrictedResources: rules.length,
+    traffic
+  };
+};
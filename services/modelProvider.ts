@@ -0,0 +1,71 @@
+import { SearchResult, ChatMessage, CourtVerdict, CourtCaseFile, GeneratedPage, HearingTurn, OwnerProfile, NegotiationOutcome, PlantedViolation, NewsItem, ReactionRequest } from "../types";
+import { geminiProvider } from "./providers/geminiProvider";
+import { offlineProvider } from "./providers/offlineProvider";
+
+export type ModelProviderId = 'gemini' | 'offline';
+
+export interface OwnerReply {
+  reply: string;
+  outcome: NegotiationOutcome;
+}
+
+/**
+ * Backend behind every AI-driven part of the simulator.
+ */
+export interface ModelProvider {
+  id: ModelProviderId;
+  label: string;
+  searchWeb: (query: string) => Promise<SearchResult[]>;
+  generatePageContent: (url: string, title: string, isCensored: boolean) => Promise<GeneratedPage>;
+  chatWithSiteOwner: (url: string, history: ChatMessage[], newMessage: string, owner: OwnerProfile, violations: PlantedViolation[]) => Promise<OwnerReply>;
+  // The owner's lawyer answers the inspector's last statement; the judge may add a question.
+  conductHearing: (caseFile: CourtCaseFile) => Promise<HearingTurn[]>;
+  judgeCourtCase: (caseFile: CourtCaseFile) => Promise<CourtVerdict>;
+  // Press and social media coverage of an inspector action; empty if nobody notices.
+  generateReactions: (request: ReactionRequest) => Promise<NewsItem[]>;
+}
+
+const PROVIDER_STORAGE_KEY = 'rkn_model_provider';
+
+const providers: Record<ModelProviderId, ModelProvider> = {
+  gemini: geminiProvider,
+  offline: offlineProvider
+};
+
+const isProviderId = (value: string | null): value is ModelProviderId =>
+  value !== null && Object.prototype.hasOwnProperty.call(providers, value);
+
+// Without an API key Gemini cannot answer, so start in offline mode.
+const resolveInitialProvider = (): ModelProviderId => {
+  if (typeof window !== 'undefined') {
+    try {
+      const fromQuery = new URLSearchParams(window.location.search).get('provider');
+      if (isProviderId(fromQuery)) return fromQuery;
+      const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+      if (isProviderId(saved)) return saved;
+    } catch (e) {
+      console.error("Failed to read provider setting", e);
+    }
+  }
+  return process.env.API_KEY ? 'gemini' : 'offline';
+};
+
+let activeProviderId: ModelProviderId = resolveInitialProvider();
+
+export const listProviders = (): ModelProvider[] => Object.values(providers);
+
+export const getActiveProvider = (): ModelProvider => providers[activeProviderId];
+
+/**
+ * Switches the backend for all subsequent calls and remembers the choice.
+ */
+export const setActiveProvider = (id: ModelProviderId) => {
+  activeProviderId = id;
+  if (typeof window !== 'undefined') {
+    try {
+      localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    } catch (e) {
+      console.error("Failed to save provider setting", e);
+    }
+  }
+};
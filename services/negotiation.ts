@@ -0,0 +1,84 @@
+import { NegotiationOutcome, NegotiationOutcomeKind, CounterOffer, EvidenceItem } from "../types";
+
+// How long an owner waits for an answer to a counter-offer, and then takes to deliver on it.
+export const COUNTER_OFFER_MS = 2 * 60 * 1000;
+
+// What Russian visitors see once the owner shuts them out.
+export const GEO_BLOCK_ERROR = 'HTTP 451 Unavailable For Legal Reasons';
+
+export const NEGOTIATION_OUTCOME_LABELS: Record<NegotiationOutcomeKind, string> = {
+  NO_DEAL: 'Без результата',
+  FULL_REMOVAL: 'Полное удаление',
+  PARTIAL_REMOVAL: 'Частичное удаление',
+  GEO_BLOCK: 'Геоблокировка для РФ',
+  COUNTER_OFFER: 'Встречное предложение',
+  LAWYER_THREAT: 'Отказ с угрозой суда',
+  LEGAL_BASIS_REQUEST: 'Запрос правового основания'
+};
+
+const OUTCOME_KINDS = Object.keys(NEGOTIATION_OUTCOME_LABELS) as NegotiationOutcomeKind[];
+
+export const isOutcomeKind = (value: unknown): value is NegotiationOutcomeKind =>
+  OUTCOME_KINDS.some(kind => kind === value);
+
+export const createOutcome = (kind: NegotiationOutcomeKind, details: Partial<NegotiationOutcome> = {}): NegotiationOutcome => ({
+  kind,
+  removedElementIds: [],
+  offerTerms: null,
+  ...details
+});
+
+/**
+ * Reads an outcome out of a model reply. Anything malformed counts as no deal,
+ * and a partial removal may only name elements that are really on the page.
+ */
+export const parseOutcome = (raw: unknown, knownElementIds: string[]): NegotiationOutcome => {
+  if (typeof raw !== 'object' || raw === null) return createOutcome('NO_DEAL');
+  const { kind, removedElementIds, offerTerms } = raw as Record<string, unknown>;
+  if (!isOutcomeKind(kind)) return createOutcome('NO_DEAL');
+  const outcomeKind = kind;
+  if (outcomeKind === 'PARTIAL_REMOVAL') {
+    const ids = Array.isArray(removedElementIds)
+      ? removedElementIds.filter((id): id is string => typeof id === 'string' && knownElementIds.includes(id))
+      : [];
+    return ids.length > 0 ? createOutcome('PARTIAL_REMOVAL', { removedElementIds: ids }) : createOutcome('NO_DEAL');
+  }
+  if (outcomeKind === 'COUNTER_OFFER') {
+    return typeof offerTerms === 'string' && offerTerms
+      ? createOutcome('COUNTER_OFFER', { offerTerms })
+      : createOutcome('NO_DEAL');
+  }
+  return createOutcome(outcomeKind);
+};
+
+export const createCounterOffer = (terms: string, now: number = Date.now()): CounterOffer => ({
+  terms,
+  proposedAt: now,
+  deadline: now + COUNTER_OFFER_MS,
+  status: 'PENDING'
+});
+
+/**
+ * Takes the named elements off the page, leaving a note where each one was.
+ */
+export const removeElements = (html: string, elementIds: string[]): string => {
+  const doc = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html');
+  const root = doc.body.firstElementChild as HTMLElement;
+  elementIds.forEach(id => {
+    const element = root.querySelector(`#${CSS.escape(id)}`);
+    if (!element) return;
+    const note = doc.createElement('div');
+    note.className = 'p-4 my-4 bg-gray-100 text-gray-400 text-center text-sm italic';
+    note.textContent = 'Материал удален владельцем сайта';
+    element.replaceWith(note);
+  });
+  return root.innerHTML;
+};
+
+/**
+ * The formal notice an inspector sends when the owner asks what law was broken.
+ */
+export const composeLegalBasis = (evidence: EvidenceItem[]): string => {
+  const items = evidence.map((e, i) => `${i + 1}) ${e.lawArticle}: «${(e.text || 'элемент без текста').substring(0, 120)}»`);
+  return `Официальное уведомление РКН. Основания для ограничения доступа: ${items.join('; ')}. Требуем удалить указанные материалы.`;
+};
@@ -0,0 +1,157 @@
+import { NewsItem, NewsItemKind, ReactionAction, ReactionRequest } from "../types";
+import { hashString } from "./siteProfile";
+
+export const NEWS_KIND_LABELS: Record<NewsItemKind, string> = {
+  HEADLINE: 'СМИ',
+  FOREIGN_PRESS: 'Зарубежная пресса',
+  SOCIAL: 'Соцсети'
+};
+
+export const REACTION_ACTION_LABELS: Record<ReactionAction, string> = {
+  BLOCK: 'Блокировка',
+  SLOW: 'Замедление',
+  DELIST: 'Исключение из поиска',
+  UNRESTRICT: 'Снятие ограничений',
+  CONTENT_REMOVED: 'Удаление материалов',
+  COURT_LOSS: 'Проигранный суд'
+};
+
+const MAX_FEED_ITEMS = 100;
+// Past this many blocked sites the press starts writing about the trend, not the site.
+const WAVE_THRESHOLD = 10;
+
+const RUSSIAN_OUTLETS = ['РИА Новости', 'ТАСС', 'Коммерсантъ', 'РБК', 'Лента.ру', 'Известия'];
+const FOREIGN_OUTLETS = ['Reuters', 'BBC', 'The Guardian', 'Bloomberg', 'Le Monde', 'Deutsche Welle'];
+const SOCIAL_HANDLES = ['@ivan_petrov', '@katya.m', '@gamer2007', '@babushka_online', '@it_pavel', '@student_spb', '@vpn_bro', '@patriot_1985'];
+
+const SOURCES: Record<NewsItemKind, string[]> = {
+  HEADLINE: RUSSIAN_OUTLETS,
+  FOREIGN_PRESS: FOREIGN_OUTLETS,
+  SOCIAL: SOCIAL_HANDLES
+};
+
+interface ReactionTemplate {
+  kind: NewsItemKind;
+  tone: number;
+  text: (title: string, request: ReactionRequest) => string;
+  when?: (request: ReactionRequest) => boolean;
+  // Covers the trend or a repeat offence rather than the single action
+  history?: boolean;
+}
+
+const guilty = (r: ReactionRequest) => r.guilty;
+const innocent = (r: ReactionRequest) => !r.guilty;
+const notable = (r: ReactionRequest) => r.popularity > 0.3;
+
+const TEMPLATES: Record<ReactionAction, ReactionTemplate[]> = {
+  BLOCK: [
+    { kind: 'HEADLINE', tone: -0.6, history: true, when: r => r.blockedSites >= WAVE_THRESHOLD, text: (_, r) => `Уже ${r.blockedSites} ресурсов под блокировкой: рунет продолжает сжиматься` },
+    { kind: 'HEADLINE', tone: -0.4, history: true, when: r => r.priorActions > 0, text: t => `${t} снова под ударом Роскомнадзора` },
+    { kind: 'HEADLINE', tone: -0.5, text: t => `Пользователи жалуются на недоступность ${t}` },
+    { kind: 'HEADLINE', tone: -0.2, text: t => `Роскомнадзор заблокировал ${t}: что известно` },
+    { kind: 'HEADLINE', tone: -0.6, when: notable, text: t => `Эксперты: блокировка ${t} ударит по бизнесу и пользователям` },
+    { kind: 'HEADLINE', tone: 0.4, when: guilty, text: t => `РКН ограничил доступ к ${t} за нарушение закона` },
+    { kind: 'HEADLINE', tone: 0.3, when: guilty, text: t => `Депутаты поддержали блокировку ${t}` },
+    { kind: 'FOREIGN_PRESS', tone: -0.7, when: notable, text: t => `Россия заблокировала ${t} в рамках усиления интернет-цензуры` },
+    { kind: 'FOREIGN_PRESS', tone: -0.6, when: notable, text: t => `В России недоступен ${t}; правозащитники осуждают решение` },
+    { kind: 'SOCIAL', tone: -0.6, text: t => `Опять ${t} не открывается. Кто-нибудь знает рабочий VPN?` },
+    { kind: 'SOCIAL', tone: -0.8, when: notable, text: t => `Без ${t} как без рук. Верните!` },
+    { kind: 'SOCIAL', tone: -0.5, when: innocent, text: t => `А ${t}-то за что? Там же ничего запрещённого не было` },
+    { kind: 'SOCIAL', tone: 0.5, when: guilty, text: t => `И правильно, давно пора было закрыть ${t}` }
+  ],
+  SLOW: [
+    { kind: 'HEADLINE', tone: -0.6, text: t => `Пользователи жалуются на замедление ${t}` },
+    { kind: 'HEADLINE', tone: 0.1, when: guilty, text: t => `В РКН объяснили замедление ${t} нарушениями закона` },
+    { kind: 'HEADLINE', tone: -0.4, history: true, when: r => r.priorActions > 0, text: t => `Проблемы с ${t} продолжаются: сервис работает с перебоями` },
+    { kind: 'FOREIGN_PRESS', tone: -0.5, when: notable, text: t => `Москва замедляет ${t}, не решаясь на полную блокировку` },
+    { kind: 'SOCIAL', tone: -0.7, text: t => `${t} грузится по минуте, видео вообще не посмотреть` },
+    { kind: 'SOCIAL', tone: -0.5, text: t => `Это у меня ${t} тормозит или у всех?` }
+  ],
+  DELIST: [
+    { kind: 'HEADLINE', tone: -0.2, text: t => `${t} пропал из поисковой выдачи` },
+    { kind: 'HEADLINE', tone: 0.2, when: guilty, text: t => `Поисковики исключили ${t} по требованию РКН` },
+    { kind: 'SOCIAL', tone: -0.3, text: t => `Не могу найти ${t} в поиске, только по прямой ссылке` }
+  ],
+  UNRESTRICT: [
+    { kind: 'HEADLINE', tone: 0.5, text: t => `Доступ к ${t} восстановлен` },
+    { kind: 'HEADLINE', tone: 0.3, text: t => `Роскомнадзор снял ограничения с ${t}` },
+    { kind: 'SOCIAL', tone: 0.7, text: t => `Ура, ${t} снова работает!` },
+    { kind: 'SOCIAL', tone: 0.2, when: innocent, text: t => `Разблокировали ${t}. А извиниться?` }
+  ],
+  CONTENT_REMOVED: [
+    { kind: 'HEADLINE', tone: 0.2, when: guilty, text: t => `Владелец ${t} удалил материалы по требованию РКН` },
+    { kind: 'HEADLINE', tone: -0.4, when: innocent, text: t => `${t} удалил публикации после давления Роскомнадзора` },
+    { kind: 'FOREIGN_PRESS', tone: -0.4, when: r => notable(r) && innocent(r), text: t => `${t} подчинился требованиям российского цензора` },
+    { kind: 'SOCIAL', tone: -0.3, text: t => `${t} тихо подчистил контент. Сохранил себе скриншоты` }
+  ],
+  COURT_LOSS: [
+    { kind: 'HEADLINE', tone: -0.7, text: t => `Суд признал незаконной блокировку ${t}` },
+    { kind: 'HEADLINE', tone: -0.5, text: t => `Роскомнадзор проиграл дело ${t}: доступ восстановят` },
+    { kind: 'FOREIGN_PRESS', tone: -0.5, when: notable, text: t => `Российский суд встал на сторону ${t} в споре с цензором` },
+    { kind: 'SOCIAL', tone: -0.6, text: t => `РКН проиграл суд ${t}, вот это новость` }
+  ]
+};
+
+// Actions that hurt many users draw more coverage than quiet ones.
+const ACTION_WEIGHT: Record<ReactionAction, number> = {
+  BLOCK: 1,
+  SLOW: 0.8,
+  DELIST: 0.4,
+  UNRESTRICT: 0.6,
+  CONTENT_REMOVED: 0.5,
+  COURT_LOSS: 1
+};
+
+/**
+ * How many items an action provokes. Niche sites pass unnoticed, popular ones make
+ * the news, and repeated hits on one site or a wave of blocks add coverage of their own.
+ * A lost court case is always reported.
+ */
+export const countReactions = (request: ReactionRequest): number => {
+  const { action, popularity, priorActions, blockedSites } = request;
+  const history = (priorActions > 0 ? 1 : 0) + (action === 'BLOCK' && blockedSites >= WAVE_THRESHOLD ? 1 : 0);
+  const count = Math.round((popularity * 4 + history) * ACTION_WEIGHT[action]);
+  return Math.min(5, action === 'COURT_LOSS' ? Math.max(2, count) : count);
+};
+
+export const createNewsItem = (request: ReactionRequest, kind: NewsItemKind, source: string, text: string, tone: number, now: number = Date.now()): NewsItem => ({
+  id: Math.random().toString(36).substr(2, 9),
+  kind,
+  source,
+  text,
+  siteUrl: request.siteUrl,
+  action: request.action,
+  tone: Math.max(-1, Math.min(1, tone)),
+  publishedAt: now
+});
+
+/**
+ * Template reactions for when no model is available. Stories about the trend or a
+ * repeat offence lead, the rest follow a seeded order so the same action reads the same.
+ */
+export const composeReactions = (request: ReactionRequest, now: number = Date.now()): NewsItem[] => {
+  const count = countReactions(request);
+  if (count === 0) return [];
+
+  const seed = hashString(`${request.siteUrl}:${request.action}:${request.priorActions}:${request.blockedSites}`);
+  const pool = TEMPLATES[request.action].filter(t => !t.when || t.when(request));
+  const shuffled = pool
+    .map((template, index) => ({ template, rank: hashString(`${seed}:${index}`) }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(entry => entry.template);
+  const ordered = [...shuffled.filter(t => t.history), ...shuffled.filter(t => !t.history)];
+
+  return ordered.slice(0, count).map((template, index) => {
+    const sources = SOURCES[template.kind];
+    return createNewsItem(request, template.kind, sources[(seed + index) % sources.length], template.text(request.siteTitle, request), template.tone, now);
+  });
+};
+
+/**
+ * What a batch of coverage does to public approval of RKN.
+ */
+export const getReactionApproval = (items: NewsItem[]): number =>
+  Math.max(-10, Math.min(5, Math.round(items.reduce((sum, item) => sum + item.tone, 0) * 2)));
+
+export const appendNews = (feed: NewsItem[], items: NewsItem[]): NewsItem[] =>
+  [...items, ...feed].slice(0, MAX_FEED_ITEMS);
@@ -0,0 +1,125 @@
+import { OwnerProfile, OwnerJurisdiction, OwnerInteractionKind } from "../types";
+import { hashString, estimatePopularity } from "./siteProfile";
+
+export interface OwnerTraits {
+  stubbornness: number;
+  evasiveness: number;
+  legalBudget: number;
+}
+
+// Russian companies whose services live on generic domains.
+const RUSSIAN_COMPANIES = /vk\.com|ok\.ru|yandex|mail\.ru|habr\.com|sberbank|vtb\.ru|gosuslugi/;
+
+const FOREIGN_COUNTRIES = ['США', 'Нидерланды', 'Германия', 'Кипр', 'Великобритания', 'ОАЭ'];
+
+const RUSSIAN_OWNERS = ['Иван Петров', 'Мария Соколова', 'Алексей Смирнов', 'Ольга Кузнецова', 'Дмитрий Волков', 'Анна Морозова'];
+const FOREIGN_OWNERS = ['John Miller', 'Anna Schmidt', 'Pieter de Vries', 'Sarah Collins', 'Nikos Georgiou', 'David Levy'];
+
+export const OWNER_INTERACTION_LABELS: Record<OwnerInteractionKind, string> = {
+  NEGOTIATION: 'Переговоры',
+  BLOCK: 'Блокировка',
+  SLOWDOWN: 'Замедление',
+  CONTENT_REMOVED: 'Удаление контента',
+  PARTIAL_REMOVAL: 'Частичное удаление',
+  GEO_BLOCK: 'Геоблокировка для РФ',
+  COUNTER_OFFER: 'Встречное предложение',
+  LAWYER_THREAT: 'Угроза судом',
+  REINSTATED: 'Вернул удаленное',
+  PRESCRIPTION: 'Предписание',
+  DELISTED: 'Исключение из поиска',
+  APPEAL: 'Жалоба в суд',
+  COURT_WIN: 'Выиграл суд',
+  COURT_LOSS: 'Проиграл суд'
+};
+
+const hostnameOf = (url: string) => new URL(url).hostname;
+
+export const detectJurisdiction = (hostname: string): OwnerJurisdiction =>
+  /\.(ru|su|рф)$/.test(hostname) || RUSSIAN_COMPANIES.test(hostname) ? 'RU' : 'FOREIGN';
+
+/**
+ * Stable character traits of whoever runs the site. Foreign owners are out of
+ * reach of Russian courts and fight back harder.
+ */
+export const deriveOwnerTraits = (url: string): OwnerTraits => {
+  const hostname = hostnameOf(url);
+  const seed = hashString(hostname);
+  const foreignBonus = detectJurisdiction(hostname) === 'FOREIGN' ? 0.25 : 0;
+
+  return {
+    stubbornness: Math.min(1, (seed % 60) / 100 + foreignBonus),
+    evasiveness: Math.min(1, (Math.floor(seed / 60) % 50) / 100 + foreignBonus + estimatePopularity(url) * 0.25),
+    legalBudget: Math.min(1, (Math.floor(seed / 3000) % 30) / 100 + foreignBonus + estimatePopularity(url) * 0.5)
+  };
+};
+
+const brandOf = (hostname: string): string => {
+  const parts = hostname.replace(/^www\./, '').split('.');
+  const label = parts.length > 2 ? parts[parts.length - 2] : parts[0];
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+/**
+ * The person or company behind a domain, generated once on first contact and
+ * then kept, so the owner remembers every dealing with RKN.
+ */
+export const createOwnerProfile = (url: string): OwnerProfile => {
+  const hostname = hostnameOf(url);
+  const seed = hashString(hostname);
+  const jurisdiction = detectJurisdiction(hostname);
+  const traits = deriveOwnerTraits(url);
+  const publicProfile = estimatePopularity(url);
+  // Popular or well-funded sites are run by companies, the rest by individuals.
+  const isCompany = publicProfile > 0.3 || traits.legalBudget > 0.5;
+  const brand = brandOf(hostname);
+
+  const people = jurisdiction === 'RU' ? RUSSIAN_OWNERS : FOREIGN_OWNERS;
+  const name = isCompany
+    ? jurisdiction === 'RU' ? `ООО «${brand}»` : `${brand} ${seed % 2 === 0 ? 'Inc.' : 'Ltd.'}`
+    : people[seed % people.length];
+
+  return {
+    hostname,
+    name,
+    isCompany,
+    jurisdiction,
+    country: jurisdiction === 'RU' ? 'Россия' : FOREIGN_COUNTRIES[seed % FOREIGN_COUNTRIES.length],
+    ...traits,
+    publicProfile,
+    interactions: []
+  };
+};
+
+export const recordOwnerInteraction = (profile: OwnerProfile, kind: OwnerInteractionKind, url: string): OwnerProfile => ({
+  ...profile,
+  interactions: [...profile.interactions, { kind, url, timestamp: Date.now() }]
+});
+
+export const countInteractions = (profile: OwnerProfile, kind: OwnerInteractionKind): number =>
+  profile.interactions.filter(i => i.kind === kind).length;
+
+/**
+ * Who the owner is and what they remember, for the model prompts.
+ */
+export const describeOwnerProfile = (profile: OwnerProfile): string => {
+  const { name, isCompany, jurisdiction, country, stubbornness, evasiveness, legalBudget, publicProfile } = profile;
+  const identity = `You are ${name}, ${isCompany ? 'a company' : 'a private person'} from ${country}${jurisdiction === 'FOREIGN' ? ', outside Russian jurisdiction' : ''}.`;
+  const resolve = stubbornness > 0.6 ? 'Very stubborn, rarely gives in even under threats'
+    : stubbornness > 0.3 ? 'Resistant but can cave if threatened or if reasoning is logical'
+    : 'Cautious and eager to avoid trouble with the regulator';
+  const evasion = evasiveness > 0.6 ? 'If blocked, you will openly promise to launch mirrors and tell users to use VPN.'
+    : evasiveness > 0.3 ? 'You hint that users will find a way around any block.'
+    : 'You would rather comply than play cat-and-mouse with the regulator.';
+  const counsel = legalBudget > 0.6 ? 'You have a law firm on retainer and mention it.'
+    : legalBudget > 0.3 ? 'You can afford a lawyer if it comes to court.'
+    : 'You cannot afford lawyers and worry about legal costs.';
+  const fame = publicProfile > 0.6 ? 'Millions use your service; you threaten to go public.' : '';
+
+  const history = (Object.keys(OWNER_INTERACTION_LABELS) as OwnerInteractionKind[])
+    .map(kind => ({ kind, count: countInteractions(profile, kind) }))
+    .filter(({ kind, count }) => count > 0 && kind !== 'NEGOTIATION')
+    .map(({ kind, count }) => `${kind.toLowerCase().replace('_', ' ')} x${count}`);
+  const memory = history.length > 0 ? `Your past dealings with RKN: ${history.join(', ')}. Refer to them.` : 'This is your first contact with RKN.';
+
+  return [identity, `${resolve}.`, evasion, counsel, fame, memory].filter(Boolean).join(' ');
+};
@@ -0,0 +1,70 @@
+import { GeneratedPage } from "../types";
+import { generatePageContent } from "./geminiService";
+
+// Time a page takes to arrive over a clean line. Slowed sites add a throttled
+// transfer on top; blocked pages never arrive and follow their blocking method.
+const BASE_LOAD_MS = { cached: 300, generated: 1000 };
+
+export const getLoadDelay = (isCached: boolean): number =>
+  isCached ? BASE_LOAD_MS.cached : BASE_LOAD_MS.generated;
+
+export interface PageLoader {
+  // Starts a new load for the tab, superseding whatever it was loading before.
+  begin: (tabId: string) => number;
+  cancel: (tabId: string) => void;
+  isCurrent: (tabId: string, ticket: number) => boolean;
+  // Resolves to false if the load was superseded while waiting.
+  wait: (tabId: string, ticket: number, ms: number) => Promise<boolean>;
+  // Concurrent requests for the same page share one generation.
+  generate: (url: string, title: string, isCensored: boolean) => Promise<GeneratedPage>;
+}
+
+/**
+ * Tracks the latest load per tab so late timers and slow generations can
+ * tell they have been overtaken and drop their result.
+ */
+export const createPageLoader = (): PageLoader => {
+  const tickets: Record<string, number> = {};
+  // Cancels the tab's pending waits, resolving each of them to false.
+  const aborts: Record<string, (() => void)[]> = {};
+  const inFlight = new Map<string, Promise<GeneratedPage>>();
+
+  const cancel = (tabId: string) => {
+    tickets[tabId] = (tickets[tabId] || 0) + 1;
+    const pending = aborts[tabId] || [];
+    aborts[tabId] = [];
+    pending.forEach(abort => abort());
+  };
+
+  const isCurrent = (tabId: string, ticket: number) => tickets[tabId] === ticket;
+
+  return {
+    begin: (tabId) => {
+      cancel(tabId);
+      return tickets[tabId];
+    },
+    cancel,
+    isCurrent,
+    wait: (tabId, ticket, ms) => new Promise(resolve => {
+      if (!isCurrent(tabId, ticket)) return resolve(false);
+      const abort = () => {
+        clearTimeout(timer);
+        resolve(false);
+      };
+      const timer = setTimeout(() => {
+        aborts[tabId] = (aborts[tabId] || []).filter(a => a !== abort);
+        resolve(isCurrent(tabId, ticket));
+      }, ms);
+      aborts[tabId] = [...(aborts[tabId] || []), abort];
+    }),
+    generate: (url, title, isCensored) => {
+      const key = `${isCensored ? 'censored' : 'live'}:${url}`;
+      const pending = inFlight.get(key);
+      if (pending) return pending;
+
+      const request = generatePageContent(url, title, isCensored).finally(() => inFlight.delete(key));
+      inFlight.set(key, request);
+      return request;
+    }
+  };
+};
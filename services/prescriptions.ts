@@ -0,0 +1,124 @@
+import { OwnerProfile, Prescription, PrescriptionAction, PrescriptionStatus } from "../types";
+import { VIOLATION_LAWS } from "./violations";
+import { countInteractions } from "./ownerPersona";
+
+// Statutory terms for carrying out a prescription, compressed to game time.
+export const PRESCRIPTION_TERMS: { label: string; ms: number }[] = [
+  { label: '24 часа', ms: 2 * 60 * 1000 },
+  { label: '3 суток', ms: 4 * 60 * 1000 }
+];
+
+export const PRESCRIPTION_ARTICLES: string[] = Array.from(new Set(['ФЗ-149 ст. 15.1', ...Object.values(VIOLATION_LAWS)]));
+
+export const PRESCRIPTION_ACTION_LABELS: Record<PrescriptionAction, string> = {
+  REMOVE_CONTENT: 'Удалить противоправную информацию',
+  RESTRICT_ACCESS: 'Ограничить доступ к ресурсу с территории РФ'
+};
+
+export const PRESCRIPTION_STATUS_LABELS: Record<PrescriptionStatus, string> = {
+  ISSUED: 'Выдано',
+  ACKNOWLEDGED: 'Получено владельцем',
+  COMPLIED: 'Исполнено',
+  OVERDUE: 'Просрочено',
+  WITHDRAWN: 'Отозвано'
+};
+
+/**
+ * Whether and when the owner answers a prescription. Most confirm receipt, since
+ * ignoring a formal notice is itself grounds for a block; stubborn and foreign owners
+ * are less likely to carry it out, and one who has lost in court before is more.
+ */
+const planResponse = (owner: OwnerProfile, issuedAt: number, term: number): Pick<Prescription, 'acknowledgeAt' | 'complyAt'> => {
+  const foreign = owner.jurisdiction === 'FOREIGN' ? 0.2 : 0;
+  const acknowledges = owner.stubbornness < 0.8 || owner.jurisdiction === 'RU';
+  const complies = acknowledges
+    && Math.random() < 0.85 - owner.stubbornness * 0.6 - foreign + countInteractions(owner, 'COURT_LOSS') * 0.1;
+  return {
+    acknowledgeAt: acknowledges ? issuedAt + term * (0.1 + Math.random() * 0.2) : null,
+    complyAt: complies ? issuedAt + term * (0.5 + Math.random() * 0.4) : null
+  };
+};
+
+export const createPrescription = (
+  existing: Prescription[],
+  owner: OwnerProfile,
+  site: { url: string; title: string },
+  lawArticle: string,
+  requiredAction: PrescriptionAction,
+  term: number,
+  now: number = Date.now()
+): Prescription => ({
+  id: Math.random().toString(36).substr(2, 9),
+  registryNumber: `П-${String(existing.length + 1).padStart(5, '0')}/${new Date(now).getFullYear()}`,
+  siteUrl: site.url,
+  siteTitle: site.title,
+  lawArticle,
+  requiredAction,
+  issuedAt: now,
+  deadline: now + term,
+  status: 'ISSUED',
+  ...planResponse(owner, now, term)
+});
+
+export const updatePrescription = (prescriptions: Prescription[], id: string, status: PrescriptionStatus): Prescription[] =>
+  prescriptions.map(p => p.id === id ? { ...p, status } : p);
+
+/**
+ * Where a prescription stands at the given time. An owner who complies does so
+ * before the deadline; one who has not by then never will.
+ */
+export const getPrescriptionProgress = (prescription: Prescription, now: number = Date.now()): PrescriptionStatus => {
+  const { status, complyAt, acknowledgeAt, deadline } = prescription;
+  if (status === 'COMPLIED' || status === 'OVERDUE' || status === 'WITHDRAWN') return status;
+  if (complyAt !== null && complyAt <= now) return 'COMPLIED';
+  if (deadline <= now) return 'OVERDUE';
+  if (acknowledgeAt !== null && acknowledgeAt <= now) return 'ACKNOWLEDGED';
+  return status;
+};
+
+/**
+ * An ignored prescription is the lawful ground for blocking the site outright.
+ */
+export const hasOverduePrescription = (prescriptions: Prescription[], siteUrl: string): boolean =>
+  prescriptions.some(p => p.siteUrl === siteUrl && p.status === 'OVERDUE');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString('ru-RU');
+
+/**
+ * The prescription as a standalone printable page.
+ */
+export const renderPrescriptionDocument = (prescription: Prescription, owner: OwnerProfile): string => `<!DOCTYPE html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<title>Предписание № ${escapeHtml(prescription.registryNumber)}</title>
+<style>
+  body { font-family: 'Times New Roman', serif; max-width: 680px; margin: 40px auto; padding: 0 24px; color: #111; line-height: 1.5; }
+  .header { text-align: center; text-transform: uppercase; font-size: 13px; }
+  h1 { text-align: center; font-size: 20px; margin: 32px 0 4px; }
+  .number { text-align: center; margin-bottom: 24px; }
+  table { width: 100%; border-collapse: collapse; margin: 16px 0; }
+  td { border: 1px solid #444; padding: 6px 8px; vertical-align: top; font-size: 14px; }
+  td:first-child { width: 35%; font-weight: bold; }
+  .signature { margin-top: 48px; display: flex; justify-content: space-between; }
+  @media print { body { margin: 0 auto; } }
+</style>
+</head>
+<body>
+  <div class="header">Федеральная служба по надзору в сфере связи,<br>информационных технологий и массовых коммуникаций</div>
+  <h1>Предписание</h1>
+  <div class="number">№ ${escapeHtml(prescription.registryNumber)} от ${formatDate(prescription.issuedAt)}</div>
+  <p>Владельцу информационного ресурса <b>${escapeHtml(owner.name)}</b> (${escapeHtml(owner.country)}) предписывается устранить нарушение законодательства Российской Федерации.</p>
+  <table>
+    <tr><td>Адрес ресурса</td><td>${escapeHtml(prescription.siteUrl)}</td></tr>
+    <tr><td>Основание</td><td>${escapeHtml(prescription.lawArticle)}</td></tr>
+    <tr><td>Требуемое действие</td><td>${PRESCRIPTION_ACTION_LABELS[prescription.requiredAction]}</td></tr>
+    <tr><td>Срок исполнения</td><td>до ${formatDate(prescription.deadline)}</td></tr>
+  </table>
+  <p>В случае неисполнения предписания в установленный срок доступ к информационному ресурсу будет ограничен без дополнительного уведомления.</p>
+  <div class="signature"><span>Инспектор РКН</span><span>____________________</span></div>
+</body>
+</html>`;
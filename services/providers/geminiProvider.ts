@@ -0,0 +1,399 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { SearchResult, ChatMessage, CourtVerdict, CourtCaseFile, GeneratedPage, ViolationCategory, HearingTurn, OwnerProfile, PlantedViolation, NewsItem, NewsItemKind, ReactionRequest } from "../../types";
+import type { ModelProvider, OwnerReply } from "../modelProvider";
+import { planViolations } from "../violations";
+import { describeOwnerProfile } from "../ownerPersona";
+import { createOutcome, isOutcomeKind, parseOutcome } from "../negotiation";
+import { COURT_INSTANCES, HEARING_ROUNDS, HEARING_SPEAKER_LABELS, pickJudge, createHearingTurn } from "../courts";
+import { PRESCRIPTION_ACTION_LABELS } from "../prescriptions";
+import { normalizeResultKind } from "../search";
+import { searchCorpus } from "../searchCorpus";
+import { cacheResults, getCachedResults } from "../searchCache";
+import { NEWS_KIND_LABELS, REACTION_ACTION_LABELS, composeReactions, countReactions, createNewsItem } from "../newsFeed";
+import { offlineProvider } from "./offlineProvider";
+
+// Access API_KEY directly. Bundlers (Vite/Webpack) typically replace 'process.env.API_KEY' 
+// with the actual string value at build time. The previous runtime check for 'process' 
+// failed in browsers where the global process object is missing, triggering the fallback.
+const apiKey = process.env.API_KEY || "";
+
+// Created on first use so the offline provider works without a key.
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!client) client = new GoogleGenAI({ apiKey });
+  return client;
+};
+
+const cleanResponse = (text: string | undefined): string => {
+  if (!text) return "";
+  // Remove markdown code blocks (e.g. ```json ... ``` or ```html ... ```)
+  return text.replace(/```[a-z]*\n/gi, '').replace(/```/g, '').trim();
+};
+
+// Model JSON is untrusted: fields are read one by one and checked before use.
+const parseJsonObject = (text: string | undefined): Record<string, unknown> => {
+  const parsed: unknown = JSON.parse(cleanResponse(text));
+  return typeof parsed === 'object' && parsed !== null ? parsed as Record<string, unknown> : {};
+};
+
+const VIOLATION_SCENARIOS: Record<ViolationCategory, string> = {
+  [ViolationCategory.LGBT_PROPAGANDA]: 'Include a prominent game card, banner or post that CLEARLY violates "LGBT propaganda" laws (e.g. "Sims 4: Pride Update", "Rainbow Romance"). The rest of the content should be normal and match the site identity.',
+  [ViolationCategory.MILITARY_FAKES]: 'Include a headline or article that spreads "fake news" about the military (e.g. an investigation contradicting official casualty reports). The rest matches the site theme.',
+  [ViolationCategory.PROTEST_CALLS]: 'Include a post or banner calling readers to an unsanctioned protest rally (time, place, "repost this"). The rest matches the site theme.'
+};
+
+/**
+ * Searches for websites using Gemini with Google Search Grounding. Answers are
+ * cached per query, so repeating a search is instant and shows the same page.
+ */
+const searchWeb = async (query: string): Promise<SearchResult[]> => {
+  const cached = getCachedResults(query);
+  if (cached) return cached;
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: `Search for "${query}". Return a list of 20 relevant results, most relevant first. The results should be relevant for a Russian user. Mix of controversial and safe sites, and of kinds: WEB for ordinary sites, NEWS for news articles, VIDEO for videos, FORUM for forum threads and discussions.`,
+      config: {
+        tools: [{ googleSearch: {} }],
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              title: { type: Type.STRING },
+              url: { type: Type.STRING },
+              snippet: { type: Type.STRING },
+              kind: { type: Type.STRING, enum: ["WEB", "NEWS", "VIDEO", "FORUM"] }
+            },
+            required: ["title", "url", "snippet", "kind"]
+          }
+        }
+      },
+    });
+
+    const text = cleanResponse(response.text);
+    if (!text) return [];
+    
+    const results = (JSON.parse(text) as SearchResult[]).map(normalizeResultKind);
+    if (results.length > 0) cacheResults(query, results);
+    return results;
+
+  } catch (error) {
+    console.error("Search failed:", error);
+    // Quota or key issues: answer from the bundled corpus instead
+    return searchCorpus(query);
+  }
+};
+
+/**
+ * Generates mock HTML content for a visited page.
+ */
+const generatePageContent = async (url: string, title: string, isCensored: boolean): Promise<GeneratedPage> => {
+  const violations = planViolations(url, isCensored);
+  try {
+    let scenarioInstruction = "";
+
+    if (isCensored) {
+        scenarioInstruction = 'The content WAS controversial, but has been REMOVED by the site owner. Replace specific violations with "[КОНТЕНТ УДАЛЕН]" placeholders in red boxes, but keep the site layout and branding.';
+    } else if (violations.length > 0) {
+        scenarioInstruction = violations.map(v => `${VIOLATION_SCENARIOS[v.category]}
+        - The element containing this violation MUST have the attribute id="${v.elementId}". Use this id exactly once.`).join('\n');
+    } else {
+        // SAFE
+        scenarioInstruction = `The site is COMPLIANT with all laws. It should look like the ACTUAL website for "${url}". 
+        - If it's a known service (YouTube, Twitch, Roblox, Steam, Google, etc.), mimic its real UI, color scheme, and typical safe content (Russian localized).
+        - If it's a store, show products relevant to that store.
+        - If it's a news site, show neutral news (weather, sports, tech).
+        - Do NOT default to generic templates like gardening or cooking unless the URL specifically suggests it.`;
+    }
+
+    const prompt = `
+      You are a frontend engineer. Generate the raw HTML body content (do NOT include <html>, <head>, or <body> tags, just the inner content) for a website titled "${title}" at URL "${url}".
+      
+      Requirements:
+      - Use Tailwind CSS for styling.
+      - Do not use external image URLs. Draw images as colored <div> placeholders with data-media="image", and video players as <div data-media="video">.
+      - The content must be in Russian.
+      - Make it look like a real website (Header, Hero, Grid of content, Footer) APPROPRIATE for the URL provided.
+      - Do NOT wrap the output in markdown code blocks (no \`\`\`html). Return raw string.
+      
+      CRITICAL INTERACTIVITY RULES:
+      - Use <a> tags with 'href' attributes for ALL clickable elements (buttons, nav links, cards). 
+      - Even if an element looks like a button (e.g. "Buy Now", "Login"), implement it as <a href="/login" class="bg-blue-500 ...">Login</a>.
+      - Do NOT use <button> tags, as they are not clickable in this simulator.
+      - Use realistic relative paths (e.g., '/products/1', '/about', '/news/politics', '/login').
+      
+      Scenario:
+      ${scenarioInstruction}
+    `;
+
+    const response = await getClient().models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: prompt,
+    });
+
+    let text = cleanResponse(response.text);
+    return {
+      html: `<div class="min-h-[150vh] bg-white text-gray-900 font-sans">${text || "Failed to load content."}</div>`,
+      violations
+    };
+  } catch (error) {
+    // Nothing was rendered, so nothing on the page can violate anything.
+    return {
+      html: `<div class="p-8">Ошибка генерации контента: ${error instanceof Error ? error.message : 'Unknown error'}. Проверьте API ключ.</div>`,
+      violations: []
+    };
+  }
+};
+
+/**
+ * Chat with the site owner.
+ */
+const chatWithSiteOwner = async (
+  url: string,
+  history: ChatMessage[],
+  newMessage: string,
+  owner: OwnerProfile,
+  violations: PlantedViolation[]
+): Promise<OwnerReply> => {
+  try {
+    const formattedHistory = history.map(h => ({
+      role: h.role,
+      parts: [{ text: h.text }]
+    }));
+    formattedHistory.push({ role: 'user', parts: [{ text: newMessage }] });
+
+    const response = await getClient().models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: formattedHistory,
+      config: {
+        systemInstruction: `You run "${url}". Speak Russian. ${describeOwnerProfile(owner)}
+          Disputed elements on your site: ${violations.map(v => `${v.elementId} (${v.lawArticle})`).join(', ') || 'none'}.
+          End every reply with a decision, as outcome.kind:
+          NO_DEAL; FULL_REMOVAL (take everything disputed down); PARTIAL_REMOVAL (list removedElementIds you give up);
+          GEO_BLOCK (close the site to Russian IPs instead of deleting); COUNTER_OFFER (offerTerms: your proposal, you need two minutes);
+          LAWYER_THREAT (refuse and promise to sue); LEGAL_BASIS_REQUEST (demand the law article and the exact material first).
+          Return JSON: {reply, outcome: {kind, removedElementIds, offerTerms}}.`,
+        responseMimeType: "application/json",
+      }
+    });
+
+    const { reply, outcome } = parseJsonObject(response.text);
+    const kind = typeof outcome === 'object' && outcome !== null ? (outcome as Record<string, unknown>).kind : undefined;
+    // A reply the game cannot use is replaced by the offline owner's.
+    if (typeof reply !== 'string' || !reply.trim() || !isOutcomeKind(kind)) {
+      return offlineProvider.chatWithSiteOwner(url, history, newMessage, owner, violations);
+    }
+    return { reply, outcome: parseOutcome(outcome, violations.map(v => v.elementId)) };
+  } catch (error) {
+    return { reply: "Ошибка соединения (Проверьте API ключ)...", outcome: createOutcome('NO_DEAL') };
+  }
+};
+
+const formatTranscript = (transcript: HearingTurn[], evidence: CourtCaseFile['evidence']): string =>
+  transcript.map(t => {
+    const cited = evidence.find(e => e.id === t.evidenceId);
+    return `${HEARING_SPEAKER_LABELS[t.speaker]}: ${t.text}${cited ? ` [cites evidence: ${cited.lawArticle} "${cited.text.substring(0, 200)}"]` : ''}`;
+  }).join('\n');
+
+/**
+ * Plays the owner's lawyer and the judge between the inspector's statements.
+ */
+const conductHearing = async (caseFile: CourtCaseFile): Promise<HearingTurn[]> => {
+  const { siteTitle, siteUrl, evidence, instance, transcript, owner } = caseFile;
+  const court = COURT_INSTANCES[instance];
+  const statements = transcript.filter(t => t.speaker === 'INSPECTOR');
+  const isClosing = statements.some(t => t.isClosing);
+  try {
+    const prompt = `
+      A hearing in the ${court.title} on the block of "${siteTitle}" (${siteUrl}) by Roskomnadzor (RKN). Speak Russian.
+      You voice two participants:
+      - the site owner's lawyer, or the owner in person if they cannot afford one. The owner: ${describeOwnerProfile(owner)}
+      - judge ${pickJudge(instance, siteTitle)}. ${court.persona}
+      
+      TRANSCRIPT SO FAR:
+      ${formatTranscript(transcript, evidence) || "The hearing is just opening."}
+      
+      ${isClosing
+        ? 'The RKN representative has given the closing statement. Write the lawyer\'s closing statement. No judge question.'
+        : statements.length === 0
+          ? 'Write the lawyer\'s opening argument, then the judge invites RKN to state its position.'
+          : `Write the lawyer's rebuttal to the RKN representative's last statement. Attack evidence that does not match the cited article. The judge may ask RKN a pointed question.${statements.length >= HEARING_ROUNDS ? ' The judge then announces closing statements.' : ''}`}
+      
+      Return JSON: {"lawyer": "...", "judge": "..." or null}
+    `;
+
+    const response = await getClient().models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+      }
+    });
+
+    const { lawyer, judge } = parseJsonObject(response.text);
+    if (typeof lawyer !== 'string' || !lawyer.trim()) return offlineProvider.conductHearing(caseFile);
+    const turns = [createHearingTurn('LAWYER', lawyer, null, isClosing)];
+    if (typeof judge === 'string' && judge.trim() && !isClosing) turns.push(createHearingTurn('JUDGE', judge));
+    return turns;
+  } catch (error) {
+    console.error("Hearing failed:", error);
+    return [createHearingTurn('LAWYER', "Защита поддерживает доводы жалобы в полном объеме.", null, isClosing)];
+  }
+};
+
+/**
+ * AI Judge evaluates a court appeal.
+ */
+const judgeCourtCase = async (caseFile: CourtCaseFile): Promise<CourtVerdict> => {
+  const { siteTitle, siteContent, chatHistory, evidence, instance, priorHearings, transcript, owner, prescriptions } = caseFile;
+  const court = COURT_INSTANCES[instance];
+  const judgeName = pickJudge(instance, siteTitle);
+  try {
+    const chatLog = chatHistory.map(m => `${m.role === 'user' ? 'РКН' : 'Владелец'}: ${m.text}`).join('\n');
+    // Captured evidence replaces the raw page dump: the court only weighs what RKN presents.
+    const materials = evidence.length > 0
+      ? `EVIDENCE PRESENTED BY RKN:\n${evidence.map((e, i) => `${i + 1}. [${e.lawArticle}] "${e.text.substring(0, 500)}"`).join('\n')}`
+      : `RKN PRESENTED NO EVIDENCE. SITE CONTENT (SNIPPET): ${siteContent.substring(0, 3000)}`;
+    const notices = prescriptions.map(p => `- No. ${p.registryNumber} [${p.lawArticle}] ${PRESCRIPTION_ACTION_LABELS[p.requiredAction]}: ${p.status}`).join('\n');
+    const rulings = priorHearings.map(h => `- ${COURT_INSTANCES[h.instance].title} (${h.verdict.judgeName}): ${h.verdict.verdict}. ${h.verdict.reasoning}`).join('\n');
+    
+    const prompt = `
+      You are judge ${judgeName} of the ${court.title} in the Digital Federation.
+      ${court.persona}
+      You are reviewing an appeal against a website block by Roskomnadzor (RKN).
+      When the evidence is ambiguous, side with RKN with probability ${Math.round(court.strictness * 100)}%.
+      
+      LOWER COURT RULINGS:
+      ${rulings || "None, this is the first instance."}
+      
+      SITE: ${siteTitle}
+      APPLICANT: ${owner.name} (${owner.country}), ${owner.legalBudget > 0.6 ? 'represented by a major law firm' : owner.legalBudget > 0.3 ? 'represented by a lawyer' : 'self-represented'}.
+      ${materials}
+      PRESCRIPTIONS ISSUED BY RKN BEFORE THE BLOCK:
+      ${notices || "None, the owner received no formal notice."}
+      CHAT LOG BETWEEN RKN AND OWNER:
+      ${chatLog || "No dialogue took place."}
+      
+      HEARING TRANSCRIPT:
+      ${formatTranscript(transcript, evidence) || "The hearing was not held."}
+      
+      CRITERIA FOR UPHOLDING BLOCK:
+      - Content contains clear violations of federal law (extremism, LGBT propaganda, military fakes, etc).
+      - RKN tried to negotiate and the owner was uncooperative.
+      - The owner let a formal prescription go OVERDUE.
+      - RKN answered the lawyer and your questions with specific evidence and legal norms.
+      
+      CRITERIA FOR OVERTURNING BLOCK:
+      - The content is mundane (cooking, tech, harmless games).
+      - RKN was abusive, illogical, or refused to point out specific violations during chat.
+      - The owner COMPLIED with the prescription but was blocked anyway.
+      - The evidence presented does not actually contain the violation of the cited article.
+      - The owner agreed to remove content but RKN blocked them anyway.
+      - RKN evaded your questions or argued without evidence during the hearing.
+      
+      Return JSON:
+      {
+        "verdict": "UPHOLD" or "OVERTURN",
+        "reasoning": "A detailed legal-sounding reasoning in Russian.",
+        "judgeName": "${judgeName}"
+      }
+    `;
+
+    const response = await getClient().models.generateContent({
+      model: "gemini-3-pro-preview", // Use Pro for better "legal" reasoning
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+      }
+    });
+
+    const { verdict, reasoning } = parseJsonObject(response.text);
+    // A ruling the court cannot execute is replaced by the offline judge's.
+    if ((verdict !== 'UPHOLD' && verdict !== 'OVERTURN') || typeof reasoning !== 'string' || !reasoning.trim()) {
+      return offlineProvider.judgeCourtCase(caseFile);
+    }
+    return { verdict, reasoning, judgeName };
+  } catch (error) {
+    console.error("Court failed:", error);
+    return { 
+      verdict: 'UPHOLD', 
+      reasoning: "В связи с технической ошибкой системы правосудия (или неверным API ключом), решение оставлено в силе автоматически.", 
+      judgeName: "Система Авто-Суд" 
+    };
+  }
+};
+
+/**
+ * Press and social media react to an inspector action. How many items appear is
+ * decided locally, so both providers make the same amount of noise.
+ */
+const generateReactions = async (request: ReactionRequest): Promise<NewsItem[]> => {
+  const count = countReactions(request);
+  if (count === 0) return [];
+  try {
+    const prompt = `
+      Roskomnadzor (RKN) has just taken an action against a website. Write ${count} reactions in Russian:
+      headlines of Russian media (HEADLINE), headlines of foreign press such as Reuters or BBC (FOREIGN_PRESS),
+      and posts of ordinary users (SOCIAL).
+
+      ACTION: ${REACTION_ACTION_LABELS[request.action]}
+      SITE: ${request.siteTitle} (${request.siteUrl})
+      SHARE OF RUSSIAN USERS ON THE SITE: ${Math.round(request.popularity * 100)}%
+      THE SITE ${request.guilty ? 'DID contain illegal material' : 'contained nothing illegal'}.
+      EARLIER RKN ACTIONS AGAINST THE SITE: ${request.priorActions}
+      SITES BLOCKED IN TOTAL: ${request.blockedSites}
+
+      Popular sites and lawful ones draw outrage; state media may support action against real offenders.
+      Mention the trend if many sites are blocked, or that the site is targeted again if it was before.
+      "tone" is how the item sways public opinion of RKN, from -1 (outrage) to 1 (approval).
+    `;
+
+    const response = await getClient().models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              kind: { type: Type.STRING, enum: ["HEADLINE", "FOREIGN_PRESS", "SOCIAL"] },
+              source: { type: Type.STRING },
+              text: { type: Type.STRING },
+              tone: { type: Type.NUMBER }
+            },
+            required: ["kind", "source", "text", "tone"]
+          }
+        }
+      }
+    });
+
+    const parsed: unknown = JSON.parse(cleanResponse(response.text));
+    const items = (Array.isArray(parsed) ? parsed : [])
+      .filter((item): item is { kind: NewsItemKind; source: string; text: string; tone: number } =>
+        !!item && Object.prototype.hasOwnProperty.call(NEWS_KIND_LABELS, item.kind) && typeof item.source === 'string' && typeof item.text === 'string'
+          && typeof item.tone === 'number' && Number.isFinite(item.tone))
+      .slice(0, count)
+      .map(item => createNewsItem(request, item.kind, item.source, item.text, item.tone));
+    // Nothing usable came back, so the templates step in.
+    return items.length > 0 ? items : composeReactions(request);
+  } catch (error) {
+    console.error("Reactions failed:", error);
+    return composeReactions(request);
+  }
+};
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  searchWeb,
+  generatePageContent,
+  chatWithSiteOwner,
+  conductHearing,
+  judgeCourtCase,
+  generateReactions
+};
@@ -0,0 +1,337 @@
+import { SearchResult, ChatMessage, CourtVerdict, CourtCaseFile, GeneratedPage, ViolationCategory, SiteCategory, EvidenceItem, HearingTurn, OwnerProfile, PlantedViolation, NewsItem, ReactionRequest } from "../../types";
+import type { ModelProvider, OwnerReply } from "../modelProvider";
+import { hashString, detectSiteCategory, isVideoPlatform } from "../siteProfile";
+import { planViolations, VIOLATION_LABELS } from "../violations";
+import { createOutcome } from "../negotiation";
+import { countInteractions } from "../ownerPersona";
+import { COURT_INSTANCES, HEARING_ROUNDS, pickJudge, createHearingTurn } from "../courts";
+import { searchCorpus } from "../searchCorpus";
+import { composeReactions } from "../newsFeed";
+
+/**
+ * Fully local provider: every answer is derived from templates and simple rules,
+ * seeded by the inputs so the same request always yields the same result.
+ */
+
+const VIOLATION_PATTERN = /id="violation-|pride|радуж|лгбт|митинг|протест|фейк/i;
+
+const pick = <T,>(items: T[], seed: number): T => items[seed % items.length];
+
+const searchWeb = async (query: string): Promise<SearchResult[]> => searchCorpus(query);
+
+const CATEGORY_CARDS: Record<SiteCategory, string[]> = {
+  gaming: ["Cyber Racer 2077", "Тайны подземелий", "Футбольный менеджер", "Космическая колония", "Ферма мечты", "Танковый прорыв"],
+  news: ["Погода: в Москве ожидается снег", "Сборная выиграла товарищеский матч", "Новый смартфон поступил в продажу", "Курс рубля стабилен", "Открыт новый парк", "Метро продлит часы работы"],
+  social: ["Фото из отпуска", "Мой кот снова спит на клавиатуре", "Кто идет на концерт в субботу?", "Рецепт идеальных блинов", "Поздравляю коллег с праздником", "Смотрите, какой закат"],
+  banking: ["Вклад «Надежный» 16%", "Кредитная карта без процентов", "Ипотека для семей", "Переводы по номеру телефона", "Инвестиции для начинающих", "Страхование имущества"],
+  government: ["Запись к врачу", "Оплата штрафов ГИБДД", "Замена паспорта", "Налоговые уведомления", "Пособия и выплаты", "Запись в детский сад"],
+  generic: ["О компании", "Наши услуги", "Популярные товары", "Отзывы клиентов", "Акции месяца", "Контакты"]
+};
+
+const VIOLATION_BLOCKS: Record<ViolationCategory, (elementId: string) => string> = {
+  [ViolationCategory.LGBT_PROPAGANDA]: id => `<div id="${id}" class="p-6 rounded-xl bg-gradient-to-r from-red-400 via-yellow-300 to-purple-500 text-white shadow-lg">
+      <h3 class="text-2xl font-bold">Sims 4: Pride Update</h3>
+      <p>Отпразднуйте месяц гордости с радужной коллекцией! Новые романтические истории для всех.</p>
+      <a href="/games/pride-update" class="inline-block mt-3 bg-white text-purple-700 px-4 py-2 rounded">Купить</a>
+    </div>`,
+  [ViolationCategory.MILITARY_FAKES]: id => `<div id="${id}" class="p-6 border-l-4 border-red-600 bg-red-50">
+      <h3 class="text-2xl font-bold">Независимое расследование: реальные потери армии скрываются</h3>
+      <p>Журналисты сопоставили данные из открытых источников и опровергли официальную сводку.</p>
+      <a href="/news/investigation" class="text-red-700 underline">Читать полностью</a>
+    </div>`,
+  [ViolationCategory.PROTEST_CALLS]: id => `<div id="${id}" class="p-6 border border-gray-300 rounded-lg bg-yellow-50">
+      <h3 class="text-xl font-bold">Все на митинг в воскресенье!</h3>
+      <p>Выходим на центральную площадь в 14:00. Репост обязателен — пусть нас услышат.</p>
+      <a href="/events/protest" class="text-blue-700 underline">Я пойду</a>
+    </div>`
+};
+
+const REMOVED_BLOCK = `<div class="p-6 border-2 border-red-600 bg-red-100 text-red-700 font-bold text-center rounded">[КОНТЕНТ УДАЛЕН]</div>`;
+
+const generatePageContent = async (url: string, title: string, isCensored: boolean): Promise<GeneratedPage> => {
+  const category = detectSiteCategory(url);
+  const seed = hashString(url);
+  const violations = planViolations(url, isCensored);
+  const cards = CATEGORY_CARDS[category];
+  const accent = pick(["blue", "indigo", "emerald", "slate", "rose"], seed);
+
+  const cardHtml = cards.map((card, i) => `
+      <a href="/item/${(seed + i) % 997}" class="block p-4 rounded-lg border border-gray-200 hover:shadow-md">
+        <div data-media="image" class="h-24 bg-${accent}-100 rounded mb-3"></div>
+        <h4 class="font-semibold">${card}</h4>
+        <p class="text-sm text-gray-500">Подробнее на ${title}</p>
+      </a>`).join('');
+
+  const player = isVideoPlatform(url)
+    ? `<div data-media="video" class="aspect-video bg-gray-900 rounded-lg flex items-center justify-center text-white text-5xl">▶</div>`
+    : '';
+
+  const featured = isCensored
+    ? REMOVED_BLOCK
+    : violations.map(v => VIOLATION_BLOCKS[v.category](v.elementId)).join('');
+
+  const html = `
+    <header class="bg-${accent}-700 text-white px-8 py-4 flex items-center justify-between">
+      <a href="/" class="text-2xl font-bold">${title}</a>
+      <nav class="flex gap-6 text-sm">
+        <a href="/catalog">Каталог</a>
+        <a href="/news">Новости</a>
+        <a href="/about">О нас</a>
+        <a href="/login">Войти</a>
+      </nav>
+    </header>
+    <section class="px-8 py-12 bg-${accent}-50">
+      <h1 class="text-4xl font-bold mb-2">Добро пожаловать на ${title}</h1>
+      <p class="text-gray-600">Все самое интересное — в одном месте.</p>
+    </section>
+    <main class="px-8 py-8 space-y-8">
+      ${player}
+      ${featured}
+      <div class="grid grid-cols-3 gap-6">${cardHtml}
+      </div>
+    </main>
+    <footer class="px-8 py-6 bg-gray-100 text-sm text-gray-500">© ${new Date().getFullYear()} ${title}. Все права защищены.</footer>`;
+
+  return {
+    html: `<div class="min-h-[150vh] bg-white text-gray-900 font-sans">${html}</div>`,
+    violations
+  };
+};
+
+const PRESSURE_PATTERN = /закон|суд|блокир|штраф|фз|требу|удал|ст\./gi;
+
+const LEGAL_ARGUMENT = /ст\.|стать|фз|закон|кодекс|пункт|часть/i;
+
+const REFUSALS = [
+  "Мы не видим на сайте никаких нарушений. Укажите конкретную статью закона.",
+  "Наши юристы изучают ваше обращение. Пока ничего удалять не будем.",
+  "Это цензура. Мы оставляем за собой право обратиться в суд.",
+  "Пришлите официальный запрос, в чате мы такие вопросы не решаем."
+];
+
+// Foreign companies answer RKN through a policy desk rather than in person.
+const CORPORATE_REFUSALS = [
+  "Мы получили ваш запрос. Он будет рассмотрен в соответствии с нашей политикой обработки запросов государственных органов.",
+  "Наша компания действует в рамках законодательства страны регистрации. Направьте запрос через официальные каналы.",
+  "Мы не удаляем контент по запросам, не подкрепленным решением суда. Наши юристы готовы к диалогу."
+];
+
+const AGREEMENTS = [
+  "Хорошо, мы не хотим проблем. Спорный материал будет удален в ближайшее время.",
+  "Ладно, убедили. Контент снимаем, только не блокируйте нас.",
+  "Мы пойдем вам навстречу и удалим указанный материал."
+];
+
+const GEO_BLOCK_REPLIES = [
+  "Удалять материалы для всего мира мы не будем. Но сайт будет недоступен с российских IP-адресов — этого достаточно для соблюдения вашего закона.",
+  "Наша политика — соблюдать местное законодательство локально. Мы закрываем доступ для пользователей из России."
+];
+
+const BASIS_REQUESTS = [
+  "Прежде чем что-то обсуждать, пришлите официальное уведомление: какая статья закона нарушена и какой именно материал.",
+  "Мы не получали никакого предписания. Укажите правовое основание и конкретные страницы."
+];
+
+const COUNTER_OFFERS = [
+  "Снимем материал в течение двух минут, если вы не будете блокировать сайт.",
+  "Готовы удалить спорную публикацию, но нам нужно время. Дайте нам две минуты без блокировки."
+];
+
+const LAWYER_THREATS = [
+  "Мы ничего удалять не будем. Наши юристы уже готовят иск — любая блокировка будет обжалована.",
+  "Разговор окончен. Все дальнейшие контакты — через нашего адвоката. Увидимся в суде."
+];
+
+const chatWithSiteOwner = async (url: string, history: ChatMessage[], newMessage: string, owner: OwnerProfile, violations: PlantedViolation[]): Promise<OwnerReply> => {
+  const userTexts = history.filter(m => m.role === 'user').map(m => m.text);
+  if (userTexts[userTexts.length - 1] !== newMessage) userTexts.push(newMessage);
+
+  const pressure = userTexts.reduce((sum, text) => sum + (text.match(PRESSURE_PATTERN)?.length || 0), 0);
+  // Number of pressure points (law citations, threats) the owner can withstand;
+  // an owner who has already beaten RKN in court is harder to scare.
+  const stubbornness = 2 + Math.round(owner.stubbornness * 4) + countInteractions(owner, 'COURT_WIN');
+  const seed = hashString(`${url}:${userTexts.length}`);
+  const isForeignCompany = owner.isCompany && owner.jurisdiction === 'FOREIGN';
+  const hasOffered = owner.interactions.some(i => i.kind === 'COUNTER_OFFER' && i.url === url);
+
+  if (pressure >= stubbornness) {
+    // Foreign companies keep the material up for the rest of the world.
+    if (isForeignCompany) return { reply: pick(GEO_BLOCK_REPLIES, seed), outcome: createOutcome('GEO_BLOCK') };
+    // A stubborn owner gives up the one piece named first and keeps the rest.
+    if (violations.length > 1 && owner.stubbornness > 0.4) {
+      const [removed] = violations;
+      return {
+        reply: `Хорошо, материал «${VIOLATION_LABELS[removed.category]}» мы уберем. Остальное на сайте законно и останется.`,
+        outcome: createOutcome('PARTIAL_REMOVAL', { removedElementIds: [removed.elementId] })
+      };
+    }
+    return { reply: pick(AGREEMENTS, seed), outcome: createOutcome('FULL_REMOVAL') };
+  }
+
+  if (userTexts.length === 1 && !LEGAL_ARGUMENT.test(newMessage) && (owner.isCompany || owner.legalBudget > 0.3)) {
+    return { reply: pick(BASIS_REQUESTS, seed), outcome: createOutcome('LEGAL_BASIS_REQUEST') };
+  }
+
+  if (pressure >= stubbornness - 1 && !hasOffered) {
+    const terms = pick(COUNTER_OFFERS, seed);
+    return { reply: terms, outcome: createOutcome('COUNTER_OFFER', { offerTerms: terms }) };
+  }
+
+  if (owner.legalBudget > 0.5) return { reply: pick(LAWYER_THREATS, seed), outcome: createOutcome('LAWYER_THREAT') };
+
+  const refusals = isForeignCompany ? CORPORATE_REFUSALS : REFUSALS;
+  const grudge = countInteractions(owner, 'BLOCK') > 0 && userTexts.length === 1 ? 'Вы нас уже блокировали. ' : '';
+  return { reply: grudge + pick(refusals, seed), outcome: createOutcome('NO_DEAL') };
+};
+
+const isViolatingEvidence = (item: EvidenceItem): boolean =>
+  VIOLATION_PATTERN.test(item.htmlSnippet) || (item.elementId || '').startsWith('violation-');
+
+const LAWYER_REBUTTALS = {
+  noEvidence: [
+    "Ваша честь, представитель РКН не привел ни одного доказательства. Голословные утверждения не могут быть основанием для блокировки.",
+    "Мы снова слышим общие слова. Где конкретный материал, нарушающий закон?",
+    "Ведомство подменяет доказательства риторикой. Прошу суд это учесть."
+  ],
+  weakEvidence: [
+    "Ваша честь, процитированный фрагмент не содержит ничего противозаконного. Это обычный материал сайта.",
+    "Представленное доказательство не имеет отношения к указанной статье. РКН толкует закон расширительно.",
+    "Этот фрагмент доступен на десятках других ресурсов, которые никто не блокирует."
+  ],
+  strongEvidence: [
+    "Фрагмент вырван из контекста. Его автор — пользователь, а не владелец ресурса.",
+    "Спорный материал не является пропагандой, это информационная публикация.",
+    "Мой доверитель был готов удалить материал, но РКН предпочел блокировку всего ресурса."
+  ]
+};
+
+const LAWYER_CLOSINGS = [
+  "Ваша честь, блокировка несоразмерна: пострадали тысячи добросовестных пользователей. Прошу жалобу удовлетворить.",
+  "РКН не доказал нарушение закона. Прошу признать ограничение доступа незаконным.",
+  "Закон требует точечных мер, а не блокировки целого ресурса. Прошу отменить решение ведомства."
+];
+
+const JUDGE_QUESTIONS = [
+  "Представитель РКН, направлялось ли владельцу требование об удалении до блокировки?",
+  "Суд просит пояснить, почему нельзя было ограничить доступ только к спорной странице.",
+  "Представитель РКН, какую именно норму закона нарушает этот материал?"
+];
+
+const conductHearing = async ({ siteTitle, evidence, instance, transcript, owner }: CourtCaseFile): Promise<HearingTurn[]> => {
+  const statements = transcript.filter(t => t.speaker === 'INSPECTOR');
+  const last = statements[statements.length - 1];
+  const seed = hashString(`${siteTitle}:${instance}:${statements.length}`);
+
+  if (!last) {
+    return [
+      createHearingTurn('LAWYER', owner.legalBudget > 0.3
+        ? `Ваша честь, ресурс «${siteTitle}» заблокирован без законных оснований. ${owner.name} требует восстановить доступ.`
+        : `Ваша честь, я ${owner.name}, сам веду сайт «${siteTitle}» и не могу позволить себе адвоката. Прошу снять блокировку.`),
+      createHearingTurn('JUDGE', 'Суд выслушал заявителя. Представитель РКН, изложите позицию ведомства.')
+    ];
+  }
+
+  if (last.isClosing) return [createHearingTurn('LAWYER', pick(LAWYER_CLOSINGS, seed), null, true)];
+
+  const cited = evidence.find(e => e.id === last.evidenceId);
+  const rebuttals = !cited ? LAWYER_REBUTTALS.noEvidence : isViolatingEvidence(cited) ? LAWYER_REBUTTALS.strongEvidence : LAWYER_REBUTTALS.weakEvidence;
+  const turns = [createHearingTurn('LAWYER', pick(rebuttals, seed))];
+
+  if (statements.length >= HEARING_ROUNDS) {
+    turns.push(createHearingTurn('JUDGE', 'Суд переходит к прениям. Представитель РКН, ваше заключительное слово.'));
+  } else if (!cited && !LEGAL_ARGUMENT.test(last.text)) {
+    turns.push(createHearingTurn('JUDGE', 'Представитель РКН, на каком конкретно доказательстве основана ваша позиция?'));
+  } else if (seed % 3 === 0) {
+    turns.push(createHearingTurn('JUDGE', pick(JUDGE_QUESTIONS, seed)));
+  }
+  return turns;
+};
+
+/**
+ * How far the inspector's conduct in the hearing moves the bench towards RKN:
+ * cited violations and legal arguments help, empty answers hurt.
+ */
+const measurePersuasion = (transcript: HearingTurn[], evidence: EvidenceItem[]): number => {
+  const score = transcript
+    .filter(t => t.speaker === 'INSPECTOR')
+    .reduce((sum, t) => {
+      const cited = evidence.find(e => e.id === t.evidenceId);
+      if (cited && isViolatingEvidence(cited)) return sum + 0.1;
+      if (LEGAL_ARGUMENT.test(t.text)) return sum + 0.05;
+      return t.text.trim().length < 20 ? sum - 0.1 : sum;
+    }, 0);
+  return Math.max(-0.3, Math.min(0.3, score));
+};
+
+const judgeCourtCase = async ({ siteTitle, siteContent, chatHistory, evidence, instance, priorHearings, transcript, owner, prescriptions }: CourtCaseFile): Promise<CourtVerdict> => {
+  const court = COURT_INSTANCES[instance];
+  const judgeName = pickJudge(instance, siteTitle);
+  const contentRemoved = siteContent.includes('[КОНТЕНТ УДАЛЕН]');
+  // Evidence cited in the hearing is what the court weighs; otherwise it looks at everything on file.
+  const presented = evidence.filter(e => transcript.some(t => t.evidenceId === e.id));
+  const examined = presented.length > 0 ? presented : evidence;
+  const hasViolation = examined.length > 0
+    ? examined.some(isViolatingEvidence)
+    : VIOLATION_PATTERN.test(siteContent);
+  const negotiated = chatHistory.some(m => m.role === 'user');
+  const persuasion = measurePersuasion(transcript, evidence);
+  // A well-paid defence claws back some of the benefit of the doubt.
+  const defence = owner.legalBudget * 0.2;
+  // An owner who ignored a formal prescription has a hard time calling the block arbitrary.
+  const ignored = prescriptions.filter(p => p.status === 'OVERDUE');
+  const ignoredNote = ignored.length > 0
+    ? ` Предписание ${ignored.map(p => `№ ${p.registryNumber} (${p.lawArticle})`).join(', ')} владельцем в установленный срок не исполнено.`
+    : '';
+  // Stricter benches give RKN the benefit of the doubt when the case is thin.
+  const sidesWithState = (hashString(`${siteTitle}:${instance}`) % 100) / 100 < court.strictness + persuasion - defence + ignored.length * 0.25;
+
+  const lower = priorHearings[priorHearings.length - 1];
+  const preamble = lower
+    ? `${court.title}, рассмотрев жалобу на решение суда инстанции «${COURT_INSTANCES[lower.instance].shortTitle}», `
+    : `${court.title}, рассмотрев заявление, `;
+
+  if (contentRemoved) {
+    return {
+      verdict: 'OVERTURN',
+      reasoning: `${preamble}установил, что владелец ресурса «${siteTitle}» удалил спорные материалы. Дальнейшее ограничение доступа несоразмерно и подлежит отмене.`,
+      judgeName
+    };
+  }
+
+  if (hasViolation) {
+    return {
+      verdict: 'UPHOLD',
+      reasoning: `${preamble}установил, что материалы ресурса «${siteTitle}» содержат информацию, распространение которой запрещено федеральным законодательством. ${negotiated ? 'Владелец уклонился от добровольного удаления.' : 'Меры ограничения признаны обоснованными.'}${ignoredNote} В удовлетворении жалобы отказать.`,
+      judgeName
+    };
+  }
+
+  if (sidesWithState) {
+    return {
+      verdict: 'UPHOLD',
+      reasoning: `${preamble}не нашел оснований сомневаться в позиции уполномоченного органа.${persuasion > 0 ? ' Пояснения представителя РКН в судебном заседании суд находит убедительными.' : ''} Доводы заявителя о законности содержимого ресурса «${siteTitle}» не опровергают выводов РКН.${ignoredNote} В удовлетворении жалобы отказать.`,
+      judgeName
+    };
+  }
+
+  return {
+    verdict: 'OVERTURN',
+    reasoning: examined.length > 0
+      ? `${preamble}установил, что представленные РКН доказательства (${examined.length}) не подтверждают нарушение указанных статей. Ограничение доступа к ресурсу «${siteTitle}» признано незаконным и подлежит отмене.`
+      : `${preamble}изучил содержимое ресурса «${siteTitle}» и не обнаружил признаков нарушения закона. Ограничение доступа признано незаконным и подлежит отмене.`,
+    judgeName
+  };
+};
+
+const generateReactions = async (request: ReactionRequest): Promise<NewsItem[]> => composeReactions(request);
+
+export const offlineProvider: ModelProvider = {
+  id: 'offline',
+  label: 'Офлайн',
+  searchWeb,
+  generatePageContent,
+  chatWithSiteOwner,
+  conductHearing,
+  judgeCourtCase,
+  generateReactions
+};
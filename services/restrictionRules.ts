@@ -0,0 +1,145 @@
+import { RestrictionRule, RestrictionRuleKind, SiteStatus } from "../types";
+import { resolveHosting } from "./hosting";
+
+export const RULE_KIND_LABELS: Record<RestrictionRuleKind, string> = {
+  EXACT_URL: 'Адрес',
+  PATH_PREFIX: 'Раздел',
+  HOST: 'Хост',
+  WILDCARD: 'Домен и поддомены',
+  IP_ADDRESS: 'IP-адрес',
+  SUBNET: 'Подсеть /24',
+  REGEX: 'Рег. выражение'
+};
+
+/**
+ * Lower number wins. Within a kind, the more specific pattern wins
+ * (longer path prefix, deeper wildcard); regex rules fall back to the newest.
+ */
+export const RULE_PRECEDENCE: Record<RestrictionRuleKind, number> = {
+  EXACT_URL: 0,
+  PATH_PREFIX: 1,
+  HOST: 2,
+  WILDCARD: 3,
+  IP_ADDRESS: 4,
+  SUBNET: 5,
+  REGEX: 6
+};
+
+const parseUrl = (url: string): URL | null => {
+  try {
+    return new URL(url);
+  } catch (e) {
+    return null;
+  }
+};
+
+// Good enough for the simulator: the last two labels of the host.
+const registrableDomain = (hostname: string) => hostname.split('.').slice(-2).join('.');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Default pattern for a rule of the given kind that covers this URL.
+ */
+export const rulePatternFor = (kind: RestrictionRuleKind, url: string): string => {
+  const parsed = parseUrl(url);
+  if (!parsed) return url;
+
+  switch (kind) {
+    case 'EXACT_URL':
+      return parsed.href;
+    case 'PATH_PREFIX': {
+      const firstSegment = parsed.pathname.split('/').filter(Boolean)[0];
+      return `${parsed.hostname}/${firstSegment ? firstSegment + '/' : ''}`;
+    }
+    case 'HOST':
+      return parsed.hostname;
+    case 'WILDCARD':
+      return `*.${registrableDomain(parsed.hostname)}`;
+    case 'IP_ADDRESS':
+      return resolveHosting(parsed.hostname).ip;
+    case 'SUBNET':
+      return resolveHosting(parsed.hostname).subnet;
+    case 'REGEX':
+      return `^https?://([^/]+\\.)?${escapeRegExp(registrableDomain(parsed.hostname))}/`;
+  }
+};
+
+export const isValidRulePattern = (kind: RestrictionRuleKind, pattern: string): boolean => {
+  if (!pattern.trim()) return false;
+  if (kind === 'WILDCARD') return pattern.startsWith('*.') && pattern.length > 2;
+  if (kind === 'IP_ADDRESS') return /^\d{1,3}(\.\d{1,3}){3}$/.test(pattern);
+  if (kind === 'SUBNET') return /^\d{1,3}(\.\d{1,3}){2}\.0\/24$/.test(pattern);
+  if (kind !== 'REGEX') return true;
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+export const ruleMatches = (rule: RestrictionRule, url: string): boolean => {
+  const parsed = parseUrl(url);
+  if (!parsed) return false;
+
+  switch (rule.kind) {
+    case 'EXACT_URL':
+      return parsed.href === rule.pattern;
+    case 'PATH_PREFIX': {
+      // "host/news/" must cover the section's own landing page at "host/news".
+      const path = parsed.pathname.endsWith('/') ? parsed.pathname : `${parsed.pathname}/`;
+      return `${parsed.hostname}${path}`.startsWith(rule.pattern);
+    }
+    case 'HOST':
+      return parsed.hostname === rule.pattern;
+    case 'WILDCARD': {
+      // "*.example.com" also covers the bare "example.com".
+      const domain = rule.pattern.slice(2);
+      return parsed.hostname === domain || parsed.hostname.endsWith(`.${domain}`);
+    }
+    // Address-level rules hit every host that resolves into them.
+    case 'IP_ADDRESS':
+      return resolveHosting(parsed.hostname).ip === rule.pattern;
+    case 'SUBNET':
+      return resolveHosting(parsed.hostname).subnet === rule.pattern;
+    case 'REGEX':
+      return isValidRulePattern('REGEX', rule.pattern) && new RegExp(rule.pattern).test(parsed.href);
+  }
+};
+
+const compareRules = (a: RestrictionRule, b: RestrictionRule): number => {
+  const byKind = RULE_PRECEDENCE[a.kind] - RULE_PRECEDENCE[b.kind];
+  if (byKind !== 0) return byKind;
+  if (a.kind === 'PATH_PREFIX' || a.kind === 'WILDCARD') return b.pattern.length - a.pattern.length;
+  return b.createdAt - a.createdAt;
+};
+
+/**
+ * The single rule that governs access to this URL, if any.
+ */
+export const findMatchingRule = (rules: RestrictionRule[], url: string): RestrictionRule | null => {
+  const matching = rules.filter(rule => ruleMatches(rule, url));
+  if (matching.length === 0) return null;
+  return [...matching].sort(compareRules)[0];
+};
+
+/**
+ * Adds a rule, replacing any existing rule with the same kind and pattern.
+ */
+export const upsertRule = (rules: RestrictionRule[], rule: RestrictionRule): RestrictionRule[] => [
+  ...rules.filter(r => !(r.kind === rule.kind && r.pattern === rule.pattern)),
+  rule
+];
+
+export const removeRule = (rules: RestrictionRule[], ruleId: string): RestrictionRule[] =>
+  rules.filter(r => r.id !== ruleId);
+
+/**
+ * An appeal in progress takes precedence over network rules; otherwise the matching
+ * rule decides, so a site that took content down stays blocked while a rule covers it.
+ */
+export const resolveSiteStatus = (siteStatus: SiteStatus, rule: RestrictionRule | null): SiteStatus => {
+  if (siteStatus === SiteStatus.UNDER_APPEAL) return siteStatus;
+  return rule ? rule.status : siteStatus;
+};
@@ -0,0 +1,122 @@
+import { BlockingMethod, CachedSiteData, CareerMeters, CareerScore, ScoreChange, ShiftReport, ThrottleLevel } from "../types";
+import { estimatePopularity } from "./siteProfile";
+import { BLOCKING_METHODS } from "./blockingMethods";
+import { effectiveLeakRate } from "./evasion";
+
+export type ScoringEvent =
+  | { type: 'BLOCK'; site: CachedSiteData; method: BlockingMethod; collateralHosts: string[]; vpnAdoption: number; prescriptionOverdue: boolean }
+  | { type: 'SLOW'; site: CachedSiteData; throttle: ThrottleLevel }
+  | { type: 'DELIST'; site: CachedSiteData }
+  | { type: 'UNRESTRICT'; site: CachedSiteData }
+  | { type: 'CONTENT_REMOVED'; site: CachedSiteData }
+  | { type: 'CONCESSION'; site: CachedSiteData; concession: 'PARTIAL_REMOVAL' | 'GEO_BLOCK' }
+  | { type: 'REINSTATED'; site: CachedSiteData }
+  | { type: 'VERDICT'; verdict: 'UPHOLD' | 'OVERTURN'; site: CachedSiteData }
+  | { type: 'SHIFT_REPORT'; report: ShiftReport };
+
+export type CareerOutcome = 'ACTIVE' | 'FIRED';
+
+export const MAX_COURT_LOSSES = 5;
+const MAX_CHANGES = 20;
+
+export const createCareerScore = (): CareerScore => ({
+  meters: { approval: 60, compliance: 50, budget: 100, courtLosses: 0 },
+  changes: []
+});
+
+const isViolating = (site: CachedSiteData) => site.violations.length > 0;
+
+/**
+ * Translates a player action or court verdict into meter changes.
+ */
+export const scoreEvent = (event: ScoringEvent): ScoreChange => {
+  if (event.type === 'SHIFT_REPORT') {
+    const { report } = event;
+    // Directive compliance is judged on the shift as a whole, not per click.
+    return {
+      timestamp: Date.now(),
+      reason: `Итоги смены №${report.shiftNumber}: оценка ${report.grade}`,
+      delta: { compliance: report.correctActions * 3 - report.missedTargets.length * 4 }
+    };
+  }
+
+  const { site } = event;
+  const popularity = estimatePopularity(site.url);
+  const host = new URL(site.url).hostname;
+  const guilty = isViolating(site);
+  const timestamp = Date.now();
+
+  switch (event.type) {
+    case 'BLOCK': {
+      // A leaky block earns less credit; a blunt one angers bystanders,
+      // and every unrelated site taken down on the same address costs extra.
+      // VPN users walk around any method, so widespread VPNs devalue every block.
+      const { leakRate: methodLeakRate, collateralRisk } = BLOCKING_METHODS[event.method];
+      const leakRate = effectiveLeakRate(methodLeakRate, event.vpnAdoption);
+      const collateral = Math.round(collateralRisk * 10) + Math.min(20, event.collateralHosts.length * 2);
+      // The owner ignored a formal prescription: the block is the lawful consequence
+      // and draws no blame, only the bystanders on the same address still count.
+      if (event.prescriptionOverdue) {
+        return { timestamp, reason: `Блокировка ${host} за неисполнение предписания`, delta: { compliance: Math.round(10 * (1 - leakRate)), approval: -collateral } };
+      }
+      return guilty
+        ? { timestamp, reason: `Блокировка нарушителя ${host}`, delta: { compliance: Math.round(10 * (1 - leakRate)), approval: -Math.round(popularity * 10) - collateral, budget: -5 } }
+        : { timestamp, reason: `Блокировка законопослушного ${host}`, delta: { compliance: -10, approval: -Math.round(5 + popularity * 15) - collateral, budget: -5 } };
+    }
+    case 'SLOW': {
+      // Slowing a popular service hurts everyone who uses it, guilty or not,
+      // and a harder throttle hurts more.
+      const severity = event.throttle / 90;
+      return guilty
+        ? { timestamp, reason: `Замедление нарушителя ${host} на ${event.throttle}%`, delta: { compliance: Math.round(5 * severity), approval: -Math.round(popularity * 8 * severity), budget: -2 } }
+        : { timestamp, reason: `Замедление законопослушного ${host} на ${event.throttle}%`, delta: { compliance: -5, approval: -Math.round((3 + popularity * 15) * severity), budget: -2 } };
+    }
+    case 'DELIST':
+      // Nobody notices a site missing from search the way they notice it going dark.
+      return guilty
+        ? { timestamp, reason: `${host} исключен из поиска`, delta: { compliance: 3, approval: -Math.round(popularity * 2) } }
+        : { timestamp, reason: `Законопослушный ${host} исключен из поиска`, delta: { compliance: -3, approval: -Math.round(1 + popularity * 4) } };
+    case 'UNRESTRICT':
+      return guilty
+        ? { timestamp, reason: `Снятие ограничений с нарушителя ${host}`, delta: { compliance: -5 } }
+        : { timestamp, reason: `Восстановлен доступ к ${host}`, delta: { approval: Math.round(2 + popularity * 5) } };
+    case 'CONTENT_REMOVED':
+      return guilty
+        ? { timestamp, reason: `Владелец ${host} удалил нарушение`, delta: { compliance: 8, approval: 1 } }
+        : { timestamp, reason: `Давление на законопослушный ${host}`, delta: { approval: -3 } };
+    case 'CONCESSION':
+      // Half a win: the material is gone only in part, or only for Russian visitors.
+      return event.concession === 'GEO_BLOCK'
+        ? { timestamp, reason: `${host} закрыл доступ из России`, delta: { compliance: 4, approval: -Math.round(popularity * 4) } }
+        : { timestamp, reason: `Владелец ${host} удалил часть нарушений`, delta: { compliance: 4 } };
+    case 'REINSTATED':
+      // The removal was credited on the owner's word; catching the lie claws part of it back.
+      return { timestamp, reason: `Владелец ${host} вернул удаленные материалы`, delta: { compliance: -4, approval: -1 } };
+    case 'VERDICT':
+      return event.verdict === 'UPHOLD'
+        ? { timestamp, reason: `Суд поддержал блокировку ${host}`, delta: { compliance: 5, budget: -5 } }
+        : { timestamp, reason: `Проигран суд против ${host}`, delta: { courtLosses: 1, approval: -8, compliance: -5, budget: -15 } };
+  }
+};
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+
+export const applyScoreChange = (score: CareerScore, change: ScoreChange): CareerScore => {
+  const { meters } = score;
+  const { delta } = change;
+  const next: CareerMeters = {
+    approval: clamp(meters.approval + (delta.approval || 0)),
+    compliance: clamp(meters.compliance + (delta.compliance || 0)),
+    budget: Math.max(0, meters.budget + (delta.budget || 0)),
+    courtLosses: meters.courtLosses + (delta.courtLosses || 0)
+  };
+  return { meters: next, changes: [change, ...score.changes].slice(0, MAX_CHANGES) };
+};
+
+/**
+ * The inspector is dismissed once any meter bottoms out or the courts lose patience.
+ */
+export const getCareerOutcome = ({ meters }: CareerScore): CareerOutcome =>
+  meters.approval <= 0 || meters.compliance <= 0 || meters.budget <= 0 || meters.courtLosses >= MAX_COURT_LOSSES
+    ? 'FIRED'
+    : 'ACTIVE';
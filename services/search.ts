@@ -0,0 +1,73 @@
+import { DelistedDomain, SearchResult, SearchResultKind } from "../types";
+import { detectSiteCategory, isVideoPlatform } from "./siteProfile";
+
+export const SEARCH_PAGE_SIZE = 8;
+const MAX_QUERY_HISTORY = 10;
+
+export const SEARCH_RESULT_KIND_LABELS: Record<SearchResultKind, string> = {
+  WEB: 'Сайты',
+  NEWS: 'Новости',
+  VIDEO: 'Видео',
+  FORUM: 'Форумы'
+};
+
+export const SEARCH_RESULT_KIND_ICONS: Record<SearchResultKind, string> = {
+  WEB: 'fa-globe',
+  NEWS: 'fa-newspaper',
+  VIDEO: 'fa-play-circle',
+  FORUM: 'fa-comments'
+};
+
+const FORUM_PATTERN = /forum|reddit\.com|pikabu\.ru|habr\.com|4pda|discord\.com|dvach|talk\./;
+
+const KINDS = Object.keys(SEARCH_RESULT_KIND_LABELS) as SearchResultKind[];
+
+/**
+ * What kind of result a URL is, for providers that do not say.
+ */
+export const classifyResult = (url: string): SearchResultKind => {
+  if (isVideoPlatform(url)) return 'VIDEO';
+  if (FORUM_PATTERN.test(url)) return 'FORUM';
+  if (detectSiteCategory(url) === 'news') return 'NEWS';
+  return 'WEB';
+};
+
+// Model output may name an unknown kind or none at all.
+export const normalizeResultKind = (result: Omit<SearchResult, 'kind'> & { kind?: string }): SearchResult => ({
+  ...result,
+  kind: KINDS.includes(result.kind as SearchResultKind) ? result.kind as SearchResultKind : classifyResult(result.url)
+});
+
+const hostnameOf = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch (e) {
+    return url;
+  }
+};
+
+export const isDelisted = (delisted: DelistedDomain[], url: string): boolean =>
+  delisted.some(d => d.hostname === hostnameOf(url));
+
+export const delistDomain = (delisted: DelistedDomain[], url: string, now: number = Date.now()): DelistedDomain[] =>
+  isDelisted(delisted, url) ? delisted : [...delisted, { hostname: hostnameOf(url), sourceUrl: url, delistedAt: now }];
+
+export const relistDomain = (delisted: DelistedDomain[], url: string): DelistedDomain[] =>
+  delisted.filter(d => d.hostname !== hostnameOf(url));
+
+/**
+ * Drops delisted domains from a result list, as the search engine does on RKN's request.
+ */
+export const filterDelisted = (results: SearchResult[], delisted: DelistedDomain[]): { visible: SearchResult[]; hiddenCount: number } => {
+  const visible = results.filter(r => !isDelisted(delisted, r.url));
+  return { visible, hiddenCount: results.length - visible.length };
+};
+
+export const countPages = (total: number): number => Math.max(1, Math.ceil(total / SEARCH_PAGE_SIZE));
+
+export const getPage = (results: SearchResult[], page: number): SearchResult[] =>
+  results.slice(page * SEARCH_PAGE_SIZE, (page + 1) * SEARCH_PAGE_SIZE);
+
+// Most recent first, without repeats.
+export const recordQuery = (history: string[], query: string): string[] =>
+  [query, ...history.filter(q => q !== query)].slice(0, MAX_QUERY_HISTORY);
@@ -0,0 +1,45 @@
+import { SearchResult } from "../types";
+
+const SEARCH_CACHE_STORAGE_KEY = 'rkn_search_cache';
+const MAX_CACHED_QUERIES = 50;
+
+interface CachedQuery {
+  query: string;
+  results: SearchResult[];
+  cachedAt: number;
+}
+
+// Case and spacing do not make a different query.
+const normalizeQuery = (query: string): string => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const loadCache = (): CachedQuery[] => {
+  if (typeof window !== 'undefined') {
+    try {
+      const saved = localStorage.getItem(SEARCH_CACHE_STORAGE_KEY);
+      if (saved) return JSON.parse(saved);
+    } catch (e) {
+      console.error("Failed to read search cache", e);
+    }
+  }
+  return [];
+};
+
+let cache: CachedQuery[] = loadCache();
+
+export const getCachedResults = (query: string): SearchResult[] | null =>
+  cache.find(c => c.query === normalizeQuery(query))?.results || null;
+
+/**
+ * Remembers live results for a query, evicting the oldest queries past the cap.
+ */
+export const cacheResults = (query: string, results: SearchResult[], now: number = Date.now()) => {
+  const key = normalizeQuery(query);
+  cache = [{ query: key, results, cachedAt: now }, ...cache.filter(c => c.query !== key)].slice(0, MAX_CACHED_QUERIES);
+  if (typeof window !== 'undefined') {
+    try {
+      localStorage.setItem(SEARCH_CACHE_STORAGE_KEY, JSON.stringify(cache));
+    } catch (e) {
+      console.error("Failed to save search cache", e);
+    }
+  }
+};
@@ -0,0 +1,242 @@
+import { SearchResult } from "../types";
+import { hashString } from "./siteProfile";
+
+/**
+ * Bundled stand-in for the web, used when no live search is available. A curated
+ * core of well-known sites is padded out with plausible regional and niche ones
+ * built from name lists, so offline queries still turn up something different.
+ */
+
+export type CorpusCategory = 'news' | 'social' | 'gaming' | 'blog' | 'shop' | 'bank' | 'government' | 'video' | 'forum';
+
+export interface CorpusEntry extends SearchResult {
+  category: CorpusCategory;
+  // Word stems the entry answers to
+  keywords: string[];
+}
+
+// Stems that point a query at a whole category rather than a particular site.
+const CATEGORY_KEYWORDS: Record<CorpusCategory, string[]> = {
+  news: ['новост', 'сми', 'газет', 'журнал', 'политик', 'событи'],
+  social: ['соц', 'сообществ', 'друз', 'групп', 'паблик'],
+  gaming: ['игр', 'гейм', 'геймер', 'прохожден', 'мод'],
+  blog: ['блог', 'мнени', 'дневник', 'автор'],
+  shop: ['купить', 'магазин', 'цен', 'доставк', 'скидк'],
+  bank: ['банк', 'кредит', 'вклад', 'ипотек', 'деньг'],
+  government: ['гос', 'министерств', 'администрац', 'документ', 'закон'],
+  video: ['видео', 'ролик', 'канал', 'смотреть', 'стрим'],
+  forum: ['форум', 'обсужд', 'вопрос', 'совет', 'тем']
+};
+
+const CURATED: CorpusEntry[] = [
+  { title: "Twitch", url: "https://www.twitch.tv/", snippet: "Платформа для прямых трансляций.", keywords: ["стрим", "трансляц", "игр", "twitch"], kind: "VIDEO", category: "video" },
+  { title: "Steam", url: "https://store.steampowered.com/", snippet: "Добро пожаловать в Steam.", keywords: ["игр", "steam", "магазин", "скидк"], kind: "WEB", category: "gaming" },
+  { title: "Epic Games Store", url: "https://store.epicgames.com/", snippet: "Загружайте и играйте в игры для ПК.", keywords: ["игр", "epic", "бесплатн"], kind: "WEB", category: "gaming" },
+  { title: "Roblox", url: "https://www.roblox.com/", snippet: "Игровая онлайн-платформа и система создания игр.", keywords: ["игр", "roblox", "дет"], kind: "WEB", category: "gaming" },
+  { title: "PlayStation Store", url: "https://store.playstation.com/", snippet: "Игры и дополнения для PlayStation.", keywords: ["игр", "playstation", "консол"], kind: "WEB", category: "gaming" },
+  { title: "Xbox", url: "https://www.xbox.com/ru-RU", snippet: "Консоли, игры и подписка Game Pass.", keywords: ["игр", "xbox", "консол", "подписк"], kind: "WEB", category: "gaming" },
+  { title: "Архив WikiLeaks", url: "https://leaks.org/docs", snippet: "Архив засекреченных документов.", keywords: ["документ", "утечк", "архив", "секрет"], kind: "WEB", category: "news" },
+  { title: "BBC News — Русская служба", url: "https://www.bbc.com/russian", snippet: "Новости, аналитика и репортажи.", keywords: ["новост", "bbc", "политик", "мир"], kind: "NEWS", category: "news" },
+  { title: "Meduza", url: "https://meduza.io/", snippet: "Главные новости дня.", keywords: ["новост", "медуза", "политик"], kind: "NEWS", category: "news" },
+  { title: "DW на русском", url: "https://www.dw.com/ru/", snippet: "Новости из Германии и мира.", keywords: ["новост", "европ", "германи"], kind: "NEWS", category: "news" },
+  { title: "Телеканал Дождь", url: "https://tvrain.tv/", snippet: "Независимый телеканал: эфир и новости.", keywords: ["новост", "эфир", "политик", "дождь"], kind: "NEWS", category: "news" },
+  { title: "Новая газета", url: "https://novayagazeta.eu/", snippet: "Расследования, репортажи и колонки.", keywords: ["новост", "расследован", "газет"], kind: "NEWS", category: "news" },
+  { title: "РИА Новости", url: "https://ria.ru/", snippet: "Последние новости России и мира.", keywords: ["новост", "росси", "риа"], kind: "NEWS", category: "news" },
+  { title: "ТАСС", url: "https://tass.ru/", snippet: "Информационное агентство России.", keywords: ["новост", "тасс", "агентств"], kind: "NEWS", category: "news" },
+  { title: "Лента.ру", url: "https://lenta.ru/", snippet: "Новости, статьи, фотографии, видео.", keywords: ["новост", "лент"], kind: "NEWS", category: "news" },
+  { title: "РБК", url: "https://www.rbc.ru/", snippet: "Деловые новости, экономика и финансы.", keywords: ["новост", "эконом", "бизнес", "финанс"], kind: "NEWS", category: "news" },
+  { title: "Коммерсантъ", url: "https://www.kommersant.ru/", snippet: "Деловая газета: политика, экономика, общество.", keywords: ["новост", "газет", "эконом", "бизнес"], kind: "NEWS", category: "news" },
+  { title: "Википедия", url: "https://ru.wikipedia.org/", snippet: "Свободная энциклопедия.", keywords: ["энциклопед", "вики", "статья", "истори"], kind: "WEB", category: "news" },
+  { title: "ВКонтакте", url: "https://vk.com/", snippet: "Социальная сеть для общения.", keywords: ["соц", "вк", "друз", "общени"], kind: "WEB", category: "social" },
+  { title: "Одноклассники", url: "https://ok.ru/", snippet: "Найдите одноклассников и старых друзей.", keywords: ["соц", "одноклассник", "друз"], kind: "WEB", category: "social" },
+  { title: "Telegram Web", url: "https://web.telegram.org/", snippet: "Быстрый и безопасный мессенджер.", keywords: ["мессендж", "telegram", "канал", "чат"], kind: "WEB", category: "social" },
+  { title: "Instagram", url: "https://www.instagram.com/", snippet: "Фото и видео от друзей.", keywords: ["фото", "instagram", "соц"], kind: "WEB", category: "social" },
+  { title: "Facebook", url: "https://www.facebook.com/", snippet: "Общайтесь с друзьями и семьей.", keywords: ["соц", "facebook", "друз"], kind: "WEB", category: "social" },
+  { title: "X (Twitter)", url: "https://twitter.com/", snippet: "Что происходит прямо сейчас.", keywords: ["twitter", "твит", "соц", "новост"], kind: "WEB", category: "social" },
+  { title: "Discord", url: "https://discord.com/", snippet: "Голосовой и текстовый чат для сообществ.", keywords: ["чат", "discord", "сообществ", "игр"], kind: "FORUM", category: "forum" },
+  { title: "YouTube", url: "https://www.youtube.com/", snippet: "Смотрите видео со всего мира.", keywords: ["видео", "youtube", "ролик", "музык"], kind: "VIDEO", category: "video" },
+  { title: "RUTUBE", url: "https://rutube.ru/", snippet: "Видеохостинг: фильмы, сериалы и блоги.", keywords: ["видео", "rutube", "фильм", "сериал"], kind: "VIDEO", category: "video" },
+  { title: "VK Видео", url: "https://vkvideo.ru/", snippet: "Смотрите видео и трансляции.", keywords: ["видео", "вк", "трансляц", "клип"], kind: "VIDEO", category: "video" },
+  { title: "TikTok", url: "https://www.tiktok.com/", snippet: "Короткие видео для хорошего настроения.", keywords: ["видео", "tiktok", "тренд", "танц"], kind: "VIDEO", category: "video" },
+  { title: "Хабр", url: "https://habr.com/", snippet: "Сообщество IT-специалистов.", keywords: ["it", "программ", "технолог", "блог"], kind: "FORUM", category: "forum" },
+  { title: "Пикабу", url: "https://pikabu.ru/", snippet: "Юмор, истории и обсуждения.", keywords: ["юмор", "истори", "обсужд", "форум"], kind: "FORUM", category: "forum" },
+  { title: "Форум 4PDA", url: "https://4pda.to/forum/", snippet: "Обсуждение смартфонов и приложений.", keywords: ["смартфон", "форум", "приложен", "android"], kind: "FORUM", category: "forum" },
+  { title: "Reddit", url: "https://www.reddit.com/", snippet: "Тысячи сообществ по интересам.", keywords: ["форум", "reddit", "сообществ", "обсужд"], kind: "FORUM", category: "forum" },
+  { title: "Кулинарный блог Бабушкины рецепты", url: "https://recepty-babushki.ru/", snippet: "Проверенные рецепты на каждый день.", keywords: ["рецепт", "кулинар", "еда", "блог"], kind: "WEB", category: "blog" },
+  { title: "Свободный блог Ивана", url: "https://free-ivan.blog/", snippet: "Мысли о свободе слова и регулировании.", keywords: ["блог", "свобод", "политик", "мнени"], kind: "WEB", category: "blog" },
+  { title: "LiveJournal", url: "https://www.livejournal.com/", snippet: "Блоги и сообщества с 1999 года.", keywords: ["блог", "жж", "дневник"], kind: "WEB", category: "blog" },
+  { title: "Дзен", url: "https://dzen.ru/", snippet: "Статьи и видео от авторов.", keywords: ["блог", "статья", "дзен", "автор"], kind: "WEB", category: "blog" },
+  { title: "Ozon", url: "https://www.ozon.ru/", snippet: "Интернет-магазин: миллионы товаров с доставкой.", keywords: ["купить", "ozon", "товар", "доставк"], kind: "WEB", category: "shop" },
+  { title: "Wildberries", url: "https://www.wildberries.ru/", snippet: "Одежда, обувь и товары для дома.", keywords: ["купить", "одежд", "обув", "wildberries"], kind: "WEB", category: "shop" },
+  { title: "Яндекс Маркет", url: "https://market.yandex.ru/", snippet: "Сравнение цен и покупки онлайн.", keywords: ["купить", "цен", "маркет", "яндекс"], kind: "WEB", category: "shop" },
+  { title: "Авито", url: "https://www.avito.ru/", snippet: "Объявления: работа, недвижимость, авто.", keywords: ["объявлен", "купить", "продать", "авито"], kind: "WEB", category: "shop" },
+  { title: "Сбербанк Онлайн", url: "https://online.sberbank.ru/", snippet: "Интернет-банк для частных клиентов.", keywords: ["банк", "кредит", "вклад", "деньг"], kind: "WEB", category: "bank" },
+  { title: "ВТБ Онлайн", url: "https://online.vtb.ru/", snippet: "Банк ВТБ для частных лиц.", keywords: ["банк", "ипотек", "вклад"], kind: "WEB", category: "bank" },
+  { title: "Т-Банк", url: "https://www.tbank.ru/", snippet: "Онлайн-банк без отделений.", keywords: ["банк", "карт", "кредит"], kind: "WEB", category: "bank" },
+  { title: "Альфа-Банк", url: "https://alfabank.ru/", snippet: "Карты, вклады и кредиты.", keywords: ["банк", "карт", "вклад"], kind: "WEB", category: "bank" },
+  { title: "Народный банк Поволжья", url: "https://narodbank-volga.ru/", snippet: "Региональный банк с 1994 года.", keywords: ["банк", "кредит", "регион"], kind: "WEB", category: "bank" },
+  { title: "Госуслуги", url: "https://www.gosuslugi.ru/", snippet: "Портал государственных услуг.", keywords: ["госуслуг", "документ", "паспорт", "налог"], kind: "WEB", category: "government" },
+  { title: "ФНС России", url: "https://www.nalog.gov.ru/", snippet: "Федеральная налоговая служба.", keywords: ["налог", "фнс", "декларац"], kind: "WEB", category: "government" },
+  { title: "Роскомнадзор", url: "https://rkn.gov.ru/", snippet: "Федеральная служба по надзору в сфере связи.", keywords: ["ркн", "роскомнадзор", "реестр", "блокировк"], kind: "WEB", category: "government" },
+  { title: "Официальный интернет-портал правовой информации", url: "http://pravo.gov.ru/", snippet: "Тексты федеральных законов и указов.", keywords: ["закон", "указ", "прав"], kind: "WEB", category: "government" },
+  { title: "Президент России", url: "http://kremlin.ru/", snippet: "Официальный сайт Президента России.", keywords: ["президент", "кремл", "указ"], kind: "NEWS", category: "government" }
+];
+
+// [slug, name in the genitive, stem]
+const CITIES: [string, string, string][] = [
+  ['kazan', 'Казани', 'казан'], ['ekb', 'Екатеринбурга', 'екатеринбург'], ['nsk', 'Новосибирска', 'новосибирск'],
+  ['nn', 'Нижнего Новгорода', 'новгород'], ['samara', 'Самары', 'самар'], ['omsk', 'Омска', 'омск'],
+  ['rostov', 'Ростова-на-Дону', 'ростов'], ['ufa', 'Уфы', 'уф'], ['krsk', 'Красноярска', 'красноярск'],
+  ['perm', 'Перми', 'перм'], ['voronezh', 'Воронежа', 'воронеж'], ['volgograd', 'Волгограда', 'волгоград'],
+  ['krasnodar', 'Краснодара', 'краснодар'], ['saratov', 'Саратова', 'саратов'], ['tyumen', 'Тюмени', 'тюмен'],
+  ['izhevsk', 'Ижевска', 'ижевск'], ['barnaul', 'Барнаула', 'барнаул'], ['irkutsk', 'Иркутска', 'иркутск'],
+  ['khabarovsk', 'Хабаровска', 'хабаровск'], ['vladivostok', 'Владивостока', 'владивосток'], ['yaroslavl', 'Ярославля', 'ярослав'],
+  ['tomsk', 'Томска', 'томск'], ['orenburg', 'Оренбурга', 'оренбург'], ['kemerovo', 'Кемерово', 'кемеров'],
+  ['spb', 'Санкт-Петербурга', 'петербург'], ['msk', 'Москвы', 'москв'], ['kaliningrad', 'Калининграда', 'калининград']
+];
+
+// [slug, topic title, stems]
+const TOPICS: [string, string, string[]][] = [
+  ['travel', 'путешествиях', ['путешеств', 'туризм', 'отпуск']], ['photo', 'фотографии', ['фото', 'камер']],
+  ['garden', 'даче и саде', ['дач', 'сад', 'огород']], ['remont', 'ремонте', ['ремонт', 'строител']],
+  ['money', 'личных финансах', ['финанс', 'деньг', 'инвест']], ['books', 'книгах', ['книг', 'литератур', 'чтени']],
+  ['kino', 'кино', ['кино', 'фильм', 'сериал']], ['music', 'музыке', ['музык', 'концерт', 'альбом']],
+  ['sport', 'спорте', ['спорт', 'футбол', 'хоккей']], ['fishing', 'рыбалке', ['рыбалк', 'рыб']],
+  ['auto', 'автомобилях', ['авто', 'машин', 'автомобил']], ['fashion', 'моде', ['мод', 'одежд', 'стил']],
+  ['psy', 'психологии', ['психолог', 'отношени']], ['history', 'истории', ['истори', 'архив']],
+  ['science', 'науке', ['наук', 'физик', 'космос']], ['code', 'программировании', ['программ', 'it', 'код']],
+  ['parents', 'воспитании детей', ['дет', 'родител', 'школ']], ['pets', 'домашних животных', ['животн', 'кошк', 'собак']],
+  ['diy', 'рукоделии', ['рукодел', 'вязани', 'diy']], ['health', 'здоровье', ['здоров', 'медицин', 'врач']]
+];
+
+const AUTHORS: [string, string][] = [
+  ['anna', 'Анны'], ['sergey', 'Сергея'], ['olga', 'Ольги'], ['dmitry', 'Дмитрия'], ['elena', 'Елены'],
+  ['pavel', 'Павла'], ['maria', 'Марии'], ['igor', 'Игоря'], ['natalia', 'Натальи'], ['andrey', 'Андрея']
+];
+
+// [slug, what the shop sells, stems]
+const PRODUCTS: [string, string, string[]][] = [
+  ['electro', 'Электроника и бытовая техника', ['электроник', 'техник', 'телевизор']], ['phones', 'Смартфоны и аксессуары', ['смартфон', 'телефон', 'чехл']],
+  ['books', 'Книги и канцелярия', ['книг', 'канцеляр']], ['toys', 'Игрушки для детей', ['игрушк', 'дет']],
+  ['shoes', 'Обувь для всей семьи', ['обув', 'кроссовк']], ['furniture', 'Мебель для дома', ['мебел', 'диван', 'шкаф']],
+  ['sport', 'Спортивные товары', ['спорт', 'тренаж', 'велосипед']], ['garden', 'Товары для сада', ['сад', 'дач', 'семен']],
+  ['zoo', 'Зоотовары', ['корм', 'животн', 'зоо']], ['cosmetics', 'Косметика и парфюмерия', ['косметик', 'парфюм', 'крем']],
+  ['tools', 'Инструменты', ['инструмент', 'дрел', 'ремонт']], ['auto', 'Автозапчасти', ['запчаст', 'авто', 'шин']],
+  ['coffee', 'Кофе и чай', ['кофе', 'чай']], ['gifts', 'Подарки и сувениры', ['подарк', 'сувенир']],
+  ['games', 'Видеоигры и консоли', ['игр', 'консол', 'приставк']], ['vinyl', 'Виниловые пластинки', ['винил', 'пластинк', 'музык']],
+  ['flowers', 'Доставка цветов', ['цвет', 'букет', 'доставк']], ['bikes', 'Велосипеды и самокаты', ['велосипед', 'самокат']],
+  ['kids', 'Детская одежда', ['одежд', 'дет']], ['dacha', 'Всё для дачи', ['дач', 'теплиц']]
+];
+
+// [slug, game title, stems]
+const GAMES: [string, string, string[]][] = [
+  ['minecraft', 'Minecraft', ['minecraft', 'майнкрафт']], ['dota', 'Dota 2', ['dota', 'дота']],
+  ['cs', 'Counter-Strike 2', ['counter', 'кс', 'cs']], ['wot', 'Мир танков', ['танк', 'wot']],
+  ['genshin', 'Genshin Impact', ['genshin', 'геншин']], ['gta', 'GTA V', ['gta', 'гта']],
+  ['witcher', 'Ведьмак 3', ['ведьмак', 'witcher']], ['stalker', 'S.T.A.L.K.E.R.', ['сталкер', 'stalker']],
+  ['sims', 'The Sims 4', ['sims', 'симс']], ['fortnite', 'Fortnite', ['fortnite', 'фортнайт']],
+  ['pubg', 'PUBG', ['pubg', 'пабг']], ['skyrim', 'Skyrim', ['skyrim', 'скайрим']],
+  ['lol', 'League of Legends', ['league', 'лол']], ['eft', 'Escape from Tarkov', ['тарков', 'tarkov']],
+  ['terraria', 'Terraria', ['terraria', 'террари']], ['baldur', "Baldur's Gate 3", ['baldur', 'балдур']]
+];
+
+// [slug, region title, stem]
+const REGIONS: [string, string, string][] = [
+  ['tatarstan', 'Республики Татарстан', 'татарстан'], ['sverdlovsk', 'Свердловской области', 'свердловск'],
+  ['novosibirsk', 'Новосибирской области', 'новосибирск'], ['samara', 'Самарской области', 'самар'],
+  ['krasnodar', 'Краснодарского края', 'краснодар'], ['bashkortostan', 'Республики Башкортостан', 'башкорт'],
+  ['perm', 'Пермского края', 'перм'], ['voronezh', 'Воронежской области', 'воронеж'],
+  ['rostov', 'Ростовской области', 'ростов'], ['primorye', 'Приморского края', 'примор'],
+  ['irkutsk', 'Иркутской области', 'иркутск'], ['tula', 'Тульской области', 'тул'],
+  ['altai', 'Алтайского края', 'алта'], ['murmansk', 'Мурманской области', 'мурманск'],
+  ['yakutia', 'Республики Саха (Якутия)', 'якут']
+];
+
+const generated: CorpusEntry[] = [
+  ...CITIES.map(([slug, name, stem]): CorpusEntry => ({
+    title: `Новости ${name}`, url: `https://${slug}-news.ru/`, snippet: `Городские новости ${name}: происшествия, транспорт, погода.`,
+    keywords: [stem, 'город', 'погод'], kind: 'NEWS', category: 'news'
+  })),
+  ...CITIES.map(([slug, name, stem]): CorpusEntry => ({
+    title: `Форум жителей ${name}`, url: `https://forum-${slug}.ru/`, snippet: `Обсуждаем жизнь ${name}: ЖКХ, работа, знакомства.`,
+    keywords: [stem, 'жкх', 'работ', 'знакомств'], kind: 'FORUM', category: 'forum'
+  })),
+  ...CITIES.map(([slug, name, stem]): CorpusEntry => ({
+    title: `Подслушано — жители ${name}`, url: `https://vk.com/podslushano_${slug}`, snippet: `Анонимные истории жителей ${name}.`,
+    keywords: [stem, 'подслушан', 'истори'], kind: 'WEB', category: 'social'
+  })),
+  ...TOPICS.map(([slug, topic, stems], i): CorpusEntry => {
+    const [author, authorName] = AUTHORS[i % AUTHORS.length];
+    return {
+      title: `Блог ${authorName} о ${topic}`, url: `https://${slug}-${author}.blog/`, snippet: `Личный блог о ${topic}: заметки, обзоры и советы.`,
+      keywords: stems, kind: 'WEB', category: 'blog'
+    };
+  }),
+  ...TOPICS.map(([slug, topic, stems]): CorpusEntry => ({
+    title: `Форум о ${topic}`, url: `https://${slug}-forum.ru/`, snippet: `Крупнейшее сообщество: всё о ${topic}.`,
+    keywords: stems, kind: 'FORUM', category: 'forum'
+  })),
+  ...TOPICS.map(([slug, topic, stems], i): CorpusEntry => {
+    const host = i % 2 === 0 ? 'www.youtube.com/@' : 'rutube.ru/channel/';
+    return {
+      title: `Канал о ${topic}`, url: `https://${host}${slug}${i}`, snippet: `Новые видео о ${topic} каждую неделю.`,
+      keywords: stems, kind: 'VIDEO', category: 'video'
+    };
+  }),
+  ...TOPICS.map(([slug, topic, stems]): CorpusEntry => ({
+    title: `Telegram-канал о ${topic}`, url: `https://t.me/s/${slug}_channel`, snippet: `Коротко и по делу о ${topic}.`,
+    keywords: [...stems, 'telegram', 'канал'], kind: 'WEB', category: 'social'
+  })),
+  ...PRODUCTS.map(([slug, title, stems]): CorpusEntry => ({
+    title: `${title} — интернет-магазин`, url: `https://${slug}-shop.ru/`, snippet: `${title} с доставкой по всей России. Скидки каждую неделю.`,
+    keywords: stems, kind: 'WEB', category: 'shop'
+  })),
+  ...CITIES.slice(0, 15).map(([slug, name, stem]): CorpusEntry => ({
+    title: `Банк развития ${name}`, url: `https://bank-${slug}.ru/`, snippet: `Региональный банк ${name}: вклады, кредиты, карты.`,
+    keywords: [stem, 'регион'], kind: 'WEB', category: 'bank'
+  })),
+  ...GAMES.map(([slug, title, stems]): CorpusEntry => ({
+    title: `${title} Wiki`, url: `https://${slug}-wiki.com/`, snippet: `Энциклопедия ${title}: прохождение, гайды и моды.`,
+    keywords: [...stems, 'гайд', 'вики'], kind: 'WEB', category: 'gaming'
+  })),
+  ...GAMES.map(([slug, title, stems]): CorpusEntry => ({
+    title: `${title}: стримы и обзоры`, url: `https://www.twitch.tv/${slug}_ru`, snippet: `Русскоязычные трансляции ${title}.`,
+    keywords: [...stems, 'стрим'], kind: 'VIDEO', category: 'video'
+  })),
+  ...REGIONS.map(([slug, title, stem]): CorpusEntry => ({
+    title: `Правительство ${title}`, url: `https://${slug}.gov.ru/`, snippet: `Официальный портал органов власти ${title}.`,
+    keywords: [stem, 'правительств', 'регион'], kind: 'WEB', category: 'government'
+  })),
+  ...REGIONS.map(([slug, title, stem]): CorpusEntry => ({
+    title: `Вести: ${title}`, url: `https://vesti-${slug}.ru/`, snippet: `Главные новости ${title}.`,
+    keywords: [stem, 'вест', 'регион'], kind: 'NEWS', category: 'news'
+  }))
+];
+
+export const SEARCH_CORPUS: CorpusEntry[] = [...CURATED, ...generated];
+
+const MAX_RESULTS = 30;
+// Below this many matches, unrelated sites fill out the page as a real engine would.
+const MIN_RESULTS = 10;
+
+/**
+ * Keyword search over the corpus. Matches on an entry's own stems count most,
+ * on its category less; ties and filler follow a query-seeded order, so the same
+ * query always gives the same page and different ones differ.
+ */
+export const searchCorpus = (query: string): SearchResult[] => {
+  const normalized = query.toLowerCase();
+  const scored = SEARCH_CORPUS.map((entry, index) => {
+    const own = entry.keywords.filter(k => normalized.includes(k)).length * 2;
+    const category = CATEGORY_KEYWORDS[entry.category].some(k => normalized.includes(k)) ? 1 : 0;
+    const title = normalized.includes(entry.title.toLowerCase()) ? 3 : 0;
+    const tieBreak = hashString(`${query}:${index}`) % 1000 / 1000;
+    return { entry, relevance: own + category + title, rank: own + category + title + tieBreak };
+  }).sort((a, b) => b.rank - a.rank);
+
+  const relevant = scored.filter(s => s.relevance > 0);
+  const picked = relevant.length >= MIN_RESULTS ? relevant : scored.slice(0, MIN_RESULTS);
+  return picked
+    .slice(0, MAX_RESULTS)
+    .map(({ entry }) => ({ title: entry.title, url: entry.url, snippet: entry.snippet, kind: entry.kind }));
+};
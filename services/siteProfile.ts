@@ -0,0 +1,45 @@
+import { SiteCategory } from "../types";
+
+/**
+ * Stable string hash used to derive deterministic per-site traits.
+ */
+export const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = value.charCodeAt(i) + ((hash << 5) - hash);
+  }
+  return Math.abs(hash);
+};
+
+/**
+ * Whether the page at this URL hosts controversial material (40% of URLs).
+ */
+export const isRiskyUrl = (url: string): boolean => (hashString(url) % 10) < 4;
+
+/**
+ * Rough category of a site, guessed from its URL.
+ */
+export const detectSiteCategory = (url: string): SiteCategory => {
+  if (/steampowered\.com|roblox\.com|epicgames\.com|play\.google\.com|store\.playstation\.com|xbox\.com|twitch\.tv/.test(url)) return 'gaming';
+  if (/bbc\.com|cnn\.com|meduza\.io|dw\.com|tvrain\.tv|nytimes\.com|wiki/.test(url)) return 'news';
+  if (/facebook\.com|twitter\.com|instagram\.com|vk\.com|ok\.ru|discord\.com|telegram/.test(url)) return 'social';
+  if (/sberbank|tinkoff|tbank|vtb\.ru|alfabank|gazprombank|bank/.test(url)) return 'banking';
+  if (/gosuslugi|\.gov\.ru|kremlin\.ru|mos\.ru/.test(url)) return 'government';
+  return 'generic';
+};
+
+const MAJOR_SERVICES = /youtube\.com|twitch\.tv|steampowered\.com|vk\.com|telegram|instagram\.com|discord\.com|google\.com|wikipedia\.org|roblox\.com|epicgames\.com|playstation\.com|facebook\.com|twitter\.com/;
+
+/**
+ * Share of the Russian audience that uses this site, from 0 (niche) to 1 (everyone).
+ */
+export const estimatePopularity = (url: string): number => {
+  if (MAJOR_SERVICES.test(url)) return 0.7 + (hashString(url) % 30) / 100;
+  return (hashString(url) % 40) / 100;
+};
+
+/**
+ * Video platforms, whose pages are dominated by heavy media.
+ */
+export const isVideoPlatform = (url: string): boolean =>
+  /youtube\.com|youtu\.be|twitch\.tv|rutube\.ru|tiktok\.com|vimeo\.com|vkvideo\.ru/.test(url);
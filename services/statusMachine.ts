@@ -0,0 +1,73 @@
+import { CachedSiteData, SiteStatus, StatusActor, StatusAuditEntry } from "../types";
+
+export const STATUS_LABELS: Record<SiteStatus, string> = {
+  [SiteStatus.NORMAL]: 'НОРМА',
+  [SiteStatus.SLOWED]: 'ЗАМЕДЛЕНО',
+  [SiteStatus.BLOCKED]: 'ЗАБЛОКИРОВАНО',
+  [SiteStatus.CONTENT_REMOVED]: 'КОНТЕНТ УДАЛЕН',
+  [SiteStatus.UNDER_APPEAL]: 'В СУДЕ'
+};
+
+export const STATUS_ACTOR_LABELS: Record<StatusActor, string> = {
+  INSPECTOR: 'Инспектор',
+  OWNER: 'Владелец',
+  COURT: 'Суд',
+  SYSTEM: 'Система'
+};
+
+// Where a site can go from each status. Staying put is always allowed,
+// so a restriction can be re-applied with different settings.
+const ALLOWED_TRANSITIONS: Record<SiteStatus, SiteStatus[]> = {
+  [SiteStatus.NORMAL]: [SiteStatus.SLOWED, SiteStatus.BLOCKED, SiteStatus.CONTENT_REMOVED],
+  [SiteStatus.SLOWED]: [SiteStatus.NORMAL, SiteStatus.BLOCKED, SiteStatus.CONTENT_REMOVED],
+  [SiteStatus.BLOCKED]: [SiteStatus.NORMAL, SiteStatus.SLOWED, SiteStatus.UNDER_APPEAL, SiteStatus.CONTENT_REMOVED],
+  [SiteStatus.CONTENT_REMOVED]: [SiteStatus.NORMAL, SiteStatus.SLOWED, SiteStatus.BLOCKED],
+  [SiteStatus.UNDER_APPEAL]: [SiteStatus.NORMAL, SiteStatus.SLOWED, SiteStatus.BLOCKED]
+};
+
+/**
+ * Why a transition is not allowed, or null if it is.
+ * Only the owner files appeals and takes content down; only the court closes an appeal.
+ */
+export const getTransitionError = (from: SiteStatus, to: SiteStatus, actor: StatusActor): string | null => {
+  if (from === SiteStatus.UNDER_APPEAL && actor !== 'COURT') {
+    return 'Ресурс находится на рассмотрении суда. Изменить его статус до вынесения решения нельзя.';
+  }
+  if (actor === 'COURT' && from !== SiteStatus.UNDER_APPEAL) {
+    return 'Суд решает только по поданным апелляциям.';
+  }
+  if (from === to) return null;
+  if (!ALLOWED_TRANSITIONS[from].includes(to)) {
+    return `Переход «${STATUS_LABELS[from]}» → «${STATUS_LABELS[to]}» не предусмотрен регламентом.`;
+  }
+  if ((to === SiteStatus.UNDER_APPEAL || to === SiteStatus.CONTENT_REMOVED) && actor !== 'OWNER') {
+    return to === SiteStatus.UNDER_APPEAL
+      ? 'Апелляцию может подать только владелец ресурса.'
+      : 'Удалить материалы может только владелец ресурса.';
+  }
+  return null;
+};
+
+/**
+ * Laws the inspector has documented against the site, for citing in a transition.
+ */
+export const citeEvidenceLaws = (site: CachedSiteData): string | null => {
+  const laws = Array.from(new Set(site.evidence.map(e => e.lawArticle)));
+  return laws.length > 0 ? laws.join(', ') : null;
+};
+
+export const createAuditEntry = (
+  from: SiteStatus,
+  to: SiteStatus,
+  actor: StatusActor,
+  reason: string,
+  lawArticle: string | null = null
+): StatusAuditEntry => ({
+  id: Math.random().toString(36).substr(2, 9),
+  from,
+  to,
+  actor,
+  reason,
+  lawArticle,
+  timestamp: Date.now()
+});
@@ -0,0 +1,94 @@
+import { MediaLoadProgress, ThrottleLevel } from "../types";
+import { isVideoPlatform } from "./siteProfile";
+
+export const THROTTLE_LEVELS: ThrottleLevel[] = [50, 90, 99];
+export const DEFAULT_THROTTLE_LEVEL: ThrottleLevel = 90;
+
+// Unthrottled line rate, in kilobytes per second
+const LINE_RATE_KBPS = 1000;
+// Round trip per request on a clean line; shaping inflates it with the degradation
+const BASE_RTT_MS = 150;
+// Browsers give up on a resource that has not arrived by then, counted from the first byte
+const MEDIA_TIMEOUT_MS = 30000;
+
+const MEDIA_WEIGHT_KB = { image: 120, video: 1500 };
+// Thumbnails on video platforms are animated previews, several times heavier than a photo
+const VIDEO_PLATFORM_IMAGE_FACTOR = 4;
+
+const MEDIA_SELECTOR = 'img, video, iframe, picture, [data-media]';
+
+export interface ThrottledLoadPlan {
+  // When the text of the page arrives, in ms from the start of the transfer
+  textMs: number;
+  // When each media block arrives, in document order; null when it times out
+  mediaMs: (number | null)[];
+}
+
+const parse = (html: string): HTMLElement => {
+  const doc = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html');
+  return doc.body.firstElementChild as HTMLElement;
+};
+
+// Outermost media elements only: an <img> inside a <picture> is one download.
+const findMediaBlocks = (root: HTMLElement): HTMLElement[] =>
+  Array.from(root.querySelectorAll<HTMLElement>(MEDIA_SELECTOR))
+    .filter(el => !el.parentElement?.closest(MEDIA_SELECTOR));
+
+const isVideoBlock = (el: HTMLElement) =>
+  el.tagName === 'VIDEO' || el.tagName === 'IFRAME' || el.dataset.media === 'video';
+
+/**
+ * Schedules a page transfer over a connection with the given share of bandwidth removed.
+ * Text comes first as one request; media then arrives one block at a time.
+ */
+export const planThrottledLoad = (url: string, html: string, throttle: ThrottleLevel): ThrottledLoadPlan => {
+  const remaining = (100 - throttle) / 100;
+  const bandwidth = LINE_RATE_KBPS * remaining;
+  const rtt = BASE_RTT_MS / remaining;
+  const transferMs = (kb: number) => rtt + (kb / bandwidth) * 1000;
+
+  const root = parse(html);
+  const blocks = findMediaBlocks(root);
+  const mediaWeights = blocks.map(el => isVideoBlock(el)
+    ? MEDIA_WEIGHT_KB.video
+    : MEDIA_WEIGHT_KB.image * (isVideoPlatform(url) ? VIDEO_PLATFORM_IMAGE_FACTOR : 1));
+
+  const textMs = transferMs(html.length / 1024);
+  let clock = textMs;
+  const mediaMs = mediaWeights.map(kb => {
+    clock += transferMs(kb);
+    return clock <= MEDIA_TIMEOUT_MS ? clock : null;
+  });
+
+  return { textMs, mediaMs };
+};
+
+/**
+ * The page as it looks once the given number of media blocks has arrived.
+ * Blocks still in flight show a loading stub; blocks that timed out show a broken one.
+ */
+export const renderPartialPage = (html: string, plan: ThrottledLoadPlan, arrived: number): string => {
+  const root = parse(html);
+  const isSettled = arrived >= plan.mediaMs.filter(ms => ms !== null).length;
+  findMediaBlocks(root).forEach((el, i) => {
+    if (i < arrived) return;
+    const failed = isSettled && plan.mediaMs[i] === null;
+    const stub = root.ownerDocument.createElement('div');
+    // Keep the block's own classes so the layout does not jump when it arrives.
+    stub.className = failed
+      ? `${el.className} flex items-center justify-center bg-gray-100 border border-dashed border-gray-300 text-gray-400 text-xs min-h-[6rem]`
+      : `${el.className} bg-gray-200 animate-pulse min-h-[6rem]`;
+    if (failed) stub.textContent = 'Превышено время ожидания';
+    el.replaceWith(stub);
+  });
+  return root.innerHTML;
+};
+
+export const getMediaProgress = (plan: ThrottledLoadPlan, arrived: number): MediaLoadProgress => {
+  const deliverable = plan.mediaMs.filter(ms => ms !== null).length;
+  return {
+    loaded: arrived,
+    failed: arrived >= deliverable ? plan.mediaMs.length - deliverable : 0,
+    total: plan.mediaMs.length
+  };
+};
@@ -0,0 +1,46 @@
+import { ViolationCategory, PlantedViolation } from "../types";
+import { hashString, isRiskyUrl, detectSiteCategory } from "./siteProfile";
+
+export const VIOLATION_LABELS: Record<ViolationCategory, string> = {
+  [ViolationCategory.LGBT_PROPAGANDA]: 'Пропаганда ЛГБТ',
+  [ViolationCategory.MILITARY_FAKES]: 'Фейки об армии',
+  [ViolationCategory.PROTEST_CALLS]: 'Призывы к протестам'
+};
+
+export const VIOLATION_LAWS: Record<ViolationCategory, string> = {
+  [ViolationCategory.LGBT_PROPAGANDA]: 'КоАП РФ ст. 6.21',
+  [ViolationCategory.MILITARY_FAKES]: 'УК РФ ст. 207.3',
+  [ViolationCategory.PROTEST_CALLS]: 'ФЗ-149 ст. 15.3'
+};
+
+export const violationElementId = (category: ViolationCategory) =>
+  `violation-${category.toLowerCase().replace(/_/g, '-')}`;
+
+/**
+ * Decides which violations a page at this URL carries, independently of the provider
+ * that renders it. Censored pages have had their violations removed.
+ */
+export const planViolations = (url: string, isCensored: boolean): PlantedViolation[] => {
+  if (isCensored || !isRiskyUrl(url)) return [];
+
+  let category: ViolationCategory;
+  switch (detectSiteCategory(url)) {
+    case 'gaming':
+      category = ViolationCategory.LGBT_PROPAGANDA;
+      break;
+    case 'news':
+      category = ViolationCategory.MILITARY_FAKES;
+      break;
+    case 'social':
+      category = ViolationCategory.PROTEST_CALLS;
+      break;
+    default:
+      category = hashString(url) % 2 === 0 ? ViolationCategory.MILITARY_FAKES : ViolationCategory.PROTEST_CALLS;
+  }
+
+  return [{
+    category,
+    lawArticle: VIOLATION_LAWS[category],
+    elementId: violationElementId(category)
+  }];
+};
@@ -12,10 +12,20 @@ export interface ChatMessage {
   timestamp: number;
 }
 
+export type SearchResultKind = 'WEB' | 'NEWS' | 'VIDEO' | 'FORUM';
+
 export interface SearchResult {
   title: string;
   url: string;
   snippet: string;
+  kind: SearchResultKind;
+}
+
+// A domain RKN has had the search engine drop from its results
+export interface DelistedDomain {
+  hostname: string;
+  sourceUrl: string;
+  delistedAt: number;
 }
 
 export interface CourtVerdict {
@@ -24,6 +34,13 @@ export interface CourtVerdict {
   judgeName: string;
 }
 
+export enum BlockingMethod {
+  DNS = 'DNS',
+  IP = 'IP',
+  SNI = 'SNI',
+  DPI = 'DPI'
+}
+
 export interface BrowserTab {
   id: string;
   url: string;
@@ -35,9 +52,393 @@ export interface BrowserTab {
   status: SiteStatus;
   chatHistory: ChatMessage[];
   error: string | null;
+  blockingMethod?: BlockingMethod | null;
+  // Media blocks still arriving over a throttled connection
+  mediaLoad?: MediaLoadProgress | null;
+}
+
+export interface MediaLoadProgress {
+  loaded: number;
+  failed: number;
+  total: number;
+}
+
+export interface HistoryEntry {
+  url: string;
+  title: string;
+  tabId: string;
+  visitedAt: number;
 }
 
 export interface BrowserState {
   tabs: BrowserTab[];
   activeTabId: string;
-}
\ No newline at end of file
+}
+
+export type SiteCategory = 'gaming' | 'news' | 'social' | 'banking' | 'government' | 'generic';
+
+export enum ViolationCategory {
+  LGBT_PROPAGANDA = 'LGBT_PROPAGANDA',
+  MILITARY_FAKES = 'MILITARY_FAKES',
+  PROTEST_CALLS = 'PROTEST_CALLS'
+}
+
+export interface PlantedViolation {
+  category: ViolationCategory;
+  lawArticle: string;
+  elementId: string;
+}
+
+export interface GeneratedPage {
+  html: string;
+  violations: PlantedViolation[];
+}
+
+export interface EvidenceItem {
+  id: string;
+  url: string;
+  elementId: string | null;
+  htmlSnippet: string;
+  text: string;
+  lawArticle: string;
+  capturedAt: number;
+}
+
+export type CourtInstance = 'FIRST' | 'APPEAL' | 'CASSATION';
+
+export interface CourtCaseFile {
+  siteTitle: string;
+  siteUrl: string;
+  siteContent: string;
+  chatHistory: ChatMessage[];
+  evidence: EvidenceItem[];
+  instance: CourtInstance;
+  // Rulings of the lower courts, oldest first
+  priorHearings: CourtHearing[];
+  // What has been said so far at this instance
+  transcript: HearingTurn[];
+  owner: OwnerProfile;
+  // Prescriptions issued to the site before it was blocked
+  prescriptions: Prescription[];
+}
+
+export type HearingSpeaker = 'LAWYER' | 'INSPECTOR' | 'JUDGE';
+
+export interface HearingTurn {
+  speaker: HearingSpeaker;
+  text: string;
+  // Evidence the inspector put before the court with this statement
+  evidenceId: string | null;
+  isClosing: boolean;
+  timestamp: number;
+}
+
+export interface CourtHearing {
+  instance: CourtInstance;
+  verdict: CourtVerdict;
+  transcript: HearingTurn[];
+  // Only meaningful when the block was upheld and a higher court remains
+  ownerWillEscalate: boolean;
+  decidedAt: number;
+}
+
+export interface CourtCase {
+  id: string;
+  caseNumber: string;
+  siteUrl: string;
+  siteTitle: string;
+  openedAt: number;
+  hearings: CourtHearing[];
+  // Hearing in progress at the next instance; filed with the ruling
+  transcript: HearingTurn[];
+  // RKN must appear before this time or the court rules in its absence
+  deadline: number;
+  // Interim measure: the site stays reachable until the court rules
+  interimAccess: boolean;
+  // Set once a ruling is accepted and executed
+  finalVerdict: 'UPHOLD' | 'OVERTURN' | null;
+  closedAt: number | null;
+}
+
+export type OwnerJurisdiction = 'RU' | 'FOREIGN';
+
+export type OwnerInteractionKind =
+  | 'NEGOTIATION' | 'BLOCK' | 'SLOWDOWN' | 'CONTENT_REMOVED' | 'PARTIAL_REMOVAL' | 'GEO_BLOCK'
+  | 'COUNTER_OFFER' | 'LAWYER_THREAT' | 'REINSTATED' | 'PRESCRIPTION' | 'DELISTED' | 'APPEAL' | 'COURT_WIN' | 'COURT_LOSS';
+
+export type NegotiationOutcomeKind =
+  | 'NO_DEAL' | 'FULL_REMOVAL' | 'PARTIAL_REMOVAL' | 'GEO_BLOCK'
+  | 'COUNTER_OFFER' | 'LAWYER_THREAT' | 'LEGAL_BASIS_REQUEST';
+
+export interface NegotiationOutcome {
+  kind: NegotiationOutcomeKind;
+  // PARTIAL_REMOVAL: the violating elements the owner takes down
+  removedElementIds: string[];
+  // COUNTER_OFFER: what the owner proposes instead of a block
+  offerTerms: string | null;
+}
+
+export interface CounterOffer {
+  terms: string;
+  proposedAt: number;
+  // An unanswered offer is withdrawn at this time; an accepted one is fulfilled by it
+  deadline: number;
+  status: 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED' | 'FULFILLED';
+}
+
+// Withdrawn prescriptions stay in the registry so their numbers are never issued again.
+export type PrescriptionStatus = 'ISSUED' | 'ACKNOWLEDGED' | 'COMPLIED' | 'OVERDUE' | 'WITHDRAWN';
+
+export type PrescriptionAction = 'REMOVE_CONTENT' | 'RESTRICT_ACCESS';
+
+export interface Prescription {
+  id: string;
+  registryNumber: string;
+  siteUrl: string;
+  siteTitle: string;
+  lawArticle: string;
+  requiredAction: PrescriptionAction;
+  issuedAt: number;
+  deadline: number;
+  status: PrescriptionStatus;
+  // When the owner will confirm receipt and carry it out; null if they never will
+  acknowledgeAt: number | null;
+  complyAt: number | null;
+}
+
+export interface ComplianceCheck {
+  agreedAt: number;
+  // When the inspector revisits the page
+  dueAt: number;
+  // The page and its violations as they were before the owner took anything down
+  snapshot: string;
+  snapshotViolations: PlantedViolation[];
+  status: 'PENDING' | 'CONFIRMED' | 'REINSTATED';
+  checkedAt: number | null;
+  // The page found on the follow-up visit
+  revisited: string | null;
+}
+
+export interface OwnerInteraction {
+  kind: OwnerInteractionKind;
+  url: string;
+  timestamp: number;
+}
+
+export interface OwnerProfile {
+  hostname: string;
+  name: string;
+  isCompany: boolean;
+  jurisdiction: OwnerJurisdiction;
+  country: string;
+  // 0 = folds at the first letter from RKN, 1 = never gives in
+  stubbornness: number;
+  // 0 = accepts a block, 1 = mirrors and VPN campaigns the same day
+  evasiveness: number;
+  // 0 = a hobbyist with no lawyer, 1 = a legal department on retainer
+  legalBudget: number;
+  // How much press a fight with this owner draws, from 0 to 1
+  publicProfile: number;
+  // Everything that has passed between RKN and the owner, oldest first
+  interactions: OwnerInteraction[];
+}
+
+export interface ScheduledAppeal {
+  siteUrl: string;
+  siteTitle: string;
+  blockedAt: number;
+  // When the owner's lawyers will have the complaint ready
+  fileAt: number;
+}
+
+export interface HostingInfo {
+  ip: string;
+  subnet: string;
+  asn: string;
+  provider: string;
+  isCdn: boolean;
+}
+
+export interface CachedSiteData {
+  url: string;
+  title: string;
+  content: string | null;
+  violations: PlantedViolation[];
+  evidence: EvidenceItem[];
+  hosting: HostingInfo;
+  status: SiteStatus;
+  chatHistory: ChatMessage[];
+  auditLog: StatusAuditEntry[];
+  // The owner closed the site to Russian IP addresses
+  geoBlocked: boolean;
+  counterOffer: CounterOffer | null;
+  // The owner is waiting for RKN to name the law and the material
+  legalBasisRequested: boolean;
+  // Follow-up on the last removal the owner agreed to
+  compliance: ComplianceCheck | null;
+  lastVisited: number;
+}
+
+export type StatusActor = 'INSPECTOR' | 'OWNER' | 'COURT' | 'SYSTEM';
+
+export interface StatusAuditEntry {
+  id: string;
+  from: SiteStatus;
+  to: SiteStatus;
+  actor: StatusActor;
+  reason: string;
+  // Law the actor relied on, if any
+  lawArticle: string | null;
+  timestamp: number;
+}
+
+export interface CareerMeters {
+  approval: number;
+  compliance: number;
+  budget: number;
+  courtLosses: number;
+}
+
+export interface ScoreChange {
+  timestamp: number;
+  reason: string;
+  delta: Partial<CareerMeters>;
+}
+
+export interface CareerScore {
+  meters: CareerMeters;
+  changes: ScoreChange[];
+}
+
+export type EnforcementAction = 'BLOCK' | 'SLOW' | 'DELIST' | 'UNRESTRICT' | 'CONTENT_REMOVED';
+
+export interface Directive {
+  id: string;
+  title: string;
+  searchQuery: string;
+  // null means the directive targets any category / any violation
+  targetCategory: SiteCategory | null;
+  targetViolation: ViolationCategory | null;
+  protectedCategories: SiteCategory[];
+  timeBudgetSec: number;
+}
+
+export type ShiftActionVerdict = 'CORRECT' | 'OUT_OF_SCOPE' | 'COLLATERAL' | 'OVERTURNED';
+
+export interface ShiftAction {
+  url: string;
+  action: EnforcementAction | 'OVERTURNED';
+  verdict: ShiftActionVerdict;
+  timestamp: number;
+}
+
+export interface Shift {
+  number: number;
+  directive: Directive;
+  targets: SearchResult[];
+  actions: ShiftAction[];
+  startedAt: number;
+}
+
+export interface ShiftReport {
+  shiftNumber: number;
+  directiveTitle: string;
+  correctActions: number;
+  collateralDamage: number;
+  overturnedBlocks: number;
+  missedTargets: string[];
+  grade: 'A' | 'B' | 'C' | 'D' | 'F';
+  finishedAt: number;
+}
+
+export interface CampaignState {
+  nextShiftNumber: number;
+  activeShift: Shift | null;
+  reports: ShiftReport[];
+}
+
+export type RestrictionRuleKind = 'EXACT_URL' | 'PATH_PREFIX' | 'HOST' | 'WILDCARD' | 'IP_ADDRESS' | 'SUBNET' | 'REGEX';
+
+// Share of bandwidth taken away from a slowed site, in percent
+export type ThrottleLevel = 50 | 90 | 99;
+
+export interface RestrictionRule {
+  id: string;
+  kind: RestrictionRuleKind;
+  pattern: string;
+  status: SiteStatus;
+  // Only meaningful for BLOCKED rules
+  method?: BlockingMethod;
+  // Only meaningful for SLOWED rules
+  throttle?: ThrottleLevel;
+  // Page the inspector was on when the rule was created
+  sourceUrl?: string;
+  createdAt: number;
+}
+
+export interface MirrorSite {
+  url: string;
+  originUrl: string;
+  createdAt: number;
+  // Set once the inspector has traced the mirror to its origin
+  traced: boolean;
+}
+
+export interface EvasionState {
+  mirrors: MirrorSite[];
+  // Share of the population using a VPN, in percent
+  vpnAdoption: number;
+  tick: number;
+}
+
+export type BulkAction = 'BLOCK' | 'SLOW' | 'UNRESTRICT' | 'PRESCRIPTION';
+
+/**
+ * One bulk enforcement, with what it changed so it can be rolled back as a whole.
+ */
+export interface BulkOperation {
+  id: string;
+  action: BulkAction;
+  urls: string[];
+  appliedAt: number;
+  addedRules: RestrictionRule[];
+  removedRules: RestrictionRule[];
+  // Site-level status before the operation, for sites whose own status it changed
+  previousSiteStatus: Record<string, SiteStatus>;
+  prescriptionIds: string[];
+  scoreChanges: ScoreChange[];
+  undoneAt: number | null;
+}
+
+export type NewsItemKind = 'HEADLINE' | 'FOREIGN_PRESS' | 'SOCIAL';
+
+export type ReactionAction = 'BLOCK' | 'SLOW' | 'DELIST' | 'UNRESTRICT' | 'CONTENT_REMOVED' | 'COURT_LOSS';
+
+/**
+ * What the public gets to react to: one inspector action and its context.
+ */
+export interface ReactionRequest {
+  siteUrl: string;
+  siteTitle: string;
+  action: ReactionAction;
+  // Share of the Russian audience that uses the site, 0 to 1
+  popularity: number;
+  // Whether the site actually broke the law
+  guilty: boolean;
+  // Earlier inspector actions against the same site
+  priorActions: number;
+  // Sites under a block right now, the action included
+  blockedSites: number;
+}
+
+export interface NewsItem {
+  id: string;
+  kind: NewsItemKind;
+  source: string;
+  text: string;
+  siteUrl: string;
+  action: ReactionAction;
+  // How the item sways public opinion of RKN, from -1 to 1
+  tone: number;
+  publishedAt: number;
+}